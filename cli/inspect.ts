@@ -0,0 +1,81 @@
+// Prints the tags and chapters of media files, e.g. to check what a render wrote into its output
+// or what a source already carries.
+//
+//   npm run inspect -- <file-or-url> [<file-or-url> ...] [--json]
+//
+// Exit codes: 0 on success, 1 when a file can't be read, 2 on bad usage.
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { ALL_FORMATS, FilePathSource, Input, UrlSource, type Source } from 'mediabunny';
+import { readMediaMetadata, type MediaMetadata } from '../src/lib/stitcher';
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: npm run inspect -- <file-or-url> [<file-or-url> ...] [options]
+
+Options:
+  --json      Print one JSON object per file instead of a summary
+  -h, --help  Show this help`;
+
+const openLocation = (location: string): Source => {
+  if (/^https?:\/\//i.test(location)) return new UrlSource(location);
+  return new FilePathSource(location.startsWith('file://') ? fileURLToPath(location) : path.resolve(location));
+};
+
+const formatTime = (sec: number) => `${Math.floor(sec / 60)}:${(sec % 60).toFixed(3).padStart(6, '0')}`;
+
+const printSummary = (location: string, metadata: MediaMetadata) => {
+  console.log(location);
+  console.log(`  Title:       ${metadata.title ?? '-'}`);
+  console.log(`  Comment:     ${metadata.comment ?? '-'}`);
+  for (const [name, value] of Object.entries(metadata.identifiers)) {
+    console.log(`  ${`${name}:`.padEnd(13)}${value}`);
+  }
+  console.log(`  Chapters:    ${metadata.chapters.length}`);
+  for (const chapter of metadata.chapters) {
+    console.log(`    ${formatTime(chapter.startSec)}  ${chapter.title}`);
+  }
+  const tagNames = Object.keys(metadata.tags);
+  console.log(`  Tags:        ${tagNames.length > 0 ? tagNames.join(', ') : '-'}`);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) throw new UsageError('Expected at least one file or URL');
+
+  for (const location of positionals) {
+    const input = new Input({ source: openLocation(location), formats: ALL_FORMATS });
+    try {
+      const metadata = await readMediaMetadata(input);
+      if (values.json) {
+        console.log(JSON.stringify({ location, ...metadata }));
+      } else {
+        printSummary(location, metadata);
+      }
+    } finally {
+      input.dispose();
+    }
+  }
+};
+
+main().catch((err: unknown) => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,230 @@
+// Headless renderer: stitches one cutdown from a `SampleData` JSON file into a video file on disk,
+// in the container and codecs given by its `export` settings (MP4 with H.264/AAC by default).
+//
+//   npm run render -- <cutdown.json> [--index N | --uuid UUID] [--out FILE]
+//                      [--base-dir DIR] [--source ID_OR_ASSET=PATH_OR_URL ...] [--captions vtt|srt]
+//
+// Exit codes: 0 on success, 1 when validation or rendering fails, 2 on bad usage.
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { FilePathSource, FilePathTarget, UrlSource, type Source } from 'mediabunny';
+import { stitch } from '../src/lib/stitcher';
+import { describeEncoding, exportFileName } from '../src/lib/exportSettings';
+import { formatCaptionFile, type CaptionFileFormat, type TimedCaption } from '../src/lib/captions';
+import { validateSampleData, hasBlockingIssues, isDraftProject } from '../src/lib/validation';
+import { isLocalSource } from '../src/lib/localFiles';
+import type { SampleData, SourceFile } from '../src/types';
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: npm run render -- <cutdown.json> [options]
+
+Options:
+  --index N              Render the N-th entry when the file holds an array (default 0)
+  --uuid UUID            Render the entry with this cutdown_uuid
+  --out FILE             Output path (default: <cutdown_uuid>.<container extension>)
+  --base-dir DIR         Directory that relative source paths resolve against
+                         (default: the directory of the JSON file)
+  --source KEY=LOCATION  Override a source by source_id or asset_id with a local
+                         path or URL. Can be repeated. Sources picked from disk
+                         in the app are otherwise looked up by file name.
+  --captions vtt|srt     Also write the captions as a sidecar file next to the output
+  -h, --help             Show this help`;
+
+const formatMs = (sec: number | null) => sec === null ? 'n/a' : `${Math.round(sec * 1000)}ms`;
+
+const isRemote = (location: string) => /^https?:\/\//i.test(location);
+
+const pickEntry = (data: unknown, index: number | undefined, uuid: string | undefined): SampleData => {
+  if (!Array.isArray(data)) {
+    if (index !== undefined && index !== 0) throw new UsageError('--index given but the file holds a single cutdown');
+    return data as SampleData;
+  }
+
+  if (uuid !== undefined) {
+    const entry = data.find(item => (item as SampleData)?.video_cutdown_result?.cutdown_uuid === uuid);
+    if (!entry) throw new UsageError(`No cutdown with cutdown_uuid ${uuid}`);
+    return entry as SampleData;
+  }
+
+  const i = index ?? 0;
+  if (i < 0 || i >= data.length) throw new UsageError(`--index ${i} is out of range (file has ${data.length} entries)`);
+  return data[i] as SampleData;
+};
+
+const parseSourceOverrides = (values: string[]) => {
+  const overrides = new Map<string, string>();
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) throw new UsageError(`--source expects KEY=LOCATION, got "${value}"`);
+    overrides.set(value.slice(0, separator), value.slice(separator + 1));
+  }
+  return overrides;
+};
+
+// Remote URLs are fetched, `file://` URLs and plain paths are read from disk
+const openLocation = (baseDir: string, location: string): Source => {
+  if (isRemote(location)) return new UrlSource(location);
+  const filePath = location.startsWith('file://') ? fileURLToPath(location) : path.resolve(baseDir, location);
+  return new FilePathSource(filePath);
+};
+
+// Sources picked from disk in the app have a `local:` URL; without an override their file is
+// looked up by name in the base directory
+const defaultLocation = (sourceFile: SourceFile) => {
+  if (!isLocalSource(sourceFile)) return sourceFile.url;
+  if (!sourceFile.local_file) {
+    throw new Error(`Source ${sourceFile.source_id} is a local file with no name; pass --source ${sourceFile.source_id}=PATH`);
+  }
+  return sourceFile.local_file.name;
+};
+
+const createSourceResolver = (baseDir: string, overrides: Map<string, string>) => (sourceFile: SourceFile): Source =>
+  openLocation(
+    baseDir,
+    overrides.get(String(sourceFile.source_id)) ?? overrides.get(sourceFile.asset_id) ?? defaultLocation(sourceFile)
+  );
+
+// Node has no WebCodecs. Re-encoding goes through @napi-rs/webcodecs (FFmpeg-based, installed
+// with the dev dependencies), unless the runtime already provides the globals. Without it, only
+// renders that copy every packet work; the stitcher says so once it knows what it must re-encode.
+// The specifier is kept out of the type-checker's way: the package's globals clash with the DOM's.
+const WEBCODECS_POLYFILL = '@napi-rs/webcodecs/polyfill';
+
+const installWebCodecs = async () => {
+  if (typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined') return;
+  try {
+    await import(WEBCODECS_POLYFILL);
+  } catch (err: unknown) {
+    console.error(
+      `Warning: WebCodecs isn't available (${err instanceof Error ? err.message : err}); ` +
+      'only fast-copy renders will work. Install the dev dependencies to re-encode.'
+    );
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      index: { type: 'string' },
+      uuid: { type: 'string' },
+      out: { type: 'string' },
+      'base-dir': { type: 'string' },
+      source: { type: 'string', multiple: true },
+      captions: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one cutdown JSON file');
+  if (values.index !== undefined && values.uuid !== undefined) throw new UsageError('Use either --index or --uuid, not both');
+
+  const captionFormat = values.captions as CaptionFileFormat | undefined;
+  if (captionFormat !== undefined && captionFormat !== 'vtt' && captionFormat !== 'srt') {
+    throw new UsageError(`--captions must be vtt or srt, got "${values.captions}"`);
+  }
+
+  const index = values.index !== undefined ? Number(values.index) : undefined;
+  if (index !== undefined && !Number.isInteger(index)) throw new UsageError(`--index must be an integer, got "${values.index}"`);
+
+  await installWebCodecs();
+
+  const jsonPath = path.resolve(positionals[0]);
+  const data = pickEntry(JSON.parse(await readFile(jsonPath, 'utf8')), index, values.uuid);
+
+  const issues = validateSampleData(data);
+  for (const issue of issues) {
+    console.error(`${issue.severity}: ${issue.path.join('.')}: ${issue.message}`);
+  }
+  if (hasBlockingIssues(issues)) {
+    throw new Error('The cutdown has validation errors');
+  }
+  if (isDraftProject(data)) {
+    throw new Error('The cutdown has no segments yet');
+  }
+
+  const cutdown = data.video_cutdown_result;
+  const outPath = path.resolve(values.out ?? exportFileName(cutdown));
+  const baseDir = path.resolve(values['base-dir'] ?? path.dirname(jsonPath));
+  const createSource = createSourceResolver(baseDir, parseSourceOverrides(values.source ?? []));
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  console.error(`Rendering "${cutdown.project_name}" (${cutdown.segments.length} segments) to ${outPath}`);
+
+  let captions: TimedCaption[] = [];
+  const { duration } = await stitch(cutdown, {
+    signal: controller.signal,
+    target: new FilePathTarget(outPath),
+    createSource,
+    createMusicSource: (track) => openLocation(baseDir, track.url),
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'status':
+          console.error(event.message);
+          break;
+        case 'progress':
+          console.error(`Progress: ${Math.round(event.progress * 100)}%`);
+          break;
+        case 'segment-skipped':
+          console.error(`Skipped segment ${event.index} (${event.segment.purpose}): ${event.reason}`);
+          break;
+        case 'warning':
+          console.error(`Warning: ${event.message}`);
+          break;
+        case 'encoding':
+          console.error(`Encoding as ${describeEncoding(event.encoding)}`);
+          break;
+        case 'segment-sync': {
+          const { report } = event;
+          if (report.endDriftSec !== null || report.paddedAudioSec > 0) {
+            console.error(
+              `Segment ${report.index} A/V: end drift ${formatMs(report.endDriftSec)}, ` +
+              `${Math.round(report.paddedAudioSec * 1000)}ms of audio padded`
+            );
+          }
+          break;
+        }
+        case 'segment-rendered':
+          console.error(`Segment ${event.index} ${event.method}${event.note ? ` (${event.note})` : ''}`);
+          break;
+        case 'captions':
+          captions = event.captions;
+          break;
+        case 'chapters':
+          console.error(`Writing ${event.chapters.length} chapters; check them with npm run inspect -- <output>`);
+          break;
+      }
+    },
+  });
+
+  console.error(`Wrote ${outPath} (${duration.toFixed(3)}s)`);
+
+  if (captionFormat) {
+    const captionPath = outPath.replace(/\.[^./\\]*$/, '') + `.${captionFormat}`;
+    await writeFile(captionPath, formatCaptionFile(captions, captionFormat));
+    console.error(`Wrote ${captionPath} (${captions.length} captions)`);
+  }
+};
+
+// The polyfill's codecs don't hold Node's event loop open while they work, so without this the
+// process can exit mid-render, waiting on a decoder, with nothing left scheduled
+const keepAlive = setInterval(() => {}, 60_000);
+
+main().catch((err: unknown) => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+}).finally(() => clearInterval(keepAlive));
@@ -1,78 +1,355 @@
-import { useState, useCallback, useRef } from 'react';
-import Editor, { type OnMount } from '@monaco-editor/react';
+import { useState, useRef, useMemo, useEffect, useEffectEvent, useSyncExternalStore } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
 import './App.css';
 import videoCutdownResults from './data/video_cutdown_results.json';
 import { SegmentPlayer } from './components/SegmentPlayer';
 import { MainPlayer } from './components/MainPlayer';
-import type { SampleData } from './types';
+import { ExportSettingsPanel } from './components/ExportSettingsPanel';
+import { CaptionsPanel } from './components/CaptionsPanel';
+import { TimelineEditor } from './components/TimelineEditor';
+import { SourceBrowser } from './components/SourceBrowser';
+import { PreviewPlayer } from './components/PreviewPlayer';
+import { RenderCachePanel } from './components/RenderCachePanel';
+import { JobsPanel } from './components/JobsPanel';
+import { LocalFilesPanel } from './components/LocalFilesPanel';
+import { SourceProbePanel } from './components/SourceProbePanel';
+import { ProjectLibraryPanel } from './components/ProjectLibraryPanel';
+import type { CaptionSettings, ExportSettings, SampleData, SegmentCrop, VideoCutdownResult } from './types';
+import { validateSampleData, hasBlockingIssues, isDraftProject, type ValidationIssue } from './lib/validation';
+import { setValidationMarkers, clearValidationMarkers } from './lib/editorMarkers';
+import { dominantFrameRate, resolveOutputSpec } from './lib/outputSpec';
+import { syncDerivedFields } from './lib/timelineEdits';
+import { describeLocalSource, localFiles, mediaInputFor } from './lib/localFiles';
+import { segmentsOutsideMedia, type ProbedSource, type ProbedSources } from './lib/sourceCheck';
+import {
+  createProject,
+  listProjects,
+  onProjectLibraryChange,
+  saveDraft,
+  saveVersion,
+  seedProjects,
+  type ProjectRecord,
+} from './lib/projectLibrary';
+import { blankProject, projectName } from './lib/projectFiles';
+
+// Undo steps kept for the editor's JSON
+const MAX_UNDO_STEPS = 100;
+
+// The editor's draft is saved to the project library this long after the last change
+const AUTOSAVE_DELAY_MS = 500;
+
+const bundledProjects = videoCutdownResults as unknown as SampleData[];
 
 function App() {
-  // State for selected project index
-  const [selectedProjectIndex, setSelectedProjectIndex] = useState<number>(() => {
-    const saved = localStorage.getItem('selectedProjectIndex');
-    const index = saved ? parseInt(saved, 10) : 0;
-    // Validate index is within bounds
-    if (index >= 0 && index < videoCutdownResults.length) {
-      return index;
-    }
-    return 0;
-  });
+  // Projects in the library, and the one open in the editor. Until the library has loaded, the
+  // first bundled sample is shown.
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const currentProject = projects.find(project => project.id === projectId) ?? null;
 
   // State for the currently active data (used by players)
-  const [activeData, setActiveData] = useState<SampleData>(videoCutdownResults[selectedProjectIndex] as unknown as SampleData);
+  const [activeData, setActiveData] = useState<SampleData>(bundledProjects[0]);
   
   // State for the editor content
-  const [jsonInput, setJsonInput] = useState<string>(JSON.stringify(videoCutdownResults[selectedProjectIndex], null, 2));
+  const [jsonInput, setJsonInput] = useState<string>(JSON.stringify(bundledProjects[0], null, 2));
   
+  // Undo/redo over the editor's JSON. Each panel or timeline edit is one step, and so is each run
+  // of typing in the editor between them.
+  const [history, setHistory] = useState<{ past: string[]; future: string[] }>({ past: [], future: [] });
+  const typingRef = useRef(false);
+
+  // Segment selected on the timeline and in the source browser
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
+
+  // Files from disk bound to local sources
+  const localBindings = useSyncExternalStore(localFiles.subscribe, localFiles.getSnapshot);
+
+  // What "Probe sources" found in the media, by source_id
+  const [sourceProbes, setSourceProbes] = useState<ProbedSources>({});
+  const handleSourceProbed = (sourceId: number, probed: ProbedSource) =>
+    setSourceProbes(prev => ({ ...prev, [sourceId]: probed }));
+
+  const changeJson = (next: string, typed = false) => {
+    if (next === jsonInput) return;
+    if (!typed || !typingRef.current) {
+      setHistory(prev => ({ past: [...prev.past, jsonInput].slice(-MAX_UNDO_STEPS), future: [] }));
+    } else if (history.future.length > 0) {
+      setHistory(prev => ({ ...prev, future: [] }));
+    }
+    typingRef.current = typed;
+    setJsonInput(next);
+  };
+
+  const handleUndo = () => {
+    const previous = history.past.at(-1);
+    if (previous === undefined) return;
+    setHistory({ past: history.past.slice(0, -1), future: [jsonInput, ...history.future] });
+    typingRef.current = false;
+    setJsonInput(previous);
+  };
+
+  const handleRedo = () => {
+    const [next, ...future] = history.future;
+    if (next === undefined) return;
+    setHistory({ past: [...history.past, jsonInput], future });
+    typingRef.current = false;
+    setJsonInput(next);
+  };
+
   // State to force remount/reset of players
   const [resetKey, setResetKey] = useState<number>(0);
 
-  const [processingIndex, setProcessingIndex] = useState(0);
-
-  const editorRef = useRef<any>(null);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const [editorReady, setEditorReady] = useState(false);
 
-  const handleEditorDidMount: OnMount = (editor) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
   };
 
+  // Parsed editor content, or undefined while it is not valid JSON
+  const parsedInput = useMemo<{ value: unknown } | undefined>(() => {
+    try {
+      return { value: JSON.parse(jsonInput) };
+    } catch {
+      return undefined;
+    }
+  }, [jsonInput]);
+
+  // Validate on every edit. Syntax errors are left to Monaco's own JSON markers.
+  const validationIssues = useMemo<ValidationIssue[] | null>(
+    () => parsedInput ? validateSampleData(parsedInput.value) : null,
+    [parsedInput]
+  );
+
+  // Project blocks as currently edited, which may differ from the rendered ones until Execute.
+  // Invalid blocks are shown as the defaults; editing them in a panel replaces them.
+  const draftBlock = <K extends 'export' | 'captions' | 'segments' | 'source_files'>(key: K): VideoCutdownResult[K] | undefined => {
+    const hasErrors = validationIssues?.some(issue =>
+      issue.severity === 'error' && (issue.path.length < 2 || issue.path[1] === key)
+    ) ?? true;
+    return hasErrors ? undefined : (parsedInput?.value as SampleData).video_cutdown_result[key];
+  };
+  const draftExportSettings = draftBlock('export');
+  const draftCaptionSettings = draftBlock('captions');
+  const draftSegments = draftBlock('segments');
+  const draftSourceFiles = draftBlock('source_files');
+  const outsideMedia = draftSegments && draftSourceFiles
+    ? segmentsOutsideMedia(draftSegments, draftSourceFiles, sourceProbes)
+    : [];
+
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!editorReady || !monaco || !model) return;
+
+    if (validationIssues) {
+      setValidationMarkers(monaco, model, validationIssues);
+    } else {
+      clearValidationMarkers(monaco, model);
+    }
+  }, [editorReady, validationIssues]);
+
+  const errorCount = validationIssues?.filter(issue => issue.severity === 'error').length ?? 0;
+  const warningCount = validationIssues?.filter(issue => issue.severity === 'warning').length ?? 0;
+  const isDraft = errorCount === 0 && parsedInput !== undefined && isDraftProject(parsedInput.value as SampleData);
+
   const handleFormat = () => {
     if (editorRef.current) {
-      editorRef.current.getAction('editor.action.formatDocument').run();
+      editorRef.current.getAction('editor.action.formatDocument')?.run();
     }
   };
 
   const handleExecute = () => {
     try {
       const parsed = JSON.parse(jsonInput);
-      // Basic validation could go here
-      setActiveData(parsed);
+      const issues = validateSampleData(parsed);
+      if (hasBlockingIssues(issues)) {
+        const errors = issues.filter(issue => issue.severity === 'error');
+        alert(`Cannot execute: ${errors.length} error(s) in the configuration.\n\n` +
+          errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n'));
+        return;
+      }
+      if (isDraftProject(parsed)) {
+        alert('Cannot execute: the project has no segments yet.');
+        return;
+      }
+      setActiveData(parsed as SampleData);
       setResetKey(prev => prev + 1);
-      setProcessingIndex(0); // Reset queue
+      // Every executed configuration is kept in the project's history
+      if (projectId) {
+        saveVersion(projectId, jsonInput, 'Executed').catch((err: unknown) => console.error('Could not save a version', err));
+      }
     } catch (e) {
       alert('Invalid JSON: ' + (e as Error).message);
     }
   };
 
-  const handleProjectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const index = parseInt(event.target.value, 10);
-    setSelectedProjectIndex(index);
-    localStorage.setItem('selectedProjectIndex', index.toString());
-    const newData = videoCutdownResults[index] as unknown as SampleData;
-    setActiveData(newData);
-    setJsonInput(JSON.stringify(newData, null, 2));
+  // Opens a project's draft in the editor. The players take it up when it validates, as they
+  // would on Execute; otherwise they keep what they had until it is fixed and executed.
+  const openProject = (project: ProjectRecord) => {
+    // The draft being left may not have been autosaved yet
+    if (projectId && projectId !== project.id) {
+      saveDraft(projectId, jsonInput).catch((err: unknown) => console.error('Could not save the draft', err));
+    }
+    setProjectId(project.id);
+    localStorage.setItem('selectedProjectId', project.id);
+    setJsonInput(project.json);
+    try {
+      const parsed = JSON.parse(project.json);
+      if (!hasBlockingIssues(validateSampleData(parsed)) && !isDraftProject(parsed)) setActiveData(parsed as SampleData);
+    } catch {
+      // Left for the editor's markers
+    }
+    setHistory({ past: [], future: [] });
+    typingRef.current = false;
+    setSelectedSegment(null);
+    setSourceProbes({});
     setResetKey(prev => prev + 1);
-    setProcessingIndex(0);
   };
 
-  const handleSegmentComplete = useCallback(() => {
-    setProcessingIndex(prev => prev + 1);
+  const handleProjectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const project = projects.find(p => p.id === event.target.value);
+    if (project) openProject(project);
+  };
+
+  // The library starts out with the bundled samples. The last open project is reopened; an
+  // empty library gets a blank project.
+  const openInitialProject = useEffectEvent((list: ProjectRecord[]) => {
+    // Before the library, the bundled sample was remembered by its index
+    const saved = localStorage.getItem('selectedProjectId');
+    const legacyIndex = Number(localStorage.getItem('selectedProjectIndex'));
+    openProject(list.find(project => project.id === saved) ?? list[legacyIndex] ?? list[0]);
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = async () => {
+      const list = await listProjects();
+      if (!cancelled) setProjects(list);
+      return list;
+    };
+    const load = async () => {
+      try {
+        await seedProjects(bundledProjects.map((data, i) => ({
+          name: projectName(data, `Project ${i + 1}`),
+          json: JSON.stringify(data, null, 2),
+        })));
+        let list = await refresh();
+        if (list.length === 0) {
+          await createProject('Untitled', JSON.stringify(blankProject('Untitled'), null, 2));
+          list = await refresh();
+        }
+        if (!cancelled) openInitialProject(list);
+      } catch (err: unknown) {
+        console.error(err);
+        if (!cancelled) setLibraryError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    };
+    load();
+    // Autosaves and edits in other tabs
+    const unsubscribe = onProjectLibraryChange(() => {
+      refresh().catch((err: unknown) => console.error(err));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
-  const { segments, source_files } = activeData.video_cutdown_result;
+  // Autosave the draft shortly after the last change
+  useEffect(() => {
+    if (!projectId) return;
+    const timer = setTimeout(() => {
+      saveDraft(projectId, jsonInput).catch((err: unknown) => console.error('Could not save the draft', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, jsonInput]);
+
+  // Applies an edit made outside the editor to its JSON. `mutate` returns a reason when it can't.
+  const updateCutdownJson = (action: string, mutate: (cutdown: VideoCutdownResult) => string | void) => {
+    let parsed: SampleData;
+    try {
+      parsed = JSON.parse(jsonInput);
+    } catch (e) {
+      alert(`Cannot ${action}, the JSON is invalid: ${(e as Error).message}`);
+      return;
+    }
+
+    const reason = parsed?.video_cutdown_result ? mutate(parsed.video_cutdown_result) : 'there is no video_cutdown_result';
+    if (reason) {
+      alert(`Cannot ${action}, ${reason}`);
+      return;
+    }
+    changeJson(JSON.stringify(parsed, null, 2));
+  };
+
+  // Timeline edits also bring the fields derived from the segment ranges up to date
+  const handleTimelineEdit = (action: string, edit: (cutdown: VideoCutdownResult) => string | void) => {
+    updateCutdownJson(action, (draft) => {
+      const reason = edit(draft);
+      if (reason) return reason;
+      syncDerivedFields(draft);
+    });
+  };
+
+  // Writes a crop drawn on a segment preview back into the editor's JSON
+  const handleCropChange = (sceneId: number, crop: SegmentCrop | undefined) => {
+    updateCutdownJson('update crop', (draft) => {
+      const segment = draft.segments?.find(s => s.scene_id === sceneId);
+      if (!segment) return `segment ${sceneId} is no longer in the JSON`;
+
+      if (crop) {
+        segment.crop = crop;
+      } else {
+        delete segment.crop;
+      }
+    });
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings | undefined) => {
+    updateCutdownJson('update export settings', (draft) => {
+      if (settings) {
+        draft.export = settings;
+      } else {
+        delete draft.export;
+      }
+    });
+  };
+
+  const handleCaptionSettingsChange = (settings: CaptionSettings | undefined) => {
+    updateCutdownJson('update captions', (draft) => {
+      if (settings) {
+        draft.captions = settings;
+      } else {
+        delete draft.captions;
+      }
+    });
+  };
+
+  const cutdown = activeData.video_cutdown_result;
+  const { segments, source_files } = cutdown;
+  const outputSpec = resolveOutputSpec(cutdown);
+  // The preview follows the editor whenever the JSON validates
+  const previewCutdown = parsedInput && errorCount === 0
+    ? (parsedInput.value as SampleData).video_cutdown_result
+    : cutdown;
 
   return (
     <div className="App" style={{ padding: '20px', maxWidth: '1400px', margin: '0 auto' }}>
       <h1 style={{ textAlign: 'center', marginBottom: '30px' }}>MediaBunny Video Segments</h1>
+
+      <ProjectLibraryPanel
+        projects={projects}
+        current={currentProject}
+        json={jsonInput}
+        error={libraryError}
+        onOpen={openProject}
+        onRestore={(json) => changeJson(json)}
+      />
       
       {/* Top Section: Split View */}
       <div style={{ display: 'flex', gap: '20px', marginBottom: '40px', flexWrap: 'wrap' }}>
@@ -100,7 +377,8 @@ function App() {
             <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
               <span style={{ color: '#fff', fontWeight: 'bold' }}>Configuration JSON</span>
               <select 
-                value={selectedProjectIndex}
+                value={projectId ?? ''}
+                disabled={!projectId}
                 onChange={handleProjectChange}
                 style={{ 
                   padding: '5px', 
@@ -111,12 +389,16 @@ function App() {
                   maxWidth: '200px'
                 }}
               >
-                {videoCutdownResults.map((item, index) => (
-                  <option key={index} value={index}>
-                    {(item as unknown as SampleData).video_cutdown_result.project_name || `Project ${index + 1}`}
-                  </option>
+                {!projectId && <option value="">{libraryError ? 'Library unavailable' : 'Loading projects...'}</option>}
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
                 ))}
               </select>
+              {(errorCount > 0 || warningCount > 0) && (
+                <span style={{ fontSize: '0.8em', color: errorCount > 0 ? '#ff5252' : '#ffb74d' }}>
+                  {errorCount} error(s), {warningCount} warning(s)
+                </span>
+              )}
             </div>
             <div style={{ display: 'flex', gap: '10px' }}>
               <button 
@@ -127,10 +409,12 @@ function App() {
               </button>
               <button 
                 onClick={handleExecute}
+                title={errorCount > 0 ? 'Fix the configuration errors before executing'
+                  : isDraft ? 'Add a segment before executing' : undefined}
                 style={{ 
                   padding: '5px 15px', 
                   fontSize: '0.8em', 
-                  backgroundColor: '#4CAF50', 
+                  backgroundColor: errorCount > 0 || isDraft ? '#777' : '#4CAF50', 
                   color: 'white', 
                   border: 'none', 
                   borderRadius: '4px',
@@ -149,7 +433,7 @@ function App() {
               defaultLanguage="json"
               theme="vs-dark"
               value={jsonInput}
-              onChange={(value) => setJsonInput(value || '')}
+              onChange={(value) => changeJson(value || '', true)}
               onMount={handleEditorDidMount}
               options={{
                 minimap: { enabled: false },
@@ -162,15 +446,54 @@ function App() {
 
         {/* Right: Main Player (50%) */}
         <div style={{ flex: '1', minWidth: '500px' }}>
+          <ExportSettingsPanel
+            settings={draftExportSettings}
+            sourceFrameRate={draftSegments && draftSourceFiles ? dominantFrameRate(draftSegments, draftSourceFiles) : null}
+            onChange={handleExportSettingsChange}
+          />
+          <CaptionsPanel settings={draftCaptionSettings} onChange={handleCaptionSettingsChange} />
+          <PreviewPlayer cutdown={previewCutdown} />
+          <TimelineEditor
+            segments={draftSegments}
+            sourceFiles={draftSourceFiles}
+            selected={selectedSegment}
+            onSelect={setSelectedSegment}
+            onEdit={handleTimelineEdit}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            outsideMedia={outsideMedia}
+          />
           <MainPlayer 
             key={`main-${resetKey}`} 
-            segments={segments} 
-            sourceFiles={source_files} 
+            cutdown={cutdown} 
           />
         </div>
 
       </div>
 
+      <LocalFilesPanel sourceFiles={draftSourceFiles} onEdit={updateCutdownJson} />
+      <SourceProbePanel
+        sourceFiles={draftSourceFiles}
+        probes={sourceProbes}
+        outsideMedia={outsideMedia}
+        onProbed={handleSourceProbed}
+        onSelect={setSelectedSegment}
+        onEdit={updateCutdownJson}
+      />
+
+      <SourceBrowser
+        segments={draftSegments}
+        sourceFiles={draftSourceFiles}
+        selected={selectedSegment}
+        onSelect={setSelectedSegment}
+        onEdit={handleTimelineEdit}
+      />
+
+      <JobsPanel />
+      <RenderCachePanel />
+
       {/* Bottom Section: Segment Players */}
       <div className="segments-container" style={{ 
         display: 'flex', 
@@ -181,7 +504,7 @@ function App() {
         // backgroundColor: '#f9f9f9', // Removed to respect dark theme
         // borderRadius: '12px'
       }}>
-        {segments.map((segment, index) => {
+        {segments.map((segment) => {
           const source = source_files.find(s => s.source_id === segment.source_id);
           
           if (!source) {
@@ -192,13 +515,24 @@ function App() {
             );
           }
 
+          const input = mediaInputFor(source, localBindings);
+          if (!input) {
+            return (
+              <div key={segment.scene_id} style={{ color: '#ffb74d' }}>
+                Segment {segment.scene_id}: drop or locate {describeLocalSource(source)}
+              </div>
+            );
+          }
+
           return (
             <SegmentPlayer 
               key={`seg-${resetKey}-${segment.scene_id}`} 
               segment={segment} 
-              sourceUrl={source.url}
-              canProcess={index === processingIndex}
-              onComplete={handleSegmentComplete}
+              source={input}
+              assetId={source.asset_id}
+              outputAspectRatio={outputSpec.width / outputSpec.height}
+              onCropChange={(crop) => handleCropChange(segment.scene_id, crop)}
+              exportSettings={cutdown.export}
             />
           );
         })}
@@ -0,0 +1,116 @@
+import { useRef } from 'react';
+import { parseCaptionFile } from '../lib/captions';
+import { compact } from '../lib/compact';
+import type { CaptionPosition, CaptionSettings, CaptionStyle } from '../types';
+import { barPanelStyle, buttonStyle, inputStyle } from './panelStyles';
+
+interface CaptionsPanelProps {
+  settings: CaptionSettings | undefined;
+  onChange: (settings: CaptionSettings | undefined) => void;
+}
+
+const POSITIONS: CaptionPosition[] = ['bottom', 'middle', 'top'];
+
+// Edits the project's `captions` block. Imported WebVTT/SRT files replace the project's
+// output-time cues; captions on segments are edited in the JSON.
+export function CaptionsPanel({ settings, onChange }: CaptionsPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const current = settings ?? {};
+  const style = current.style ?? {};
+
+  const update = (patch: Partial<CaptionSettings>) => onChange(compact({ ...current, ...patch }));
+  const updateStyle = (patch: Partial<CaptionStyle>) => update({ style: compact({ ...style, ...patch }) });
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err: unknown) {
+      alert(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    const cues = parseCaptionFile(text);
+    if (cues.length === 0) {
+      alert(`No captions found in ${file.name}. Expected a WebVTT or SRT file.`);
+      return;
+    }
+    update({ cues });
+  };
+
+  return (
+    <div style={barPanelStyle}>
+      <strong style={{ color: '#fff' }}>Captions</strong>
+      <span>{current.cues?.length ?? 0} cue(s)</span>
+      <button onClick={() => fileInput.current?.click()} style={buttonStyle}>
+        Import .vtt/.srt
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".vtt,.srt,text/vtt"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void handleImport(file);
+        }}
+      />
+      {current.cues && (
+        <button onClick={() => update({ cues: undefined })} style={buttonStyle}>
+          Clear
+        </button>
+      )}
+      <label title="Adds a WebVTT subtitle track where the container supports one">
+        <input
+          type="checkbox"
+          checked={current.subtitle_track !== false}
+          onChange={(e) => update({ subtitle_track: e.target.checked ? undefined : false })}
+        />{' '}
+        Subtitle track
+      </label>
+      <label title="Draws the captions into the video frames">
+        <input
+          type="checkbox"
+          checked={current.burn_in ?? false}
+          onChange={(e) => update({ burn_in: e.target.checked || undefined })}
+        />{' '}
+        Burn in
+      </label>
+      {current.burn_in && (
+        <>
+          <label>
+            Position{' '}
+            <select
+              value={style.position ?? 'bottom'}
+              onChange={(e) => updateStyle({ position: e.target.value as CaptionPosition })}
+              style={inputStyle}
+            >
+              {POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+            </select>
+          </label>
+          <label title="Percent of the output height">
+            Size{' '}
+            <input
+              type="number"
+              min={1}
+              max={20}
+              step={0.5}
+              value={style.font_size ?? 5}
+              onChange={(e) => updateStyle({ font_size: e.target.value ? Number(e.target.value) : undefined })}
+              style={{ ...inputStyle, width: '45px' }}
+            />%
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={style.background_color !== null}
+              onChange={(e) => updateStyle({ background_color: e.target.checked ? undefined : null })}
+            />{' '}
+            Box
+          </label>
+        </>
+      )}
+      <span style={{ color: '#888' }}>Applied on Execute</span>
+    </div>
+  );
+}
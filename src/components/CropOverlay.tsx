@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef } from 'react';
+import { clampCrop } from '../lib/crop';
+import type { CropRect } from '../types';
+
+interface CropOverlayProps {
+  sourceWidth: number;
+  sourceHeight: number;
+  rect: CropRect;               // Rectangle to show, in source pixels
+  aspectRatio: number | null;   // Width / height to keep while resizing
+  onCommit: (rect: CropRect) => void;
+}
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startRect: CropRect;
+}
+
+// Draggable crop rectangle laid over a <video>. The video is assumed to fill the overlay's
+// parent with object-fit: contain, so the overlay maps between screen and source pixels itself.
+export function CropOverlay({ sourceWidth, sourceHeight, rect, aspectRatio, onCommit }: CropOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<CropRect | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Source pixels -> screen pixels
+  const scale = Math.min(box.width / sourceWidth, box.height / sourceHeight) || 0;
+  const offsetX = (box.width - sourceWidth * scale) / 2;
+  const offsetY = (box.height - sourceHeight * scale) / 2;
+
+  const shown = draft ?? rect;
+
+  const startDrag = (mode: DragMode) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { mode, startX: event.clientX, startY: event.clientY, startRect: rect };
+    setDraft(rect);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || scale === 0) return;
+
+    const dx = (event.clientX - drag.startX) / scale;
+    const dy = (event.clientY - drag.startY) / scale;
+    const { startRect } = drag;
+
+    if (drag.mode === 'move') {
+      setDraft(clampCrop({ ...startRect, x: startRect.x + dx, y: startRect.y + dy }, sourceWidth, sourceHeight));
+      return;
+    }
+
+    let width = Math.max(16, Math.min(startRect.width + dx, sourceWidth - startRect.x));
+    let height = Math.max(16, Math.min(startRect.height + dy, sourceHeight - startRect.y));
+    if (aspectRatio) {
+      // Follow the pointer along whichever axis it moved more, within the frame
+      if (width / height > aspectRatio) width = height * aspectRatio;
+      else height = width / aspectRatio;
+    }
+    setDraft(clampCrop({ ...startRect, width, height }, sourceWidth, sourceHeight));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draft) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div ref={containerRef} style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+      {scale > 0 && (
+        <div
+          onPointerDown={startDrag('move')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          style={{
+            position: 'absolute',
+            left: offsetX + shown.x * scale,
+            top: offsetY + shown.y * scale,
+            width: shown.width * scale,
+            height: shown.height * scale,
+            border: '2px solid #FFC107',
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+            boxSizing: 'border-box',
+            cursor: 'move',
+            pointerEvents: 'auto',
+          }}
+        >
+          <div
+            onPointerDown={startDrag('resize')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            style={{
+              position: 'absolute',
+              right: -6,
+              bottom: -6,
+              width: 12,
+              height: 12,
+              backgroundColor: '#FFC107',
+              cursor: 'nwse-resize',
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
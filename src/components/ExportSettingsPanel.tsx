@@ -0,0 +1,179 @@
+import { compact } from '../lib/compact';
+import {
+  AUDIO_CODEC_LABELS,
+  CHANNEL_LAYOUTS,
+  CONTAINERS,
+  CONTAINER_FORMATS,
+  FRAME_RATES,
+  QUALITY_PRESETS,
+  SAMPLE_RATES,
+  VIDEO_CODEC_LABELS,
+  formatFrameRate,
+  resolveExportSettings,
+} from '../lib/exportSettings';
+import type {
+  ChannelLayout,
+  ContainerFormat,
+  ExportAudioCodec,
+  ExportSettings,
+  ExportVideoCodec,
+  QualityPreset,
+} from '../types';
+import { barPanelStyle, inputStyle } from './panelStyles';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings | undefined;
+  sourceFrameRate: number | null; // What Auto resolves to; null while unknown
+  onChange: (settings: ExportSettings | undefined) => void;
+}
+
+// Edits the project's `export` settings. Codecs are preferences; the render reports what it used.
+export function ExportSettingsPanel({ settings, sourceFrameRate, onChange }: ExportSettingsPanelProps) {
+  const current = settings ?? {};
+  const resolved = resolveExportSettings(settings);
+  const info = CONTAINERS[resolved.container];
+
+  const update = (patch: Partial<ExportSettings>) => onChange(compact({ ...current, ...patch }));
+
+  const handleContainerChange = (container: ContainerFormat) => {
+    const next = CONTAINERS[container];
+    // Keep codec choices only where the new container can hold them
+    update({
+      container,
+      video_codec: current.video_codec && next.videoCodecs.includes(current.video_codec) ? current.video_codec : undefined,
+      audio_codec: current.audio_codec && next.audioCodecs.includes(current.audio_codec) ? current.audio_codec : undefined,
+    });
+  };
+
+  return (
+    <div style={barPanelStyle}>
+      <strong style={{ color: '#fff' }}>Export</strong>
+      <label>
+        Container{' '}
+        <select value={resolved.container} onChange={(e) => handleContainerChange(e.target.value as ContainerFormat)} style={inputStyle}>
+          {CONTAINER_FORMATS.map(format => (
+            <option key={format} value={format}>{CONTAINERS[format].label}</option>
+          ))}
+        </select>
+      </label>
+      {!info.audioOnly && (
+        <label>
+          Video{' '}
+          <select
+            value={current.video_codec ?? ''}
+            onChange={(e) => update({ video_codec: (e.target.value || undefined) as ExportVideoCodec | undefined })}
+            style={inputStyle}
+          >
+            <option value="">Auto ({VIDEO_CODEC_LABELS[info.videoCodecs[0]]})</option>
+            {info.videoCodecs.map(codec => (
+              <option key={codec} value={codec}>{VIDEO_CODEC_LABELS[codec]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {!info.audioOnly && (
+        <label title="Sources at other rates have frames dropped or repeated. Auto follows the rate most of the footage is shot at.">
+          Frame rate{' '}
+          <select
+            value={current.frame_rate ?? ''}
+            onChange={(e) => update({ frame_rate: e.target.value ? Number(e.target.value) : undefined })}
+            style={inputStyle}
+          >
+            <option value="">Auto{sourceFrameRate ? ` (${formatFrameRate(sourceFrameRate)})` : ''}</option>
+            {/* Keep a rate typed into the JSON selectable */}
+            {[...new Set([...FRAME_RATES, ...(current.frame_rate ? [current.frame_rate] : [])])].map(rate => (
+              <option key={rate} value={rate}>{formatFrameRate(rate)}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {!info.audioOnly && (
+        <label title="Mix neighbouring frames instead of dropping or repeating them when the rates differ">
+          <input
+            type="checkbox"
+            checked={resolved.frameBlending}
+            onChange={(e) => update({ frame_blending: e.target.checked || undefined })}
+          />{' '}
+          Blend frames
+        </label>
+      )}
+      <label>
+        Audio{' '}
+        <select
+          value={current.audio_codec ?? ''}
+          onChange={(e) => update({ audio_codec: (e.target.value || undefined) as ExportAudioCodec | undefined })}
+          style={inputStyle}
+        >
+          <option value="">Auto ({AUDIO_CODEC_LABELS[info.audioCodecs[0]]})</option>
+          {info.audioCodecs.map(codec => (
+            <option key={codec} value={codec}>{AUDIO_CODEC_LABELS[codec]}</option>
+          ))}
+        </select>
+      </label>
+      <label title="Every source is resampled to this rate. Auto follows the first unmuted segment.">
+        Rate{' '}
+        <select
+          value={current.sample_rate ?? ''}
+          onChange={(e) => update({ sample_rate: e.target.value ? Number(e.target.value) : undefined })}
+          style={inputStyle}
+        >
+          <option value="">Auto</option>
+          {/* Keep a rate typed into the JSON selectable */}
+          {[...new Set([...SAMPLE_RATES, ...(current.sample_rate ? [current.sample_rate] : [])])].map(rate => (
+            <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 2 : 0)} kHz</option>
+          ))}
+        </select>
+      </label>
+      <label title="Every source is mixed to this layout. Auto follows the first unmuted segment.">
+        Channels{' '}
+        <select
+          value={current.channel_layout ?? ''}
+          onChange={(e) => update({ channel_layout: (e.target.value || undefined) as ChannelLayout | undefined })}
+          style={inputStyle}
+        >
+          <option value="">Auto</option>
+          {(Object.keys(CHANNEL_LAYOUTS) as ChannelLayout[]).map(layout => (
+            <option key={layout} value={layout}>{CHANNEL_LAYOUTS[layout].label}</option>
+          ))}
+        </select>
+      </label>
+      <label title="Used for any bitrate not set explicitly in the JSON">
+        Quality{' '}
+        <select
+          value={current.quality ?? ''}
+          onChange={(e) => update({ quality: (e.target.value || undefined) as QualityPreset | undefined })}
+          style={inputStyle}
+        >
+          <option value="">Default</option>
+          {QUALITY_PRESETS.map(preset => (
+            <option key={preset} value={preset}>{preset.replace('_', ' ')}</option>
+          ))}
+        </select>
+      </label>
+      {!info.audioOnly && (
+        <label>
+          Keyframe every{' '}
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={resolved.keyFrameIntervalSec}
+            onChange={(e) => update({ keyframe_interval_sec: e.target.value ? Number(e.target.value) : undefined })}
+            style={{ ...inputStyle, width: '50px' }}
+          />s
+        </label>
+      )}
+      {!info.audioOnly && (
+        <label title="Copy encoded video instead of re-encoding when the sources allow it. Cuts snap to key frames.">
+          <input
+            type="checkbox"
+            checked={resolved.passthrough}
+            onChange={(e) => update({ passthrough: e.target.checked || undefined })}
+          />{' '}
+          Fast copy
+        </label>
+      )}
+      <span style={{ color: '#888' }}>Applied on Execute</span>
+    </div>
+  );
+}
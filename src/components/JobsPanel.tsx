@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from 'react';
+import { MAX_CONCURRENCY, renderScheduler, type JobInfo, type JobState } from '../lib/worker';
+import { buttonStyle, cellStyle, detailsPanelStyle } from './panelStyles';
+
+const STATE_COLORS: Record<JobState, string> = {
+  queued: '#888',
+  running: '#2196F3',
+  retrying: '#ffb74d',
+  done: '#4CAF50',
+  failed: '#ff5252',
+  cancelled: '#888',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// How long a job waited for its first attempt and how long it has run since
+const timings = (job: JobInfo) => {
+  if (job.startedAt === null) return { waited: null, ran: null };
+  return {
+    waited: formatSeconds(job.startedAt - job.queuedAt),
+    ran: job.finishedAt !== null ? formatSeconds(job.finishedAt - job.startedAt) : null,
+  };
+};
+
+const describeState = (job: JobInfo) => {
+  if (job.state === 'running') return `running ${Math.round(job.progress * 100)}%`;
+  if (job.state === 'retrying') return `retrying (attempt ${job.attempt + 1}/${job.maxAttempts})`;
+  return job.state;
+};
+
+// Every render job on the page: trims, filmstrips and exports, with the concurrency limit
+export function JobsPanel() {
+  const { jobs, concurrency, limitedTo } = useSyncExternalStore(renderScheduler.subscribe, renderScheduler.getSnapshot);
+
+  const count = (state: JobState) => jobs.filter(job => job.state === state).length;
+  const finished = count('done') + count('failed') + count('cancelled');
+
+  return (
+    <details style={detailsPanelStyle}>
+      <summary style={{ cursor: 'pointer' }}>
+        <strong style={{ color: '#fff' }}>Jobs</strong>{' '}
+        {count('running')} running | {count('queued') + count('retrying')} waiting | {count('failed')} failed | {count('done')} done
+      </summary>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', margin: '8px 0' }}>
+        <label>
+          Run at once{' '}
+          <select
+            value={concurrency}
+            onChange={(e) => renderScheduler.setConcurrency(Number(e.target.value))}
+            style={buttonStyle}
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {limitedTo !== null && limitedTo < concurrency && (
+          <span style={{ color: '#ffb74d' }}>Limited to {limitedTo} after a job ran out of decoders</span>
+        )}
+        <button onClick={() => renderScheduler.clearFinished()} disabled={finished === 0} style={buttonStyle}>
+          Clear finished
+        </button>
+      </div>
+      {jobs.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#888' }}>
+              <th style={cellStyle}>Job</th>
+              <th style={cellStyle}>Priority</th>
+              <th style={cellStyle}>State</th>
+              <th style={cellStyle}>Waited</th>
+              <th style={cellStyle}>Ran</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => {
+              const { waited, ran } = timings(job);
+              return (
+                <tr key={job.id} title={job.error ?? undefined}>
+                  <td style={cellStyle}>{job.label}</td>
+                  <td style={cellStyle}>{job.priority}</td>
+                  <td style={{ ...cellStyle, color: STATE_COLORS[job.state] }}>
+                    {describeState(job)}
+                    {job.error && job.state !== 'done' && <> – {job.error}</>}
+                  </td>
+                  <td style={cellStyle}>{waited ?? '–'}</td>
+                  <td style={cellStyle}>{ran ?? '–'}</td>
+                  <td style={cellStyle}>
+                    {(job.state === 'queued' || job.state === 'running' || job.state === 'retrying') && (
+                      <button onClick={() => renderScheduler.cancel(job.id)} style={buttonStyle}>Cancel</button>
+                    )}
+                    {(job.state === 'failed' || job.state === 'cancelled') && (
+                      <button onClick={() => renderScheduler.requeue(job.id)} style={buttonStyle}>Requeue</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { formatBytes } from '../lib/format';
+import {
+  isLocalSource,
+  localFileRef,
+  localFiles,
+  matchesLocalFile,
+  newLocalAssetId,
+  sourceFileFromProbe,
+} from '../lib/localFiles';
+import type { SourceProbe } from '../lib/probe';
+import { probeInWorker } from '../lib/worker';
+import type { SourceFile, VideoCutdownResult } from '../types';
+import { buttonStyle, cellStyle, detailsPanelStyle } from './panelStyles';
+
+type LocalFilesEdit = (cutdown: VideoCutdownResult) => string | void;
+
+interface LocalFilesPanelProps {
+  // As currently edited; undefined while the sources have errors
+  sourceFiles: SourceFile[] | undefined;
+  onEdit: (action: string, edit: LocalFilesEdit) => void;
+}
+
+interface AddedFile {
+  assetId: string;
+  file: File;
+  probe: SourceProbe;
+}
+
+const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+// Adds the probed files as new sources, numbered after the existing ones
+const addLocalSources = (added: AddedFile[]): LocalFilesEdit => (draft) => {
+  if (!Array.isArray(draft.source_files)) return 'there are no source_files';
+  let nextId = draft.source_files.reduce((max, source) => Math.max(max, source.source_id), 0) + 1;
+  for (const { assetId, file, probe } of added) {
+    draft.source_files.push(sourceFileFromProbe(nextId++, assetId, file, probe));
+  }
+};
+
+// Video files from disk, used as sources without uploading them. Files can be dropped anywhere
+// on the page or picked here. A file matching a local source's fingerprint is bound to it; any
+// other is probed and added as a new source. Bindings last until the page is reloaded.
+export function LocalFilesPanel({ sourceFiles, onEdit }: LocalFilesPanelProps) {
+  const bindings = useSyncExternalStore(localFiles.subscribe, localFiles.getSnapshot);
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [dragging, setDragging] = useState(false);
+
+  // Probing finishes after later renders, so edits go through the props of the latest one
+  const latest = useRef({ sourceFiles, onEdit });
+  useEffect(() => {
+    latest.current = { sourceFiles, onEdit };
+  });
+
+  const addFiles = async (files: File[]) => {
+    const known = latest.current.sourceFiles;
+    if (!known) {
+      setErrors(['Fix the errors in the sources before adding files']);
+      return;
+    }
+
+    setBusy(true);
+    setErrors([]);
+    const failures: string[] = [];
+    const added: AddedFile[] = [];
+    await Promise.all(files.map(async (file) => {
+      const match = known.find(source => source.local_file && matchesLocalFile(source.local_file, file));
+      if (match) {
+        localFiles.bind(match.asset_id, file);
+        return;
+      }
+      try {
+        const probe = await probeInWorker(file, `Probe ${file.name}`);
+        if (probe.width === null) {
+          failures.push(`${file.name} has no video track`);
+          return;
+        }
+        const assetId = newLocalAssetId();
+        localFiles.bind(assetId, file);
+        added.push({ assetId, file, probe });
+      } catch (err: unknown) {
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }));
+
+    if (added.length > 0) {
+      latest.current.onEdit(`add ${added.length === 1 ? added[0].file.name : `${added.length} files`}`, addLocalSources(added));
+    }
+    setErrors(failures);
+    setBusy(false);
+  };
+
+  // Binds a file to a source that lost its own, taking up the new file's fingerprint if it differs
+  const locate = (source: SourceFile, file: File) => {
+    localFiles.bind(source.asset_id, file);
+    if (source.local_file && matchesLocalFile(source.local_file, file)) return;
+    onEdit(`locate ${file.name}`, (draft) => {
+      const target = draft.source_files?.find(s => s.asset_id === source.asset_id);
+      if (!target) return `source ${source.source_id} is no longer in the JSON`;
+      target.local_file = localFileRef(file);
+    });
+  };
+
+  const addFilesRef = useRef(addFiles);
+  useEffect(() => {
+    addFilesRef.current = addFiles;
+  });
+
+  // The whole page takes drops; the editor would otherwise open the file as text
+  useEffect(() => {
+    let depth = 0;
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setDragging(false);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      const files = [...(e.dataTransfer?.files ?? [])];
+      if (files.length > 0) void addFilesRef.current(files);
+    };
+
+    window.addEventListener('dragenter', onDragEnter, true);
+    window.addEventListener('dragleave', onDragLeave, true);
+    window.addEventListener('dragover', onDragOver, true);
+    window.addEventListener('drop', onDrop, true);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter, true);
+      window.removeEventListener('dragleave', onDragLeave, true);
+      window.removeEventListener('dragover', onDragOver, true);
+      window.removeEventListener('drop', onDrop, true);
+    };
+  }, []);
+
+  const localSources = sourceFiles?.filter(isLocalSource) ?? [];
+  const unbound = localSources.filter(source => !bindings.has(source.asset_id)).length;
+
+  return (
+    <div style={{ ...detailsPanelStyle, outline: dragging ? '2px dashed #2196F3' : 'none' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+        <strong style={{ color: '#fff' }}>Local files</strong>
+        <span style={{ color: '#888' }}>
+          {dragging ? 'Drop to add or rebind' : 'Drop video files anywhere on the page to use them as sources. They never leave this browser.'}
+        </span>
+        <label style={{ ...buttonStyle, marginLeft: 'auto' }}>
+          <input
+            type="file"
+            accept="video/*"
+            multiple
+            disabled={busy}
+            onChange={(e) => {
+              const files = [...(e.target.files ?? [])];
+              e.target.value = '';
+              if (files.length > 0) void addFiles(files);
+            }}
+            style={{ display: 'none' }}
+          />
+          <span style={{ textDecoration: 'underline' }}>{busy ? 'Probing...' : 'Pick files...'}</span>
+        </label>
+      </div>
+      {unbound > 0 && (
+        <p style={{ color: '#ffb74d', margin: '5px 0' }}>
+          {unbound} local source{unbound === 1 ? ' isn\'t' : 's aren\'t'} loaded. Drop the same files again, or locate them.
+        </p>
+      )}
+      {errors.map(message => <p key={message} style={{ color: '#ff5252', margin: '5px 0' }}>{message}</p>)}
+      {localSources.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '5px' }}>
+          <thead>
+            <tr style={{ color: '#888' }}>
+              <th style={cellStyle}>Source</th>
+              <th style={cellStyle}>File</th>
+              <th style={cellStyle}>Size</th>
+              <th style={cellStyle}>Status</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {localSources.map(source => {
+              const bound = bindings.get(source.asset_id);
+              return (
+                <tr key={source.asset_id} title={source.asset_id}>
+                  <td style={cellStyle}>{source.source_id}</td>
+                  <td style={cellStyle}>{source.local_file?.name ?? '–'}</td>
+                  <td style={cellStyle}>{source.local_file ? formatBytes(source.local_file.size) : '–'}</td>
+                  <td style={{ ...cellStyle, color: bound ? '#4CAF50' : '#ffb74d' }}>
+                    {bound ? 'loaded' : 'not loaded'}
+                  </td>
+                  <td style={cellStyle}>
+                    <label style={buttonStyle}>
+                      <input
+                        type="file"
+                        accept="video/*"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) locate(source, file);
+                        }}
+                        style={{ display: 'none' }}
+                      />
+                      <span style={{ textDecoration: 'underline' }}>Locate...</span>
+                    </label>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
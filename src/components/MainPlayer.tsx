@@ -1,386 +1,262 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { JOB_PRIORITY, renderScheduler, type JobState } from '../lib/worker';
+import { computeCutdownTimeline } from '../lib/timeline';
+import { resolveOutputSpec } from '../lib/outputSpec';
+import { describeEncoding, exportFileName, type EncodingSummary } from '../lib/exportSettings';
+import { captionFileName, formatCaptionFile, type CaptionFileFormat, type TimedCaption } from '../lib/captions';
+import { formatChaptersVtt, type Chapter } from '../lib/chapters';
+import { describeLocalSource, localFiles } from '../lib/localFiles';
 import {
-  Input,
-  Output,
-  UrlSource,
-  BufferTarget,
-  Mp4OutputFormat,
-  VideoSampleSink,
-  AudioSampleSink,
-  VideoSampleSource,
-  AudioSampleSource,
-  ALL_FORMATS,
-  AudioSample,
-  VideoSample,
-} from 'mediabunny';
-import type { Segment, SourceFile } from '../types';
+  RENDER_DESTINATION_LABELS,
+  availableDestinations,
+  estimateRemainingMs,
+  formatRemaining,
+  openRenderFile,
+  removeRenderFile,
+  type RenderDestination,
+} from '../lib/renderFiles';
+import { downloadFile } from '../lib/download';
+import { formatBytes } from '../lib/format';
+import { cutdownIdentifiers } from '../lib/stitcher/metadata';
+import type {
+  CutdownIdentifier,
+  MediaMetadata,
+  QaReport,
+  QaStatus,
+  SegmentRenderReport,
+  SegmentSyncReport,
+} from '../lib/stitcher/types';
+import type { VideoCutdownResult } from '../types';
+import { buttonStyle, cellStyle } from './panelStyles';
 
 interface MainPlayerProps {
-  segments: Segment[];
-  sourceFiles: SourceFile[];
+  cutdown: VideoCutdownResult;
 }
 
-// Helper to resample audio
-const resampleAudio = (sample: AudioSample, targetRate: number): AudioSample => {
-  if (sample.sampleRate === targetRate) return sample;
+const syncCellStyle = { ...cellStyle, textAlign: 'right' as const };
 
-  const numberOfChannels = sample.numberOfChannels;
-  const frameCount = sample.numberOfFrames;
-  
-  // Create buffer to hold the data from the sample
-  // We enforce 'f32' (interleaved 32-bit float) for simplicity in resampling
-  const oldDataBuffer = new Float32Array(frameCount * numberOfChannels);
-  
-  sample.copyTo(oldDataBuffer, {
-      planeIndex: 0,
-      format: 'f32', 
-  });
+// Drift beyond about one frame is visible as lip-sync error
+const DRIFT_WARNING_SEC = 0.04;
 
-  const ratio = sample.sampleRate / targetRate;
-  const newFrameCount = Math.floor(frameCount / ratio);
-  const newData = new Float32Array(newFrameCount * numberOfChannels);
+const formatDrift = (driftSec: number | null) =>
+  driftSec === null ? '–' : `${driftSec >= 0 ? '+' : ''}${Math.round(driftSec * 1000)}ms`;
 
-  for (let i = 0; i < newFrameCount; i++) {
-    const center = i * ratio;
-    const index1 = Math.floor(center);
-    const index2 = Math.min(index1 + 1, frameCount - 1);
-    const weight = center - index1;
-    
-    for (let ch = 0; ch < numberOfChannels; ch++) {
-       const val1 = oldDataBuffer[index1 * numberOfChannels + ch];
-       const val2 = oldDataBuffer[index2 * numberOfChannels + ch];
-       newData[i * numberOfChannels + ch] = val1 * (1 - weight) + val2 * weight;
-    }
-  }
+const driftColor = (driftSec: number | null) =>
+  driftSec !== null && Math.abs(driftSec) > DRIFT_WARNING_SEC ? '#ffb74d' : undefined;
 
-  return new AudioSample({
-    data: newData,
-    format: 'f32',
-    numberOfChannels: numberOfChannels,
-    sampleRate: targetRate,
-    timestamp: sample.timestamp,
-  });
+const QA_COLORS: Record<QaStatus, string> = {
+  pass: '#4CAF50',
+  warn: '#ffb74d',
+  fail: '#ff5252',
 };
 
-// Helper to generate silence
-const generateSilence = async (
-  audioSource: AudioSampleSource,
-  duration: number,
-  startTime: number,
-  sampleRate: number = 48000,
-  numberOfChannels: number = 2
-) => {
-  const format = 'f32'; // Interleaved float
-  // Process in chunks of 100ms to avoid memory spikes
-  const chunkDuration = 0.1;
-  let currentTime = startTime;
-  const endTime = startTime + duration;
+const qaCellStyle = { ...cellStyle, verticalAlign: 'top' as const };
 
-  while (currentTime < endTime) {
-    const nextTime = Math.min(currentTime + chunkDuration, endTime);
-    const currentChunkDuration = nextTime - currentTime;
-    const frameCount = Math.floor(currentChunkDuration * sampleRate);
-    
-    if (frameCount === 0) break;
+// Saves the QA report next to the file, named after it
+const downloadQaReport = (cutdown: VideoCutdownResult, report: QaReport) =>
+  downloadFile(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `${exportFileName(cutdown)}.qa.json`);
 
-    const data = new Float32Array(frameCount * numberOfChannels); // Zeros
+const DESTINATION_KEY = 'renderDestination';
 
-    const sample = new AudioSample({
-      data,
-      format,
-      numberOfChannels,
-      sampleRate,
-      timestamp: currentTime,
-      // numberOfFrames is inferred from data length / channels
-    });
+// The last destination chosen, if this browser still offers it; otherwise the first it offers
+const initialDestination = (): RenderDestination => {
+  const available = availableDestinations();
+  const saved = localStorage.getItem(DESTINATION_KEY) as RenderDestination | null;
+  return saved && available.includes(saved) ? saved : available[0];
+};
 
-    await audioSource.add(sample);
-    sample.close();
-    
-    currentTime = nextTime;
-  }
+const formatChapterStart = (sec: number) =>
+  `${Math.floor(sec / 60)}:${String(Math.floor(sec % 60)).padStart(2, '0')}`;
+
+// Saves a caption file built from the captions the render placed on the output timeline
+const downloadCaptions = (cutdown: VideoCutdownResult, captions: TimedCaption[], format: CaptionFileFormat) => {
+  const blob = new Blob([formatCaptionFile(captions, format)], { type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip' });
+  downloadFile(blob, captionFileName(cutdown, format));
 };
 
-export function MainPlayer({ segments, sourceFiles }: MainPlayerProps) {
+export function MainPlayer({ cutdown }: MainPlayerProps) {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [storedFile, setStoredFile] = useState<FileSystemFileHandle | null>(null); // In browser storage
   const [progress, setProgress] = useState<number>(0);
-  const [status, setStatus] = useState<string>('Waiting to start...');
+  const [status, setStatus] = useState<string>('Not exported yet');
   const [error, setError] = useState<string | null>(null);
-  const processingRef = useRef<boolean>(false);
-
-  useEffect(() => {
-    if (processingRef.current) return;
-    processingRef.current = true;
-
-    const stitchVideos = async () => {
-      try {
-        setError(null);
-        setStatus('Initializing Stitcher...');
-        
-        // 1. Setup Output
-        const output = new Output({
-          format: new Mp4OutputFormat(),
-          target: new BufferTarget(),
-        });
-
-        // 2. Setup Sources (Encoders)
-        const videoSource = new VideoSampleSource({
-          codec: 'avc', // H.264
-          bitrate: 6_000_000,
-          keyFrameInterval: 2,
-        });
-
-        // Delay audio source creation until we know the sample rate
-        let audioSource: AudioSampleSource | null = null;
-        
-        // We need to add tracks before start.
-        // But we don't know the sample rate yet.
-        // However, we can assume 48000 or 44100.
-        // Better approach: Scan first segment to get sample rate.
-        
-        let sampleRate = 48000; // Default
-        let numberOfChannels = 2;
-
-        // Determine target video dimensions (smallest of all sources)
-        // This ensures we can crop larger videos to fit without upscaling/letterboxing issues
-        let targetWidth = Infinity;
-        let targetHeight = Infinity;
-        
-        // Check all segments to find minimum dimensions
-        segments.forEach(seg => {
-            const sf = sourceFiles.find(s => s.source_id === seg.source_id);
-            if (sf) {
-                targetWidth = Math.min(targetWidth, sf.dimension.width);
-                targetHeight = Math.min(targetHeight, sf.dimension.height);
-            }
-        });
-        
-        // Fallback if no dimensions found (unlikely)
-        if (targetWidth === Infinity) targetWidth = 1920;
-        if (targetHeight === Infinity) targetHeight = 1080;
-
-        console.log(`Target Video Dimensions: ${targetWidth}x${targetHeight}`);
-        
-        // Cache inputs to avoid re-opening files
-        const inputCache = new Map<number, Input>();
-        const getInput = (sourceId: number, url: string) => {
-            if (!inputCache.has(sourceId)) {
-                inputCache.set(sourceId, new Input({ source: new UrlSource(url), formats: ALL_FORMATS }));
-            }
-            return inputCache.get(sourceId)!;
-        };
-
-        // Probe first unmuted segment for audio info
-        for (const segment of segments) {
-          if (!segment.muted) {
-            const sourceFile = sourceFiles.find(s => s.source_id === segment.source_id);
-            if (sourceFile) {
-              const probeInput = getInput(sourceFile.source_id, sourceFile.url);
-              const track = await probeInput.getPrimaryAudioTrack();
-              if (track) {
-                // Cap sample rate at 48kHz for browser compatibility
-                // Many browsers don't support AAC encoding at 96kHz
-                sampleRate = track.sampleRate > 48000 ? 48000 : track.sampleRate;
-                numberOfChannels = track.numberOfChannels;
-                // Don't dispose probeInput as it is cached
-                break;
-              }
-            }
-          }
-        }
-
-        console.log(`Initializing Audio with SampleRate: ${sampleRate}, Channels: ${numberOfChannels}`);
-
-        const audioSourceInstance = new AudioSampleSource({
-          codec: 'aac',
-          bitrate: 128_000,
-        });
-        
-        audioSource = audioSourceInstance;
-        output.addVideoTrack(videoSource, { frameRate: 30 });
-        output.addAudioTrack(audioSource);
-
-        await output.start();
-
-        let currentVideoTimestamp = 0;
-        const totalDuration = segments.reduce((acc, s) => acc + s.duration_sec, 0);
-        let processedDuration = 0;
-
-        // 3. Process Each Segment
-        for (let i = 0; i < segments.length; i++) {
-          const segment = segments[i];
-          const sourceFile = sourceFiles.find(s => s.source_id === segment.source_id);
-          if (!sourceFile) throw new Error(`Source not found for segment ${segment.scene_id}`);
-
-          setStatus(`Processing Segment ${i + 1}/${segments.length}: ${segment.purpose}`);
-          
-          const startSec = segment.start_ms / 1000;
-          const endSec = segment.end_ms / 1000;
-          const duration = endSec - startSec;
-
-          const input = getInput(sourceFile.source_id, sourceFile.url);
-
-          // Debugging: Check if segment is within source duration
-          const sourceDuration = await input.computeDuration();
-          if (startSec > sourceDuration) {
-             console.error(`Segment ${i} (${segment.purpose}) start time (${startSec}s) is AFTER source file duration (${sourceDuration}s). Skipping this segment.`);
-             // Don't dispose cached input
-             continue;
-          } else if (endSec > sourceDuration) {
-             console.warn(`Segment ${i} (${segment.purpose}) end time (${endSec}s) exceeds source file duration (${sourceDuration}s). Content will be truncated.`);
-          }
-
-          // 3a. Process Video
-          const videoTrack = await input.getPrimaryVideoTrack();
-          if (videoTrack && await videoTrack.canDecode()) {
-            const videoSink = new VideoSampleSink(videoTrack);
-            const videoSamples = videoSink.samples(startSec, endSec);
-            
-            let firstSampleTimestamp = -1;
-
-            for await (const sample of videoSamples) {
-              if (sample.timestamp >= endSec) {
-                sample.close();
-                continue;
-              }
-              if (sample.timestamp < startSec) {
-                 sample.close();
-                 continue;
-              }
-
-              if (firstSampleTimestamp === -1) firstSampleTimestamp = sample.timestamp;
-
-              const relativeTime = sample.timestamp - firstSampleTimestamp;
-              const newTimestamp = currentVideoTimestamp + relativeTime;
-              
-              // Handle dimension mismatch (crop to target size)
-              let sampleToAdd = sample;
-              
-              if (sample.codedWidth !== targetWidth || sample.codedHeight !== targetHeight) {
-                  // Calculate center crop
-                  const sx = Math.max(0, (sample.codedWidth - targetWidth) / 2);
-                  const sy = Math.max(0, (sample.codedHeight - targetHeight) / 2);
-                  
-                  // Use createImageBitmap for efficient cropping on GPU
-                  const originalFrame = sample.toVideoFrame();
-                  const bitmap = await createImageBitmap(originalFrame, sx, sy, targetWidth, targetHeight);
-                  
-                  // Create new VideoFrame from bitmap
-                  const croppedFrame = new VideoFrame(bitmap, { 
-                      timestamp: newTimestamp * 1000000, 
-                      duration: sample.duration * 1000000 
-                  });
-                  
-                  // Create new sample from cropped frame
-                  sampleToAdd = new VideoSample(croppedFrame);
-                  
-                  // Cleanup intermediates
-                  bitmap.close();
-                  originalFrame.close();
-              } else {
-                  // No cropping needed, just update timestamp
-                  sample.setTimestamp(newTimestamp);
-              }
-              
-              await videoSource.add(sampleToAdd);
-              
-              if (sampleToAdd !== sample) {
-                  sampleToAdd.close();
-              }
-              sample.close();
-            }
-          }
-
-          // 3b. Process Audio
-          if (segment.muted) {
-            // Generate silence matching the detected sample rate
-            await generateSilence(audioSource!, duration, currentVideoTimestamp, sampleRate, numberOfChannels);
-          } else {
-            const audioTrack = await input.getPrimaryAudioTrack();
-            if (audioTrack && await audioTrack.canDecode()) {
-              // Check for sample rate mismatch
-              if (audioTrack.sampleRate !== sampleRate) {
-                 console.log(`Resampling audio for segment ${i} from ${audioTrack.sampleRate} to ${sampleRate}.`);
-              }
-
-              const audioSink = new AudioSampleSink(audioTrack);
-              const audioSamples = audioSink.samples(startSec, endSec);
-              
-              let firstAudioTimestamp = -1;
-
-              for await (const sample of audioSamples) {
-                if (sample.timestamp >= endSec) {
-                    sample.close();
-                    continue;
-                }
-                
-                // Resample if necessary (e.g. 96k -> 48k)
-                let sampleToProcess = sample;
-                if (sample.sampleRate !== sampleRate) {
-                    sampleToProcess = resampleAudio(sample, sampleRate);
-                }
-
-                // Audio sink might yield samples starting slightly before `startSec`
-                // We should probably filter or clip, but for simplicity, we just offset.
-                // Ideally we should be more precise, but timestamp shifting usually works well enough.
-                
-                if (firstAudioTimestamp === -1) firstAudioTimestamp = sampleToProcess.timestamp;
-
-                const relativeTime = sampleToProcess.timestamp - firstAudioTimestamp;
-                const newTimestamp = currentVideoTimestamp + relativeTime;
-
-                sampleToProcess.setTimestamp(newTimestamp);
-                await audioSource!.add(sampleToProcess);
-                
-                if (sampleToProcess !== sample) {
-                    sampleToProcess.close();
-                }
-                sample.close();
-              }
-            }
-          }
+  const [encoding, setEncoding] = useState<EncodingSummary | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [segmentReports, setSegmentReports] = useState<SegmentRenderReport[]>([]);
+  const [syncReports, setSyncReports] = useState<SegmentSyncReport[]>([]);
+  const [captions, setCaptions] = useState<TimedCaption[] | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [metadata, setMetadata] = useState<MediaMetadata | null>(null);
+  const [destination, setDestination] = useState<RenderDestination>(initialDestination);
+  const [bytesWritten, setBytesWritten] = useState<number | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [savedAs, setSavedAs] = useState<string | null>(null); // Name of the file picked on disk
+  const [qaReport, setQaReport] = useState<QaReport | null>(null);
+  const [qaState, setQaState] = useState<JobState | null>(null);
+  const [qaError, setQaError] = useState<string | null>(null);
+  const startedAtRef = useRef(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Overlapping transitions make the output shorter than the sum of the segments
+  const outputDuration = useMemo(() => computeCutdownTimeline(cutdown.segments).durationSec, [cutdown]);
+  const outputSpec = useMemo(() => resolveOutputSpec(cutdown), [cutdown]);
+  const expectedIdentifiers = useMemo(() => cutdownIdentifiers(cutdown), [cutdown]);
+
+  // The chapters as a WebVTT track, so the player can list them too
+  const chaptersUrl = useMemo(() => chapters.length > 0
+    ? `data:text/vtt;charset=utf-8,${encodeURIComponent(formatChaptersVtt(chapters))}`
+    : null, [chapters]);
+
+  // Rendering is an explicit step: the preview covers editing, so a file is only made on request
+  const jobRef = useRef<number | null>(null);
+  const [jobState, setJobState] = useState<JobState | null>(null);
+  const exporting = jobState === 'queued' || jobState === 'running' || jobState === 'retrying';
+
+  const qaJobRef = useRef<number | null>(null);
+
+  // A remount or a new cutdown drops a pending export and its check
+  useEffect(() => () => {
+    if (jobRef.current !== null) renderScheduler.remove(jobRef.current);
+    if (qaJobRef.current !== null) renderScheduler.remove(qaJobRef.current);
+    jobRef.current = null;
+    qaJobRef.current = null;
+  }, [cutdown]);
+
+  // The last file is released when it is replaced or the player unmounts
+  useEffect(() => () => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+  }, [videoUrl]);
+
+  // Renders in browser storage go with them, as each export gets a file of its own
+  useEffect(() => () => {
+    if (storedFile) removeRenderFile(storedFile).catch((err: unknown) => console.warn('Could not delete the old render', err));
+  }, [storedFile]);
+
+  const resetReports = () => {
+    setError(null);
+    setProgress(0);
+    setEncoding(null);
+    setWarnings([]);
+    setSegmentReports([]);
+    setSyncReports([]);
+    setCaptions(null);
+    setChapters([]);
+    setMetadata(null);
+    setBytesWritten(null);
+    setRemainingMs(null);
+    setQaReport(null);
+    setQaState(null);
+    setQaError(null);
+  };
+
+  // Reopens the finished file in the worker and checks it against the cutdown
+  const verifyExport = (file: Blob, encodingUsed: EncodingSummary, segments: SegmentSyncReport[]) => {
+    qaJobRef.current = renderScheduler.schedule({ kind: 'verify', file, cutdown, encoding: encodingUsed, segments }, {
+      label: `Check ${exportFileName(cutdown)}`,
+      priority: JOB_PRIORITY.verify,
+      maxAttempts: 1,
+      onStateChange: setQaState,
+      onQaReport: setQaReport,
+      onDone: () => {},
+      onFailed: setQaError,
+    });
+  };
+
+  const changeDestination = (next: RenderDestination) => {
+    setDestination(next);
+    localStorage.setItem(DESTINATION_KEY, next);
+  };
+
+  const startExport = async () => {
+    // Local sources go to the worker as the files bound to them
+    const { files, missing } = localFiles.filesFor(cutdown.source_files);
+    if (missing.length > 0) {
+      setError(`Drop or locate the files first: ${missing.map(describeLocalSource).join(', ')}`);
+      return;
+    }
 
-          currentVideoTimestamp += duration;
-          processedDuration += duration;
-          setProgress(Math.min(0.99, processedDuration / totalDuration));
-          
-          // Do not dispose input here as it is cached
-        }
-        
-        // Clean up cached inputs
-        for (const input of inputCache.values()) {
-            input.dispose();
+    // Long renders stream to disk; picking the file comes first, while the click still counts
+    let file: FileSystemFileHandle | null;
+    try {
+      file = await openRenderFile(destination, exportFileName(cutdown));
+    } catch (err: unknown) {
+      setError(`Can't write the export there: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    if (destination === 'file' && !file) return;
+
+    // Starting again replaces the previous export
+    if (jobRef.current !== null) renderScheduler.remove(jobRef.current);
+    if (qaJobRef.current !== null) renderScheduler.remove(qaJobRef.current);
+    setVideoUrl(null);
+    setStoredFile(destination === 'opfs' ? file : null);
+    setSavedAs(destination === 'file' ? file?.name ?? null : null);
+    resetReports();
+    setJobState('queued');
+    setStatus('Waiting for other jobs...');
+
+    // The pipeline runs in a worker so the editor and page stay responsive. Exports jump the
+    // queue, and a failed one is tried once more before giving up.
+    // What the check afterwards compares the file with, as reported by the attempt that made it
+    let encodingUsed: EncodingSummary | null = null;
+    let rendered: SegmentSyncReport[] = [];
+
+    const job = { kind: 'stitch' as const, cutdown, localFiles: files, destination: file ?? undefined };
+    jobRef.current = renderScheduler.schedule(job, {
+      label: `Export ${exportFileName(cutdown)}`,
+      priority: JOB_PRIORITY.export,
+      maxAttempts: 2,
+      onStateChange: (state) => {
+        setJobState(state);
+        if (state === 'running') {
+          resetReports();
+          encodingUsed = null;
+          rendered = [];
+          startedAtRef.current = Date.now();
         }
-        inputCache.clear();
-
-        setStatus('Finalizing...');
-        await output.finalize();
-        
-        if (output.target.buffer) {
-          const blob = new Blob([output.target.buffer], { type: 'video/mp4' });
-          const url = URL.createObjectURL(blob);
-          setVideoUrl(url);
-          setStatus('Ready');
-          setProgress(1);
-        } else {
-          throw new Error('No output buffer created');
+        if (state === 'queued') setStatus('Waiting for other jobs...');
+        if (state === 'retrying') setStatus('Export failed, retrying...');
+        if (state === 'cancelled') {
+          setProgress(0);
+          setStatus('Export cancelled');
         }
-
-      } catch (err: unknown) {
-        console.error(err);
-        setError(err instanceof Error ? err.message : 'Unknown error');
+      },
+      onStatus: setStatus,
+      onProgress: (value) => {
+        setProgress(value);
+        setRemainingMs(estimateRemainingMs(value, Date.now() - startedAtRef.current));
+      },
+      onBytesWritten: setBytesWritten,
+      onWarning: (message) => setWarnings(prev => prev.includes(message) ? prev : [...prev, message]),
+      onEncoding: (summary) => {
+        encodingUsed = summary;
+        setEncoding(summary);
+      },
+      onSegmentRendered: (report) => setSegmentReports(prev => [...prev, report]),
+      onSegmentSync: (report) => {
+        rendered = [...rendered, report];
+        setSyncReports(rendered);
+      },
+      onCaptions: setCaptions,
+      onChapters: setChapters,
+      onMetadata: setMetadata,
+      onDone: (blob) => {
+        setVideoUrl(URL.createObjectURL(blob));
+        setRemainingMs(null);
+        setStatus('Ready');
+        if (encodingUsed) verifyExport(blob, encodingUsed, rendered);
+      },
+      onFailed: (message) => {
+        console.error(message);
+        setError(message);
         setStatus('Error');
-      } finally {
-        // processingRef.current = false; 
-      }
-    };
-
-    stitchVideos();
+      },
+    });
+  };
 
-    return () => {
-      if (videoUrl) URL.revokeObjectURL(videoUrl);
-    };
-  }, []); // Empty deps, run once on mount
+  const cancelExport = () => {
+    if (jobRef.current !== null) renderScheduler.cancel(jobRef.current);
+  };
 
   return (
     <div style={{ 
@@ -394,7 +270,34 @@ export function MainPlayer({ segments, sourceFiles }: MainPlayerProps) {
       color: '#fff',
       textAlign: 'center'
     }}>
-      <h2 style={{ marginTop: 0 }}>Main Video (Stitched)</h2>
+      <h2 style={{ marginTop: 0 }}>Export</h2>
+      <p style={{ fontSize: '0.8em', color: '#aaa', margin: '0 0 10px 0' }}>
+        {cutdown.segments.length} segments | Output duration: {outputDuration.toFixed(2)}s
+        {' '}| {outputSpec.width}x{outputSpec.height} ({outputSpec.fit})
+        {cutdown.music?.length ? <> | Music: {cutdown.music.length} track{cutdown.music.length > 1 ? 's' : ''}</> : null}
+        {encoding && <> | {describeEncoding(encoding)}</>}
+      </p>
+      <div style={{ marginBottom: '10px' }}>
+        {exporting ? (
+          <button onClick={cancelExport} style={{ cursor: 'pointer' }}>Cancel export</button>
+        ) : (
+          <button onClick={() => void startExport()} style={{ cursor: 'pointer' }}>
+            {videoUrl ? 'Export again' : `Export ${exportFileName(cutdown)}`}
+          </button>
+        )}{' '}
+        <label style={{ fontSize: '0.8em', color: '#aaa' }} title="Browser storage and files on disk are written as the render goes, so long exports don't fill memory">
+          to{' '}
+          <select value={destination} onChange={(e) => changeDestination(e.target.value as RenderDestination)} disabled={exporting}>
+            {availableDestinations().map(option => (
+              <option key={option} value={option}>{RENDER_DESTINATION_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {/* The encoding notes are sent as warnings too; each is shown once */}
+      {[...new Set([...encoding?.notes ?? [], ...warnings])].map(note => (
+        <p key={note} style={{ fontSize: '0.8em', color: '#ffb74d', margin: '0 0 10px 0' }}>{note}</p>
+      ))}
       
       <div style={{ 
         width: '100%', 
@@ -406,7 +309,9 @@ export function MainPlayer({ segments, sourceFiles }: MainPlayerProps) {
         marginBottom: '10px'
       }}>
         {videoUrl ? (
-          <video src={videoUrl} controls style={{ width: '100%', height: '100%' }} />
+          <video ref={videoRef} src={videoUrl} controls style={{ width: '100%', height: '100%' }}>
+            {chaptersUrl && <track kind="chapters" src={chaptersUrl} srcLang="en" label="Segments" default />}
+          </video>
         ) : (
           <div style={{ width: '80%' }}>
             <p style={{ marginBottom: '10px' }}>{status}</p>
@@ -424,10 +329,167 @@ export function MainPlayer({ segments, sourceFiles }: MainPlayerProps) {
                 transition: 'width 0.3s ease'
               }} />
             </div>
+            {(bytesWritten !== null || remainingMs !== null) && (
+              <p style={{ fontSize: '0.8em', color: '#aaa', marginTop: '5px' }}>
+                {bytesWritten !== null && <>{formatBytes(bytesWritten)} written</>}
+                {bytesWritten !== null && remainingMs !== null && ' · '}
+                {remainingMs !== null && <>about {formatRemaining(remainingMs)} left</>}
+              </p>
+            )}
             {error && <p style={{ color: '#ff5252', marginTop: '10px' }}>{error}</p>}
           </div>
         )}
       </div>
+      {videoUrl && savedAs && (
+        <span style={{ fontSize: '0.9em', color: '#aaa' }}>Saved as {savedAs} | </span>
+      )}
+      {videoUrl && (
+        <a href={videoUrl} download={exportFileName(cutdown)} style={{ color: '#2196F3', fontSize: '0.9em' }}>
+          Download {exportFileName(cutdown)}
+        </a>
+      )}
+      {videoUrl && captions && (
+        <span style={{ fontSize: '0.9em', color: '#aaa' }}>
+          {' '}| Captions ({captions.length}):{' '}
+          {(['vtt', 'srt'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => downloadCaptions(cutdown, captions, format)}
+              style={{ marginLeft: '5px', fontSize: '0.9em', cursor: 'pointer' }}
+            >
+              .{format}
+            </button>
+          ))}
+        </span>
+      )}
+      {videoUrl && chapters.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', marginTop: '10px', fontSize: '0.8em' }}>
+          {chapters.map((chapter, i) => (
+            <button
+              key={i}
+              onClick={() => {
+                if (videoRef.current) videoRef.current.currentTime = chapter.startSec;
+              }}
+              style={buttonStyle}
+            >
+              {formatChapterStart(chapter.startSec)} {chapter.title}
+            </button>
+          ))}
+        </div>
+      )}
+      {segmentReports.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '10px 0 0 0', fontSize: '0.8em', color: '#aaa', textAlign: 'left' }}>
+          {segmentReports.map(report => (
+            <li key={report.index}>
+              <span style={{ color: report.method === 'copied' ? '#4CAF50' : '#ccc' }}>
+                {report.method === 'copied' ? 'Copied' : 'Re-encoded'}
+              </span>
+              {' '}Segment {report.index + 1} ({cutdown.segments[report.index]?.purpose})
+              {report.note && <> – {report.note}</>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {syncReports.length > 0 && (
+        <details style={{ marginTop: '10px', fontSize: '0.8em', color: '#aaa', textAlign: 'left' }}>
+          <summary style={{ cursor: 'pointer' }}>A/V sync</summary>
+          <table style={{ width: '100%', marginTop: '5px', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#888' }}>
+                <th style={syncCellStyle}>Segment</th>
+                <th style={syncCellStyle}>Frames</th>
+                <th style={syncCellStyle}>Start drift</th>
+                <th style={syncCellStyle}>End drift</th>
+                <th style={syncCellStyle}>Audio padded</th>
+              </tr>
+            </thead>
+            <tbody>
+              {syncReports.map(report => (
+                <tr key={report.index}>
+                  <td style={syncCellStyle}>{report.index + 1}</td>
+                  <td style={syncCellStyle}>{report.videoFrames}</td>
+                  <td style={{ ...syncCellStyle, color: driftColor(report.startDriftSec) }}>{formatDrift(report.startDriftSec)}</td>
+                  <td style={{ ...syncCellStyle, color: driftColor(report.endDriftSec) }}>{formatDrift(report.endDriftSec)}</td>
+                  <td style={syncCellStyle}>{Math.round(report.paddedAudioSec * 1000)}ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+      {(qaReport || qaError || qaState === 'queued' || qaState === 'running') && (
+        <details style={{ marginTop: '10px', fontSize: '0.8em', color: '#aaa', textAlign: 'left' }}>
+          <summary style={{ cursor: 'pointer' }}>
+            QA{' '}
+            {qaReport ? (
+              <span style={{ color: QA_COLORS[qaReport.status] }}>
+                {qaReport.status} ({qaReport.segments.filter(s => s.status === 'pass').length}/{qaReport.segments.length} segments pass)
+              </span>
+            ) : qaError ? (
+              <span style={{ color: '#ff5252' }}>couldn't check the file: {qaError}</span>
+            ) : 'checking the file...'}
+          </summary>
+          {qaReport && (
+            <>
+              <button onClick={() => downloadQaReport(cutdown, qaReport)} style={{ ...buttonStyle, margin: '5px 0' }}>
+                Export report (.json)
+              </button>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  <tr style={{ borderTop: '1px solid #333' }}>
+                    <td style={qaCellStyle}>File</td>
+                    <td style={qaCellStyle}>
+                      {qaReport.checks.map(c => (
+                        <div key={c.name}><span style={{ color: QA_COLORS[c.status] }}>{c.status}</span> {c.name}: {c.detail}</div>
+                      ))}
+                    </td>
+                  </tr>
+                  {qaReport.segments.map(segmentReport => (
+                    <tr key={segmentReport.index} style={{ borderTop: '1px solid #333' }}>
+                      <td style={qaCellStyle}>
+                        <span style={{ color: QA_COLORS[segmentReport.status] }}>{segmentReport.status}</span>{' '}
+                        {segmentReport.index + 1}. {segmentReport.purpose}
+                      </td>
+                      <td style={qaCellStyle}>
+                        {segmentReport.checks.map(c => (
+                          <div key={c.name} style={{ color: c.status === 'pass' ? undefined : QA_COLORS[c.status] }}>
+                            {c.name}: {c.detail}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </details>
+      )}
+      {metadata && (
+        <details style={{ marginTop: '10px', fontSize: '0.8em', color: '#aaa', textAlign: 'left' }}>
+          <summary style={{ cursor: 'pointer' }}>
+            Embedded metadata ({metadata.chapters.length}/{chapters.length} chapters)
+          </summary>
+          <p style={{ margin: '5px 0' }}>Title: {metadata.title ?? '–'}</p>
+          {(Object.keys(expectedIdentifiers) as CutdownIdentifier[]).map(name => {
+            const found = metadata.identifiers[name];
+            const matches = found === expectedIdentifiers[name];
+            return (
+              <p key={name} style={{ margin: '5px 0' }}>
+                {name}: {found ?? '–'}{' '}
+                <span style={{ color: matches ? '#4CAF50' : '#ffb74d' }}>{matches ? '✓' : '✗'}</span>
+              </p>
+            );
+          })}
+          {metadata.chapters.length > 0 && (
+            <ol style={{ margin: '5px 0', paddingLeft: '20px' }}>
+              {metadata.chapters.map((chapter, i) => (
+                <li key={i}>{formatChapterStart(chapter.startSec)} {chapter.title}</li>
+              ))}
+            </ol>
+          )}
+        </details>
+      )}
     </div>
   );
 }
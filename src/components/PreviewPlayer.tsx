@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { localFiles } from '../lib/localFiles';
+import { computeCutdownTimeline } from '../lib/timeline';
+import type { PreviewPlayer as PreviewEngine } from '../lib/preview';
+import type { VideoCutdownResult } from '../types';
+import { buttonStyle, panelStyle } from './panelStyles';
+
+interface PreviewPlayerProps {
+  // As currently edited when it validates, otherwise the last executed cutdown
+  cutdown: VideoCutdownResult;
+}
+
+const formatClock = (sec: number) =>
+  `${Math.floor(sec / 60)}:${(sec % 60).toFixed(2).padStart(5, '0')}`;
+
+export function PreviewPlayer({ cutdown }: PreviewPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playerRef = useRef<PreviewEngine | null>(null);
+  const cutdownRef = useRef(cutdown);
+  const bindings = useSyncExternalStore(localFiles.subscribe, localFiles.getSnapshot);
+  const bindingsRef = useRef(bindings);
+  const [ready, setReady] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeline = useMemo(() => computeCutdownTimeline(cutdown.segments), [cutdown]);
+
+  // Later segments win where transitions overlap, as in the player
+  let segmentIndex = timeline.entries.length - 1;
+  while (segmentIndex >= 0 && time < timeline.entries[segmentIndex].startSec) segmentIndex--;
+  const segment = segmentIndex >= 0 ? cutdown.segments[segmentIndex] : undefined;
+
+  useEffect(() => {
+    // The engine pulls in mediabunny, so it loads with the first preview rather than the page
+    let disposed = false;
+    const load = async () => {
+      try {
+        const { PreviewPlayer: Engine } = await import('../lib/preview');
+        if (disposed || !canvasRef.current) return;
+        playerRef.current = new Engine(canvasRef.current, cutdownRef.current, {
+          getLocalFile: localFiles.getFile,
+          onTimeUpdate: setTime,
+          onPlayingChange: setPlaying,
+          onError: (message) => {
+            console.error(message);
+            setError(message);
+          },
+        });
+        setReady(true);
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    };
+    load();
+
+    return () => {
+      disposed = true;
+      playerRef.current?.dispose();
+      playerRef.current = null;
+    };
+  }, []);
+
+  // Edits apply live, keeping the playhead where it is
+  useEffect(() => {
+    if (cutdownRef.current === cutdown) return;
+    cutdownRef.current = cutdown;
+    playerRef.current?.update(cutdown);
+  }, [cutdown]);
+
+  // Local files dropped or located since the sources were opened
+  useEffect(() => {
+    if (bindingsRef.current === bindings) return;
+    bindingsRef.current = bindings;
+    playerRef.current?.reopenSources();
+  }, [bindings]);
+
+  const togglePlay = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    setError(null);
+    if (player.isPlaying) {
+      player.pause();
+    } else {
+      void player.play();
+    }
+  };
+
+  const seek = (sec: number) => {
+    void playerRef.current?.seek(sec);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    if (e.key === ' ') {
+      e.preventDefault();
+      togglePlay();
+    }
+  };
+
+  return (
+    <div style={panelStyle} tabIndex={0} onKeyDown={handleKeyDown}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+        <strong style={{ color: '#fff' }}>Preview</strong>
+        <span style={{ color: '#888' }}>
+          Plays the cutdown from its sources as you edit. Transitions show as cuts; captions and music are left out.
+        </span>
+      </div>
+      <canvas
+        ref={canvasRef}
+        onClick={togglePlay}
+        style={{ width: '100%', maxHeight: '360px', objectFit: 'contain', backgroundColor: '#000', display: 'block', cursor: 'pointer' }}
+      />
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
+        <button onClick={togglePlay} disabled={!ready} title="Play or pause (Space)" style={buttonStyle}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={timeline.durationSec}
+          step={0.01}
+          value={Math.min(time, timeline.durationSec)}
+          disabled={!ready}
+          onChange={(e) => seek(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+        <span style={{ fontFamily: 'monospace' }}>
+          {formatClock(time)} / {formatClock(timeline.durationSec)}
+        </span>
+      </div>
+      {segment && (
+        <p style={{ margin: '5px 0 0 0', color: '#888' }}>
+          Segment {segmentIndex + 1}: {segment.purpose}{segment.muted && ' (muted)'}
+        </p>
+      )}
+      {error && <p style={{ color: '#ff5252', margin: '5px 0 0 0' }}>{error}</p>}
+    </div>
+  );
+}
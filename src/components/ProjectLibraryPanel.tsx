@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { downloadFile } from '../lib/download';
+import { jsonPathKey } from '../lib/jsonLocator';
+import { diffJson, summarizeJsonValue, type JsonChange } from '../lib/jsonDiff';
+import { blankProject, formatProjectFile, parseProjectFile, projectFileName, projectName } from '../lib/projectFiles';
+import {
+  createProject,
+  deleteProject,
+  deleteVersion,
+  duplicateProject,
+  listVersions,
+  onProjectLibraryChange,
+  renameProject,
+  saveVersion,
+  type ProjectRecord,
+  type ProjectVersion,
+} from '../lib/projectLibrary';
+import type { SampleData } from '../types';
+import { buttonStyle, cellStyle, detailsPanelStyle } from './panelStyles';
+
+interface ProjectLibraryPanelProps {
+  projects: ProjectRecord[];
+  current: ProjectRecord | null;
+  json: string; // The editor's text, which may be ahead of the saved draft
+  error: string | null; // The library could not be opened
+  onOpen: (project: ProjectRecord) => void;
+  onRestore: (json: string) => void;
+}
+
+// Changes listed per diff before the rest are summarised
+const MAX_LISTED_CHANGES = 200;
+
+const CHANGE_COLORS: Record<JsonChange['kind'], string> = {
+  added: '#4CAF50',
+  removed: '#ff5252',
+  changed: '#ffb74d',
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+const downloadJson = (json: string, fileName: string) =>
+  downloadFile(new Blob([json], { type: 'application/json' }), fileName);
+
+// What changed from a version to the editor's text, or why they can't be compared
+const diffVersion = (version: ProjectVersion, json: string): JsonChange[] | string => {
+  try {
+    return diffJson(JSON.parse(version.json), JSON.parse(json));
+  } catch {
+    return 'The version or the editor holds invalid JSON, so they can\'t be compared';
+  }
+};
+
+// The project library: create, duplicate, rename and delete projects, import and export them as
+// JSON files, and browse the open project's versions with diff and restore. Drafts autosave.
+export function ProjectLibraryPanel({ projects, current, json, error, onOpen, onRestore }: ProjectLibraryPanelProps) {
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const currentId = current?.id;
+
+  const fail = (err: unknown) => {
+    console.error(err);
+    setFailure(err instanceof Error ? err.message : 'Unknown error');
+  };
+
+  useEffect(() => {
+    if (!currentId) return;
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const list = await listVersions(currentId);
+        if (!cancelled) setVersions(list);
+      } catch (err: unknown) {
+        fail(err);
+      }
+    };
+    refresh();
+    const unsubscribe = onProjectLibraryChange(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [currentId]);
+
+  const run = (action: () => Promise<void>) => {
+    setFailure(null);
+    setMessage(null);
+    action().catch(fail);
+  };
+
+  const handleNew = () => run(async () => {
+    const name = window.prompt('Name of the new project', 'Untitled');
+    if (!name) return;
+    onOpen(await createProject(name, JSON.stringify(blankProject(name), null, 2)));
+  });
+
+  const handleDuplicate = () => run(async () => {
+    if (!current) return;
+    onOpen(await duplicateProject(current.id));
+  });
+
+  const handleRename = () => run(async () => {
+    if (!current) return;
+    const name = window.prompt('Rename the project', current.name);
+    if (!name || name === current.name) return;
+    await renameProject(current.id, name);
+  });
+
+  const handleDelete = () => run(async () => {
+    if (!current || !window.confirm(`Delete "${current.name}" and all its versions?`)) return;
+    await deleteProject(current.id);
+    const next = projects.find(project => project.id !== current.id)
+      ?? await createProject('Untitled', JSON.stringify(blankProject('Untitled'), null, 2));
+    onOpen(next);
+  });
+
+  const handleSaveVersion = () => run(async () => {
+    if (!current) return;
+    const label = window.prompt('Label for this version', 'Saved');
+    if (label === null) return;
+    const version = await saveVersion(current.id, json, label || 'Saved');
+    setMessage(version ? `Saved version "${version.label}"` : 'Nothing changed since the latest version');
+  });
+
+  const handleImport = (files: File[]) => run(async () => {
+    const imported: ProjectRecord[] = [];
+    for (const file of files) {
+      const entries = parseProjectFile(await file.text());
+      for (const [i, data] of entries.entries()) {
+        const name = projectName(data, entries.length === 1 ? file.name.replace(/\.json$/i, '') : `${file.name} ${i + 1}`);
+        imported.push(await createProject(name, JSON.stringify(data, null, 2), `Imported from ${file.name}`));
+      }
+    }
+    if (imported.length === 0) return;
+    onOpen(imported[0]);
+    setMessage(`Imported ${imported.length} project${imported.length === 1 ? '' : 's'}`);
+  });
+
+  const handleExportCurrent = () => run(async () => {
+    if (!current) return;
+    const [data] = parseProjectFile(json);
+    downloadJson(formatProjectFile([data]), projectFileName(current.name));
+  });
+
+  // Drafts that aren't valid JSON can't go into the file; they are left out and named
+  const handleExportAll = () => run(async () => {
+    const exported: SampleData[] = [];
+    const skipped: string[] = [];
+    for (const project of projects) {
+      const text = project.id === current?.id ? json : project.json;
+      try {
+        exported.push(...parseProjectFile(text));
+      } catch {
+        skipped.push(project.name);
+      }
+    }
+    if (exported.length > 0) downloadJson(formatProjectFile(exported), 'projects.json');
+    if (skipped.length > 0) setMessage(`Left out, their drafts aren't valid: ${skipped.join(', ')}`);
+  });
+
+  if (error) {
+    return (
+      <div style={detailsPanelStyle}>
+        <strong style={{ color: '#fff' }}>Projects</strong>{' '}
+        <span style={{ color: '#ff5252' }}>The project library is unavailable ({error}). Edits won't be saved.</span>
+      </div>
+    );
+  }
+
+  const compared = versions.find(version => version.id === comparing);
+  const changes = compared ? diffVersion(compared, json) : null;
+
+  return (
+    <details style={detailsPanelStyle}>
+      <summary style={{ cursor: 'pointer' }}>
+        <strong style={{ color: '#fff' }}>Projects</strong>{' '}
+        {projects.length} in the library
+        {current && <> | {current.name} | {current.json === json ? 'draft saved' : 'saving draft...'}</>}
+      </summary>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '5px', margin: '8px 0' }}>
+        <button onClick={handleNew} style={buttonStyle}>New</button>
+        <button onClick={handleDuplicate} disabled={!current} style={buttonStyle}>Duplicate</button>
+        <button onClick={handleRename} disabled={!current} style={buttonStyle}>Rename</button>
+        <button onClick={handleDelete} disabled={!current} style={buttonStyle}>Delete</button>
+        <span style={{ borderLeft: '1px solid #444', alignSelf: 'stretch' }} />
+        <label style={buttonStyle}>
+          <input
+            type="file"
+            accept=".json,application/json"
+            multiple
+            onChange={(e) => {
+              const files = [...(e.target.files ?? [])];
+              e.target.value = '';
+              if (files.length > 0) handleImport(files);
+            }}
+            style={{ display: 'none' }}
+          />
+          <span style={{ textDecoration: 'underline' }}>Import...</span>
+        </label>
+        <button onClick={handleExportCurrent} disabled={!current} style={buttonStyle}>Export project</button>
+        <button onClick={handleExportAll} disabled={projects.length === 0} style={buttonStyle}>Export all</button>
+        <span style={{ borderLeft: '1px solid #444', alignSelf: 'stretch' }} />
+        <button onClick={handleSaveVersion} disabled={!current} style={buttonStyle}>Save version</button>
+      </div>
+      {message && <p style={{ color: '#888', margin: '5px 0' }}>{message}</p>}
+      {failure && <p style={{ color: '#ff5252', margin: '5px 0' }}>{failure}</p>}
+
+      {versions.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#888' }}>
+              <th style={cellStyle}>Version</th>
+              <th style={cellStyle}>Saved</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map(version => (
+              <tr key={version.id} style={{ backgroundColor: version.id === comparing ? '#333' : undefined }}>
+                <td style={cellStyle}>{version.label}</td>
+                <td style={cellStyle}>{formatTime(version.createdAt)}</td>
+                <td style={cellStyle}>
+                  <button onClick={() => setComparing(version.id === comparing ? null : version.id)} style={buttonStyle}>
+                    {version.id === comparing ? 'Hide diff' : 'Diff'}
+                  </button>{' '}
+                  <button onClick={() => onRestore(version.json)} disabled={version.json === json} style={buttonStyle}>
+                    Restore
+                  </button>{' '}
+                  <button onClick={() => run(() => deleteVersion(version.id))} style={buttonStyle}>Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {compared && changes !== null && (
+        <div style={{ marginTop: '8px' }}>
+          <p style={{ margin: '0 0 4px 0', color: '#888' }}>
+            From "{compared.label}" ({formatTime(compared.createdAt)}) to the editor:
+          </p>
+          {typeof changes === 'string' ? (
+            <p style={{ color: '#ff5252', margin: 0 }}>{changes}</p>
+          ) : changes.length === 0 ? (
+            <p style={{ margin: 0 }}>No differences</p>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: '20px', fontFamily: 'monospace', maxHeight: '240px', overflowY: 'auto' }}>
+              {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+                <li key={jsonPathKey(change.path)} style={{ color: CHANGE_COLORS[change.kind] }}>
+                  {change.path.join('.')}:{' '}
+                  {change.kind === 'added' && <>added {summarizeJsonValue(change.after)}</>}
+                  {change.kind === 'removed' && <>removed {summarizeJsonValue(change.before)}</>}
+                  {change.kind === 'changed' && <>{summarizeJsonValue(change.before)} → {summarizeJsonValue(change.after)}</>}
+                </li>
+              ))}
+              {changes.length > MAX_LISTED_CHANGES && <li>...and {changes.length - MAX_LISTED_CHANGES} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { describeEncoding } from '../lib/exportSettings';
+import { formatBytes } from '../lib/format';
+import {
+  clearRenderCache,
+  deleteCachedRender,
+  getCacheLimit,
+  listCachedRenders,
+  onRenderCacheChange,
+  setCacheLimit,
+  type RenderCacheEntry,
+} from '../lib/renderCache';
+import { formatTimecode } from '../lib/timecode';
+import { buttonStyle, cellStyle, detailsPanelStyle } from './panelStyles';
+
+const MB = 1024 * 1024;
+const LIMIT_OPTIONS = [128 * MB, 256 * MB, 512 * MB, 1024 * MB, 2048 * MB];
+
+const formatAge = (time: number) => {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+};
+
+// Lists the trimmed segments kept in the render cache, with the size limit and eviction controls
+export function RenderCachePanel() {
+  const [entries, setEntries] = useState<RenderCacheEntry[]>([]);
+  const [limit, setLimit] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = (err: unknown) => {
+    console.error(err);
+    setError(err instanceof Error ? err.message : 'Unknown error');
+  };
+
+  useEffect(() => {
+    // Renders finish in the worker, which announces every write and eviction
+    const refresh = async () => {
+      try {
+        const [list, limitBytes] = await Promise.all([listCachedRenders(), getCacheLimit()]);
+        setEntries(list);
+        setLimit(limitBytes);
+        setError(null);
+      } catch (err: unknown) {
+        fail(err);
+      }
+    };
+    refresh();
+    return onRenderCacheChange(refresh);
+  }, []);
+
+  const usedBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <details style={detailsPanelStyle}>
+      <summary style={{ cursor: 'pointer' }}>
+        <strong style={{ color: '#fff' }}>Render cache</strong>{' '}
+        {entries.length} segment{entries.length === 1 ? '' : 's'} | {formatBytes(usedBytes)}
+        {limit !== null && <> of {formatBytes(limit)}</>}
+      </summary>
+      <p style={{ color: '#888', margin: '8px 0' }}>
+        Trimmed segments are kept in the browser, keyed by source, range, mute and export settings, and reused by
+        the segment previews and by fast-copy exports. The least recently used are dropped past the limit.
+      </p>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+        <label>
+          Limit{' '}
+          <select
+            value={limit ?? ''}
+            disabled={limit === null}
+            onChange={(e) => setCacheLimit(Number(e.target.value)).catch(fail)}
+            style={buttonStyle}
+          >
+            {LIMIT_OPTIONS.map(bytes => <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>)}
+          </select>
+        </label>
+        <button onClick={() => clearRenderCache().catch(fail)} disabled={entries.length === 0} style={buttonStyle}>
+          Clear all
+        </button>
+      </div>
+      {error && <p style={{ color: '#ff5252', margin: '5px 0' }}>{error}</p>}
+      {entries.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#888' }}>
+              <th style={cellStyle}>Segment</th>
+              <th style={cellStyle}>Range</th>
+              <th style={cellStyle}>Encoding</th>
+              <th style={cellStyle}>Size</th>
+              <th style={cellStyle}>Hits</th>
+              <th style={cellStyle}>Last used</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.key} title={`${entry.source}\n${entry.key}`}>
+                <td style={cellStyle}>{entry.label}{entry.muted && ' (muted)'}</td>
+                <td style={cellStyle}>{formatTimecode(entry.startMs, entry.endMs)}</td>
+                <td style={cellStyle}>{describeEncoding(entry.encoding)}</td>
+                <td style={cellStyle}>{formatBytes(entry.size)}</td>
+                <td style={cellStyle}>{entry.hits}</td>
+                <td style={cellStyle}>{formatAge(entry.lastUsedAt)}</td>
+                <td style={cellStyle}>
+                  <button onClick={() => deleteCachedRender(entry.key).catch(fail)} style={buttonStyle}>Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
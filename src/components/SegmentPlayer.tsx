@@ -1,121 +1,135 @@
 import { useState, useEffect, useRef } from 'react';
-import { 
-  Input, 
-  Output, 
-  Conversion, 
-  UrlSource, 
-  BufferTarget, 
-  Mp4OutputFormat, 
-  ALL_FORMATS 
-} from 'mediabunny';
-import type { Segment } from '../types';
+import { JOB_PRIORITY, renderScheduler, type JobState } from '../lib/worker';
+import { cropAt, isKeyframedCrop, roundRect, upsertKeyframe } from '../lib/crop';
+import { describeEncoding, type EncodingSummary } from '../lib/exportSettings';
+import type { MediaInput } from '../lib/localFiles';
+import { CropOverlay } from './CropOverlay';
+import { buttonStyle } from './panelStyles';
+import type { CropRect, ExportSettings, Segment, SegmentCrop } from '../types';
 
 interface SegmentPlayerProps {
   segment: Segment;
-  sourceUrl: string;
-  canProcess: boolean;
-  onComplete: () => void;
+  source: MediaInput; // URL or local file
+  assetId?: string; // Keys the render cache, so renders survive a change of URL
+  outputAspectRatio?: number | null; // Locks the crop rectangle to the output's shape
+  onCropChange?: (crop: SegmentCrop | undefined) => void;
+  exportSettings?: ExportSettings;
 }
 
-export function SegmentPlayer({ segment, sourceUrl, canProcess, onComplete }: SegmentPlayerProps) {
+// Keyframes closer than this to the playhead are replaced instead of duplicated
+const KEYFRAME_TOLERANCE_MS = 40;
+
+// The crop controls are smaller than the panels' buttons
+const cropButtonStyle = { ...buttonStyle, padding: '2px 6px', fontSize: '0.7em' };
+
+// Largest centered rectangle with the given aspect ratio
+const defaultCropRect = (width: number, height: number, aspectRatio: number | null | undefined): CropRect => {
+  if (!aspectRatio) return { x: 0, y: 0, width, height };
+  const cropWidth = Math.min(width, height * aspectRatio);
+  const cropHeight = cropWidth / aspectRatio;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+export function SegmentPlayer({
+  segment,
+  source,
+  assetId,
+  outputAspectRatio,
+  onCropChange,
+  exportSettings,
+}: SegmentPlayerProps) {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
-  const processingRef = useRef<boolean>(false);
-  const completedRef = useRef<boolean>(false);
+  const [encoding, setEncoding] = useState<EncodingSummary | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  const [editingCrop, setEditingCrop] = useState(false);
+  // Edits are written back to the JSON; keep them locally until the next Execute remounts us
+  const [crop, setCrop] = useState<SegmentCrop | undefined>(segment.crop);
+  const [jobState, setJobState] = useState<JobState>('queued');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const jobIdRef = useRef<number | null>(null);
+  const visibleRef = useRef(false);
 
   useEffect(() => {
-    if (!canProcess || completedRef.current) return;
-
-    let mounted = true;
-    let conversionInstance: Conversion | null = null;
-
-    const processSegment = async () => {
-      // Prevent double processing
-      if (processingRef.current) return;
-      processingRef.current = true;
-      setError(null);
-      setProgress(0);
-
-      try {
-        const input = new Input({
-          source: new UrlSource(sourceUrl),
-          formats: ALL_FORMATS,
-        });
-
-        const output = new Output({
-          format: new Mp4OutputFormat(),
-          target: new BufferTarget(),
-        });
-
-        // Convert ms to seconds
-        const start = segment.start_ms / 1000;
-        const end = segment.end_ms / 1000;
-
-        conversionInstance = await Conversion.init({
-          input,
-          output,
-          trim: { start, end },
-          audio: segment.muted ? { discard: true } : {},
-        });
-
-        if (!conversionInstance.isValid) {
-          throw new Error('Invalid conversion configuration: ' + JSON.stringify(conversionInstance.discardedTracks));
-        }
-
-        conversionInstance.onProgress = (p) => {
-          if (mounted) setProgress(p);
-        };
-
-        // Add timeout to prevent hanging (60s)
-        const timeoutPromise = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Conversion timed out')), 60000)
-        );
-
-        await Promise.race([
-          conversionInstance.execute(),
-          timeoutPromise
-        ]);
-
-        if (output.target.buffer && output.target.buffer.byteLength > 0) {
-          const blob = new Blob([output.target.buffer], { type: 'video/mp4' });
-          const url = URL.createObjectURL(blob);
-          setVideoUrl(url);
-        } else {
-          setError('Conversion produced empty result');
-        }
-        completedRef.current = true;
-        processingRef.current = false;
-        setTimeout(onComplete, 0);
-      } catch (err: unknown) {
-        console.error('Conversion failed:', err);
-        if (mounted) {
-          setError(err instanceof Error ? err.message : 'Unknown error');
-        }
-        // Even on error, we should move to next
-        completedRef.current = true;
-        processingRef.current = false;
-        setTimeout(onComplete, 0);
-      } finally {
-        processingRef.current = false;
-      }
-    };
-
-    processSegment();
+    let objectUrl: string | null = null;
+
+    // Removing the job on cleanup is what prevents double processing (e.g. StrictMode re-running the effect)
+    const jobId = renderScheduler.schedule({ kind: 'trim', segment, source, assetId, exportSettings }, {
+      label: `Segment ${segment.scene_id}: ${segment.purpose}`,
+      priority: visibleRef.current ? JOB_PRIORITY.visibleSegment : JOB_PRIORITY.segment,
+      onStateChange: (state) => {
+        setJobState(state);
+        if (state === 'queued' || state === 'running') setError(null);
+        if (state === 'running') setProgress(0);
+      },
+      onProgress: setProgress,
+      onEncoding: setEncoding,
+      onCacheHit: () => setFromCache(true),
+      onDone: (blob) => {
+        objectUrl = URL.createObjectURL(blob);
+        setVideoUrl(objectUrl);
+      },
+      onFailed: (message) => {
+        console.error('Conversion failed:', message);
+        setError(message);
+      },
+    });
+    jobIdRef.current = jobId;
 
     return () => {
-      mounted = false;
-      if (conversionInstance) {
-        conversionInstance.cancel().catch(() => {});
-      }
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
+      renderScheduler.remove(jobId);
+      jobIdRef.current = null;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
       }
     };
-  }, [segment, sourceUrl, canProcess, onComplete]);
+  }, [segment, source, assetId, exportSettings]);
+
+  // Segments on screen are trimmed before the ones scrolled away
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(([entry]) => {
+      visibleRef.current = entry.isIntersecting;
+      if (jobIdRef.current !== null) {
+        renderScheduler.setPriority(jobIdRef.current, entry.isIntersecting ? JOB_PRIORITY.visibleSegment : JOB_PRIORITY.segment);
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const updateCrop = (next: SegmentCrop | undefined) => {
+    setCrop(next);
+    onCropChange?.(next);
+  };
+
+  const shownRect = videoSize
+    ? (crop ? cropAt(crop, currentTimeMs) : defaultCropRect(videoSize.width, videoSize.height, outputAspectRatio))
+    : null;
+
+  const handleCropCommit = (rect: CropRect) => {
+    if (crop && isKeyframedCrop(crop)) {
+      updateCrop(upsertKeyframe(crop, currentTimeMs, rect, KEYFRAME_TOLERANCE_MS));
+    } else {
+      updateCrop(roundRect(rect));
+    }
+  };
+
+  const handleAddKeyframe = () => {
+    if (!shownRect) return;
+    // A single rectangle becomes the first keyframe (at the start) of a keyframed crop
+    const keyframes = !crop ? [] : isKeyframedCrop(crop) ? crop : [{ offset_ms: 0, ...crop }];
+    updateCrop(upsertKeyframe(keyframes, currentTimeMs, shownRect, KEYFRAME_TOLERANCE_MS));
+  };
+
+  const cropLabel = !crop ? 'None' : isKeyframedCrop(crop) ? `${crop.length} keyframe(s)` : 'Fixed';
 
   return (
-    <div className="segment-player" style={{ 
+    <div ref={containerRef} className="segment-player" style={{ 
       width: '300px',
       margin: '0', 
       border: '1px solid #444', 
@@ -129,15 +143,57 @@ export function SegmentPlayer({ segment, sourceUrl, canProcess, onComplete }: Se
       <h3 style={{ fontSize: '1.1em', margin: '0 0 5px 0', color: '#fff' }}>{segment.purpose}</h3>
       <p style={{ fontSize: '0.9em', margin: '0 0 10px 0', height: '40px', overflow: 'hidden', textOverflow: 'ellipsis', color: '#ccc' }}>{segment.summary}</p>
       <p style={{ fontSize: '0.7em', color: '#aaa', margin: '0 0 10px 0' }}>
-        Time: {segment.timecode} | Muted: {segment.muted ? 'Yes' : 'No'}
+        Time: {segment.timecode} | Muted: {segment.muted ? 'Yes' : 'No'} | Crop: {cropLabel}
+        {encoding && <><br />{describeEncoding(encoding)}{fromCache && ' | From cache'}</>}
       </p>
+      {encoding?.notes.map(note => (
+        <p key={note} style={{ fontSize: '0.7em', color: '#ffb74d', margin: '0 0 10px 0' }}>{note}</p>
+      ))}
+      {videoUrl && videoSize && onCropChange && (
+        <div style={{ display: 'flex', gap: '5px', margin: '0 0 10px 0' }}>
+          <button onClick={() => setEditingCrop(prev => !prev)} style={cropButtonStyle}>
+            {editingCrop ? 'Done' : 'Edit crop'}
+          </button>
+          {editingCrop && (
+            <>
+              <button onClick={handleAddKeyframe} style={cropButtonStyle}>
+                Keyframe @ {(currentTimeMs / 1000).toFixed(2)}s
+              </button>
+              <button onClick={() => updateCrop(undefined)} disabled={!crop} style={cropButtonStyle}>Clear</button>
+            </>
+          )}
+        </div>
+      )}
 
       <div style={{ marginTop: 'auto', minHeight: '169px', display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: '#000', borderRadius: '4px', overflow: 'hidden' }}>
         {error ? (
           <div style={{ color: '#ff5252', padding: '10px', fontSize: '0.8em' }}>Error: {error}</div>
         ) : videoUrl ? (
-          <video src={videoUrl} controls width="100%" style={{ maxHeight: '100%' }} />
-        ) : canProcess || processingRef.current ? (
+          <div style={{ position: 'relative', width: '100%' }}>
+            <video
+              src={videoUrl}
+              controls
+              width="100%"
+              style={{ maxHeight: '100%', display: 'block' }}
+              onLoadedMetadata={(event) => {
+                // Audio-only exports have no frame to crop
+                const { videoWidth, videoHeight } = event.currentTarget;
+                setVideoSize(videoWidth > 0 ? { width: videoWidth, height: videoHeight } : null);
+              }}
+              onTimeUpdate={(event) => setCurrentTimeMs(event.currentTarget.currentTime * 1000)}
+              onSeeked={(event) => setCurrentTimeMs(event.currentTarget.currentTime * 1000)}
+            />
+            {editingCrop && videoSize && shownRect && (
+              <CropOverlay
+                sourceWidth={videoSize.width}
+                sourceHeight={videoSize.height}
+                rect={shownRect}
+                aspectRatio={outputAspectRatio ?? null}
+                onCommit={handleCropCommit}
+              />
+            )}
+          </div>
+        ) : jobState === 'running' ? (
           <div style={{ textAlign: 'center' }}>
             <p style={{ fontSize: '0.8em', color: '#ccc' }}>Processing...</p>
             <div style={{ width: '150px', height: '8px', backgroundColor: '#444', borderRadius: '4px', overflow: 'hidden' }}>
@@ -154,7 +210,7 @@ export function SegmentPlayer({ segment, sourceUrl, canProcess, onComplete }: Se
           </div>
         ) : (
           <div style={{ textAlign: 'center', color: '#666' }}>
-            <p>Waiting in queue...</p>
+            <p>{jobState === 'retrying' ? 'Failed, retrying soon...' : jobState === 'cancelled' ? 'Cancelled' : 'Waiting in queue...'}</p>
           </div>
         )}
       </div>
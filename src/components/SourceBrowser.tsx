@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { JOB_PRIORITY, renderScheduler } from '../lib/worker';
+import type { FilmstripLayout } from '../lib/filmstrip';
+import { describeLocalSource, localFiles, mediaInputFor, playableUrlFor, type MediaInput } from '../lib/localFiles';
+import { setSegmentRange, setSegmentSource } from '../lib/timelineEdits';
+import { formatTimecodePart, frameInPointMs, frameIndexAt, frameOutPointMs } from '../lib/timecode';
+import type { Segment, SourceFile, VideoCutdownResult } from '../types';
+import { buttonStyle, inputStyle, panelStyle } from './panelStyles';
+
+type SourceEdit = (cutdown: VideoCutdownResult) => string | void;
+
+interface SourceBrowserProps {
+  // As currently edited; undefined while the segments or sources have errors
+  segments: Segment[] | undefined;
+  sourceFiles: SourceFile[] | undefined;
+  selected: number | null; // Index of the selected segment, shared with the timeline
+  onSelect: (index: number | null) => void;
+  onEdit: (action: string, edit: SourceEdit) => void;
+}
+
+interface Filmstrip {
+  input: MediaInput;
+  url: string;
+  layout: FilmstripLayout;
+}
+
+// A segment's range on the browsed source, stacked into lanes so overlaps sit side by side
+interface RangeBar {
+  index: number;
+  segment: Segment;
+  lane: number;
+  reused: boolean; // Overlaps another segment's range of the same source
+}
+
+const FALLBACK_FPS = 30;
+const TILE_COUNT = 24;
+const TILE_HEIGHT = 54;
+const LANE_HEIGHT = 14;
+
+const rangeBars = (segments: Segment[], sourceId: number): RangeBar[] => {
+  const onSource = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => segment.source_id === sourceId)
+    .sort((a, b) => a.segment.start_ms - b.segment.start_ms);
+
+  const laneEnds: number[] = [];
+  return onSource.map(({ segment, index }) => {
+    let lane = laneEnds.findIndex(end => end <= segment.start_ms);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = segment.end_ms;
+    const reused = onSource.some(other =>
+      other.index !== index && other.segment.start_ms < segment.end_ms && segment.start_ms < other.segment.end_ms
+    );
+    return { index, segment, lane, reused };
+  });
+};
+
+// Builds the filmstrip of a source in the worker, alongside the other render jobs
+function useFilmstrip(input: MediaInput | null) {
+  const [loaded, setLoaded] = useState<Filmstrip | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!input) return;
+    let objectUrl: string | null = null;
+    let layout: FilmstripLayout | null = null;
+
+    const job = { kind: 'filmstrip' as const, source: input, tileCount: TILE_COUNT, tileHeight: TILE_HEIGHT };
+    const jobId = renderScheduler.schedule(job, {
+      label: `Filmstrip of ${typeof input === 'string' ? input : input instanceof File ? input.name : 'a local file'}`,
+      priority: JOB_PRIORITY.filmstrip,
+      onStateChange: (state) => {
+        if (state !== 'running') return;
+        setError(null);
+        setProgress(0);
+      },
+      onProgress: setProgress,
+      onFilmstrip: (received) => {
+        layout = received;
+      },
+      onDone: (blob) => {
+        if (!layout) {
+          setError('The filmstrip came back without its layout');
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setLoaded({ input, url: objectUrl, layout });
+      },
+      onFailed: setError,
+    });
+
+    return () => {
+      renderScheduler.remove(jobId);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [input]);
+
+  // The previous source's filmstrip is not shown while the new one waits for its turn
+  return { filmstrip: loaded?.input === input ? loaded : null, progress, error };
+}
+
+// Browses one source as a filmstrip with a frame-accurate scrubber. "Set in"/"Set out" write the
+// current frame's bounds into the selected segment, which must use the browsed source. Local
+// sources are browsed from their bound file.
+export function SourceBrowser({ segments, sourceFiles, selected, onSelect, onEdit }: SourceBrowserProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [pinnedSourceId, setPinnedSourceId] = useState<number | null>(null);
+  const [frame, setFrame] = useState(0);
+  const bindings = useSyncExternalStore(localFiles.subscribe, localFiles.getSnapshot);
+
+  const selectedSegment = selected !== null ? segments?.[selected] : undefined;
+
+  // Selecting a segment (or moving it to another source) brings up its source at its in point
+  const followKey = selectedSegment ? `${selected}:${selectedSegment.source_id}` : null;
+  const [followed, setFollowed] = useState(followKey);
+  if (followed !== followKey) {
+    setFollowed(followKey);
+    if (selectedSegment) {
+      const segmentSource = sourceFiles?.find(s => s.source_id === selectedSegment.source_id);
+      setPinnedSourceId(null);
+      setFrame(frameIndexAt(selectedSegment.start_ms, segmentSource?.fps || FALLBACK_FPS));
+    }
+  }
+
+  const source = sourceFiles?.find(s => s.source_id === (pinnedSourceId ?? selectedSegment?.source_id))
+    ?? sourceFiles?.[0];
+  const input = source ? mediaInputFor(source, bindings) : null;
+  const sourceUrl = source ? playableUrlFor(source, bindings) : null;
+  const bars = useMemo(() => segments && source ? rangeBars(segments, source.source_id) : [], [segments, source]);
+  const lanes = bars.reduce((max, bar) => Math.max(max, bar.lane + 1), 0);
+  const { filmstrip, progress, error } = useFilmstrip(input);
+
+  const fps = source?.fps && source.fps > 0 ? source.fps : FALLBACK_FPS;
+  const durationMs = filmstrip ? filmstrip.layout.durationSec * 1000 : source?.duration_ms ?? 0;
+  const frameCount = Math.max(1, Math.floor(durationMs * fps / 1000));
+  const shownFrame = Math.min(frame, frameCount - 1);
+  const frameMs = frameInPointMs(shownFrame, fps);
+
+  // Show the middle of the frame, so the player can't land on a neighbour
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video) video.currentTime = (shownFrame + 0.5) / fps;
+  }, [shownFrame, fps, sourceUrl]);
+
+  if (!segments || !sourceFiles || !source) {
+    return (
+      <div style={panelStyle}>
+        <strong style={{ color: '#fff' }}>Sources</strong>{' '}
+        <span style={{ color: '#888' }}>Fix the errors in the segments or sources to browse them</span>
+      </div>
+    );
+  }
+
+  const step = (frames: number) => setFrame(Math.min(frameCount - 1, Math.max(0, shownFrame + frames)));
+  const seekToFraction = (fraction: number) => setFrame(Math.min(frameCount - 1, frameIndexAt(fraction * durationMs, fps)));
+
+  const canSetPoints = selectedSegment?.source_id === source.source_id;
+  const useSource = () => {
+    if (selected === null || canSetPoints) return;
+    onEdit('change source', (draft) => setSegmentSource(draft, selected, source.source_id, source.duration_ms));
+  };
+  const setPoint = (point: 'in' | 'out') => {
+    if (selected === null || !canSetPoints) return;
+    onEdit(`set ${point} point`, (draft) => {
+      const { start_ms, end_ms } = draft.segments[selected];
+      return point === 'in'
+        ? setSegmentRange(draft, selected, frameInPointMs(shownFrame, fps), end_ms, source.duration_ms)
+        : setSegmentRange(draft, selected, start_ms, frameOutPointMs(shownFrame, fps), source.duration_ms);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return;
+    const seconds = Math.round(fps);
+    if (e.key === 'ArrowLeft') step(e.shiftKey ? -seconds : -1);
+    else if (e.key === 'ArrowRight') step(e.shiftKey ? seconds : 1);
+    else if (e.key === 'i') setPoint('in');
+    else if (e.key === 'o') setPoint('out');
+    else return;
+    e.preventDefault();
+  };
+
+  const percentAt = (ms: number) => `${Math.min(100, ms / durationMs * 100)}%`;
+
+  return (
+    <div style={panelStyle} tabIndex={0} onKeyDown={handleKeyDown}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+        <strong style={{ color: '#fff' }}>Sources</strong>
+        <select
+          value={source.source_id}
+          onChange={(e) => setPinnedSourceId(Number(e.target.value))}
+          style={inputStyle}
+        >
+          {sourceFiles.map(file => (
+            <option key={file.source_id} value={file.source_id}>
+              {file.source_id}: {file.local_file?.name ?? file.asset_id}
+            </option>
+          ))}
+        </select>
+        <span>{fps} fps | {(durationMs / 1000).toFixed(2)}s</span>
+        <span style={{ color: '#fff', fontVariantNumeric: 'tabular-nums' }}>
+          {formatTimecodePart(frameMs)} | frame {shownFrame}/{frameCount - 1}
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'flex-start' }}>
+        <video
+          ref={videoRef}
+          src={sourceUrl ?? undefined}
+          muted
+          playsInline
+          preload="auto"
+          onLoadedMetadata={(e) => {
+            e.currentTarget.currentTime = (shownFrame + 0.5) / fps;
+          }}
+          style={{ width: '240px', aspectRatio: '16/9', backgroundColor: '#000', borderRadius: '4px', flexShrink: 0 }}
+        />
+
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              seekToFraction((e.clientX - rect.left) / rect.width);
+            }}
+            style={{ position: 'relative', height: `${TILE_HEIGHT}px`, display: 'flex', backgroundColor: '#111', cursor: 'pointer' }}
+          >
+            {!input ? (
+              <span style={{ margin: 'auto', color: '#ffb74d' }}>
+                {describeLocalSource(source)} isn't loaded; drop it onto the local files panel
+              </span>
+            ) : filmstrip ? filmstrip.layout.timestamps.map((timestamp, i) => (
+              <div
+                key={i}
+                title={formatTimecodePart(timestamp * 1000)}
+                style={{
+                  flex: 1,
+                  backgroundImage: `url(${filmstrip.url})`,
+                  backgroundSize: `${filmstrip.layout.timestamps.length * 100}% 100%`,
+                  backgroundPosition: `${i / Math.max(1, filmstrip.layout.timestamps.length - 1) * 100}% 0`,
+                }}
+              />
+            )) : (
+              <span style={{ margin: 'auto', color: error ? '#ff5252' : '#888' }}>
+                {error ?? `Building filmstrip... ${Math.round(progress * 100)}%`}
+              </span>
+            )}
+            <div style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: percentAt(frameMs),
+              borderLeft: '2px solid #ff5252',
+              pointerEvents: 'none',
+            }} />
+          </div>
+
+          <div style={{ position: 'relative', height: `${lanes * LANE_HEIGHT}px`, marginTop: '2px' }}>
+            {bars.map(({ index, segment, lane, reused }) => (
+              <div
+                key={index}
+                onClick={() => onSelect(index)}
+                title={`${index + 1}. ${segment.purpose} (${segment.timecode})${reused ? '\nOverlaps another segment of this source' : ''}`}
+                style={{
+                  position: 'absolute',
+                  top: `${lane * LANE_HEIGHT}px`,
+                  height: `${LANE_HEIGHT - 2}px`,
+                  left: percentAt(segment.start_ms),
+                  width: `${Math.max(0.5, (segment.end_ms - segment.start_ms) / durationMs * 100)}%`,
+                  boxSizing: 'border-box',
+                  backgroundColor: index === selected ? '#2196F3' : '#555',
+                  border: reused ? '1px solid #ffb74d' : '1px solid #222',
+                  borderRadius: '2px',
+                  overflow: 'hidden',
+                  whiteSpace: 'nowrap',
+                  fontSize: '0.85em',
+                  lineHeight: `${LANE_HEIGHT - 4}px`,
+                  padding: '0 3px',
+                  color: '#fff',
+                  cursor: 'pointer',
+                }}
+              >
+                {index + 1}. {segment.purpose}
+              </div>
+            ))}
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={frameCount - 1}
+            step={1}
+            value={shownFrame}
+            onChange={(e) => setFrame(Number(e.target.value))}
+            style={{ width: '100%', marginTop: '4px' }}
+          />
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '5px' }}>
+            <button onClick={() => step(-Math.round(fps))} title="Back 1s (Shift+←)" style={buttonStyle}>-1s</button>
+            <button onClick={() => step(-1)} title="Previous frame (←)" style={buttonStyle}>◀ Frame</button>
+            <button onClick={() => step(1)} title="Next frame (→)" style={buttonStyle}>Frame ▶</button>
+            <button onClick={() => step(Math.round(fps))} title="Forward 1s (Shift+→)" style={buttonStyle}>+1s</button>
+            <span style={{ borderLeft: '1px solid #444', alignSelf: 'stretch' }} />
+            <button
+              onClick={() => setPoint('in')}
+              disabled={!canSetPoints}
+              title={canSetPoints ? 'Start the selected segment at this frame (I)' : 'Select a segment that uses this source'}
+              style={buttonStyle}
+            >
+              Set in
+            </button>
+            <button
+              onClick={() => setPoint('out')}
+              disabled={!canSetPoints}
+              title={canSetPoints ? 'End the selected segment after this frame (O)' : 'Select a segment that uses this source'}
+              style={buttonStyle}
+            >
+              Set out
+            </button>
+            {selectedSegment && !canSetPoints && (
+              <button onClick={useSource} title="Move the selected segment onto this source" style={buttonStyle}>
+                Use this source
+              </button>
+            )}
+            {selectedSegment && (
+              <span style={{ color: '#888' }}>
+                Segment {(selected ?? 0) + 1}: {selectedSegment.timecode}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { CHANNEL_LAYOUTS } from '../lib/exportSettings';
+import { localFiles, mediaInputFor } from '../lib/localFiles';
+import type { SourceProbe } from '../lib/probe';
+import {
+  compareSourceFile,
+  currentProbe,
+  rewriteSourceMetadata,
+  type ProbedSource,
+  type ProbedSources,
+  type SegmentOutsideMedia,
+} from '../lib/sourceCheck';
+import { probeInWorker } from '../lib/worker';
+import type { SourceFile, VideoCutdownResult } from '../types';
+import { buttonStyle, cellStyle as baseCellStyle, detailsPanelStyle } from './panelStyles';
+
+type SourceEdit = (cutdown: VideoCutdownResult) => string | void;
+
+interface SourceProbePanelProps {
+  // As currently edited; undefined while the sources have errors
+  sourceFiles: SourceFile[] | undefined;
+  probes: ProbedSources;
+  outsideMedia: SegmentOutsideMedia[];
+  onProbed: (sourceId: number, probed: ProbedSource) => void;
+  onSelect: (index: number) => void;
+  onEdit: (action: string, edit: SourceEdit) => void;
+}
+
+const cellStyle = { ...baseCellStyle, verticalAlign: 'top' as const };
+
+const describeAudio = (probe: SourceProbe) => {
+  if (!probe.audioCodec) return 'no audio';
+  const layout = Object.values(CHANNEL_LAYOUTS).find(l => l.numberOfChannels === probe.numberOfChannels);
+  const channels = layout?.label ?? `${probe.numberOfChannels} channels`;
+  return `${probe.audioCodec}, ${probe.sampleRate ? `${probe.sampleRate / 1000} kHz` : '? kHz'}, ${channels}`;
+};
+
+const describeVideo = (probe: SourceProbe) => {
+  if (!probe.videoCodec) return 'no video';
+  return probe.rotation ? `${probe.videoCodec}, rotated ${probe.rotation}°` : probe.videoCodec;
+};
+
+// Opens every source, reads what it really contains and compares that with `source_files`.
+// Mismatched metadata can be rewritten from the media, and segments that reach past the real
+// end of their source are listed (and marked on the timeline).
+export function SourceProbePanel({ sourceFiles, probes, outsideMedia, onProbed, onSelect, onEdit }: SourceProbePanelProps) {
+  const [probing, setProbing] = useState(0);
+
+  const probeAll = async (files: SourceFile[]) => {
+    const bindings = localFiles.getSnapshot();
+    setProbing(files.length);
+    await Promise.all(files.map(async (sourceFile) => {
+      const { url, source_id } = sourceFile;
+      try {
+        const input = mediaInputFor(sourceFile, bindings);
+        if (!input) throw new Error('The local file isn\'t loaded');
+        const probe = await probeInWorker(input, `Probe source ${source_id}`);
+        onProbed(source_id, { url, probe, error: null });
+      } catch (err: unknown) {
+        onProbed(source_id, { url, probe: null, error: err instanceof Error ? err.message : 'Unknown error' });
+      } finally {
+        setProbing(count => count - 1);
+      }
+    }));
+  };
+
+  if (!sourceFiles) {
+    return (
+      <div style={detailsPanelStyle}>
+        <strong style={{ color: '#fff' }}>Source check</strong>{' '}
+        <span style={{ color: '#888' }}>Fix the errors in the sources to probe them</span>
+      </div>
+    );
+  }
+
+  const checked = sourceFiles.map(sourceFile => {
+    const probe = currentProbe(probes, sourceFile);
+    const probed = probes[sourceFile.source_id];
+    return {
+      sourceFile,
+      probe,
+      error: probed?.url === sourceFile.url ? probed.error : null,
+      checks: probe ? compareSourceFile(sourceFile, probe) : [],
+    };
+  });
+  const mismatched = checked.filter(({ checks }) => checks.some(check => !check.matches));
+  const probedCount = checked.filter(({ probe, error }) => probe || error).length;
+
+  const rewrite = (targets: typeof checked) => {
+    const ids = targets.map(({ sourceFile }) => sourceFile.source_id);
+    onEdit(ids.length === 1 ? `rewrite source ${ids[0]}` : 'rewrite source metadata', (draft) => {
+      for (const { sourceFile, probe } of targets) {
+        if (!probe) continue;
+        const reason = rewriteSourceMetadata(draft, sourceFile.source_id, probe);
+        if (reason) return reason;
+      }
+    });
+  };
+
+  return (
+    <details style={detailsPanelStyle}>
+      <summary style={{ cursor: 'pointer' }}>
+        <strong style={{ color: '#fff' }}>Source check</strong>{' '}
+        {probedCount === 0 ? 'not probed' : `${probedCount}/${sourceFiles.length} probed`}
+        {mismatched.length > 0 && <span style={{ color: '#ffb74d' }}> | {mismatched.length} with wrong metadata</span>}
+        {outsideMedia.length > 0 && <span style={{ color: '#ff5252' }}> | {outsideMedia.length} segment(s) outside the media</span>}
+      </summary>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', margin: '8px 0' }}>
+        <button onClick={() => void probeAll(sourceFiles)} disabled={probing > 0} style={buttonStyle}>
+          {probing > 0 ? `Probing ${probing}...` : 'Probe sources'}
+        </button>
+        <button
+          onClick={() => rewrite(mismatched)}
+          disabled={mismatched.length === 0}
+          title="Replace durations, frame rates and dimensions in the JSON with what the media has"
+          style={buttonStyle}
+        >
+          Rewrite all from media
+        </button>
+      </div>
+
+      {probedCount > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#888' }}>
+              <th style={cellStyle}>Source</th>
+              <th style={cellStyle}>Field</th>
+              <th style={cellStyle}>JSON</th>
+              <th style={cellStyle}>Media</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {checked.map(entry => {
+              const { sourceFile, probe, error, checks } = entry;
+              if (!probe) {
+                return (
+                  <tr key={sourceFile.source_id}>
+                    <td style={cellStyle}>{sourceFile.source_id}: {sourceFile.asset_id}</td>
+                    <td style={{ ...cellStyle, color: error ? '#ff5252' : '#888' }} colSpan={4}>{error ?? 'not probed'}</td>
+                  </tr>
+                );
+              }
+              const wrong = checks.some(check => !check.matches);
+              return checks.map((check, i) => (
+                <tr key={`${sourceFile.source_id}-${check.field}`} style={i === 0 ? { borderTop: '1px solid #333' } : undefined}>
+                  {i === 0 && (
+                    <td style={cellStyle} rowSpan={checks.length}>
+                      {sourceFile.source_id}: {sourceFile.asset_id}
+                      <div style={{ color: '#888' }}>{describeVideo(probe)}</div>
+                      <div style={{ color: '#888' }}>{describeAudio(probe)}</div>
+                    </td>
+                  )}
+                  <td style={cellStyle}>{check.field}</td>
+                  <td style={{ ...cellStyle, color: check.matches ? undefined : '#ffb74d' }}>{check.json}</td>
+                  <td style={cellStyle}>{check.media}</td>
+                  {i === 0 && (
+                    <td style={cellStyle} rowSpan={checks.length}>
+                      {wrong
+                        ? <button onClick={() => rewrite([entry])} style={buttonStyle}>Rewrite</button>
+                        : <span style={{ color: '#4CAF50' }}>matches</span>}
+                    </td>
+                  )}
+                </tr>
+              ));
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {outsideMedia.length > 0 && (
+        <>
+          <p style={{ color: '#ff5252', margin: '8px 0 4px 0' }}>Segments outside the real media:</p>
+          <ul style={{ margin: 0, paddingLeft: '20px' }}>
+            {outsideMedia.map(({ index, segment, reason }) => (
+              <li key={index}>
+                <button onClick={() => onSelect(index)} style={{ ...buttonStyle, background: 'none', border: 'none', color: '#4fc3f7', padding: 0 }}>
+                  {index + 1}. {segment.purpose}
+                </button>{' '}
+                ({segment.timecode} of source {segment.source_id}) {reason}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </details>
+  );
+}
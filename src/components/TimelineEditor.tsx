@@ -0,0 +1,304 @@
+import { useMemo, useRef, useState } from 'react';
+import type { SegmentOutsideMedia } from '../lib/sourceCheck';
+import { computeCutdownTimeline } from '../lib/timeline';
+import {
+  MIN_SEGMENT_MS,
+  deleteSegment,
+  duplicateSegment,
+  moveSegment,
+  setSegmentRange,
+  splitSegment,
+  toggleSegmentMute,
+} from '../lib/timelineEdits';
+import type { Segment, SourceFile, VideoCutdownResult } from '../types';
+import { buttonStyle, panelStyle } from './panelStyles';
+
+type TimelineEdit = (cutdown: VideoCutdownResult) => string | void;
+
+interface TimelineEditorProps {
+  // As currently edited; undefined while the segments or sources have errors
+  segments: Segment[] | undefined;
+  sourceFiles: SourceFile[] | undefined;
+  selected: number | null; // Index of the selected segment, shared with the source browser
+  onSelect: (index: number | null) => void;
+  onEdit: (action: string, edit: TimelineEdit) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  outsideMedia?: SegmentOutsideMedia[]; // From the last source probe, outlined in red
+}
+
+// A trim handle being dragged, previewed locally and written to the JSON on release
+interface TrimDrag {
+  index: number;
+  edge: 'start' | 'end';
+  originX: number;
+  msPerPx: number;
+  scaleSec: number; // Timeline length when the drag began, kept so blocks don't rescale under the pointer
+  startMs: number;
+  endMs: number;
+}
+
+const SOURCE_COLORS = ['#1e88e5', '#43a047', '#fb8c00', '#8e24aa', '#e53935', '#00897b', '#6d4c41', '#546e7a'];
+
+const HANDLE_WIDTH = 6;
+
+const timelinePanelStyle = { ...panelStyle, marginBottom: '10px' };
+
+const formatSec = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+// One block per segment on the output timeline, colored by source. Blocks are dragged to
+// reorder, trimmed by their edge handles, and edited with the toolbar or the keyboard.
+// Every edit goes through `onEdit`, which writes the JSON.
+export function TimelineEditor({
+  segments,
+  sourceFiles,
+  selected,
+  onSelect,
+  onEdit,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  outsideMedia = [],
+}: TimelineEditorProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [splitAtMs, setSplitAtMs] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [trim, setTrim] = useState<TrimDrag | null>(null);
+  const trimming = useRef(false);
+
+  // Segments as shown, with a trim in progress applied
+  const shown = useMemo(() => segments?.map((segment, i) =>
+    trim?.index === i ? { ...segment, start_ms: trim.startMs, end_ms: trim.endMs } : segment
+  ), [segments, trim]);
+  const timeline = useMemo(() => shown && computeCutdownTimeline(shown), [shown]);
+
+  const sourceColor = (sourceId: number) => {
+    const index = sourceFiles?.findIndex(source => source.source_id === sourceId) ?? -1;
+    return index >= 0 ? SOURCE_COLORS[index % SOURCE_COLORS.length] : '#777';
+  };
+
+  const current = selected !== null && segments && selected < segments.length ? selected : null;
+  const selectedSegment = current !== null ? segments?.[current] : undefined;
+
+  const edit = (action: string, apply: TimelineEdit, nextSelected: number | null = current) => {
+    onEdit(action, apply);
+    onSelect(nextSelected);
+    setSplitAtMs(null);
+  };
+
+  const split = () => {
+    if (current === null || !selectedSegment) return;
+    const at = splitAtMs ?? (selectedSegment.start_ms + selectedSegment.end_ms) / 2;
+    edit('split segment', (draft) => splitSegment(draft, current, at));
+  };
+  const duplicate = () => current !== null && edit('duplicate segment', (draft) => duplicateSegment(draft, current), current + 1);
+  const remove = () => current !== null && edit('delete segment', (draft) => deleteSegment(draft, current), null);
+  const toggleMute = () => current !== null && edit('toggle mute', (draft) => toggleSegmentMute(draft, current));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'z') {
+      if (e.shiftKey) onRedo(); else onUndo();
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      onRedo();
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      remove();
+    } else if (e.key === 's') {
+      split();
+    } else if (e.key === 'd') {
+      duplicate();
+    } else if (e.key === 'm') {
+      toggleMute();
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      const count = segments?.length ?? 0;
+      if (count === 0) return;
+      const step = e.key === 'ArrowLeft' ? -1 : 1;
+      onSelect(Math.min(count - 1, Math.max(0, (current ?? (step > 0 ? -1 : count)) + step)));
+      setSplitAtMs(null);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  const startTrim = (e: React.PointerEvent, index: number, edge: TrimDrag['edge']) => {
+    if (!segments || !timeline || !trackRef.current) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    trimming.current = true;
+    const { start_ms, end_ms } = segments[index];
+    setTrim({
+      index,
+      edge,
+      originX: e.clientX,
+      msPerPx: timeline.durationSec * 1000 / trackRef.current.getBoundingClientRect().width,
+      scaleSec: timeline.durationSec,
+      startMs: start_ms,
+      endMs: end_ms,
+    });
+    onSelect(index);
+  };
+
+  const moveTrim = (e: React.PointerEvent) => {
+    if (!trim || !segments) return;
+    const { start_ms, end_ms, source_id } = segments[trim.index];
+    const deltaMs = Math.round((e.clientX - trim.originX) * trim.msPerPx);
+    const sourceEndMs = sourceFiles?.find(source => source.source_id === source_id)?.duration_ms ?? Infinity;
+    setTrim(trim.edge === 'start'
+      ? { ...trim, startMs: Math.min(end_ms - MIN_SEGMENT_MS, Math.max(0, start_ms + deltaMs)) }
+      : { ...trim, endMs: Math.max(start_ms + MIN_SEGMENT_MS, Math.min(sourceEndMs, end_ms + deltaMs)) });
+  };
+
+  const endTrim = () => {
+    if (!trim || !segments) return;
+    trimming.current = false;
+    setTrim(null);
+    const { start_ms, end_ms, source_id } = segments[trim.index];
+    if (trim.startMs === start_ms && trim.endMs === end_ms) return;
+    const sourceEndMs = sourceFiles?.find(source => source.source_id === source_id)?.duration_ms;
+    edit('trim segment', (draft) => setSegmentRange(draft, trim.index, trim.startMs, trim.endMs, sourceEndMs), trim.index);
+  };
+
+  if (!shown || !timeline) {
+    return (
+      <div style={timelinePanelStyle}>
+        <strong style={{ color: '#fff' }}>Timeline</strong>{' '}
+        <span style={{ color: '#888' }}>Fix the errors in the segments or sources to edit the timeline</span>
+      </div>
+    );
+  }
+
+  const scaleSec = trim?.scaleSec ?? timeline.durationSec;
+
+  return (
+    <div style={timelinePanelStyle} tabIndex={0} onKeyDown={handleKeyDown}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+        <strong style={{ color: '#fff' }}>Timeline</strong>
+        <span>{shown.length} segments | {timeline.durationSec.toFixed(2)}s</span>
+        <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" style={buttonStyle}>Undo</button>
+        <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" style={buttonStyle}>Redo</button>
+        <span style={{ borderLeft: '1px solid #444', alignSelf: 'stretch' }} />
+        <button onClick={split} disabled={!selectedSegment} title="Split at the marker, or in the middle (S)" style={buttonStyle}>
+          Split
+        </button>
+        <button onClick={duplicate} disabled={!selectedSegment} title="Duplicate (D)" style={buttonStyle}>Duplicate</button>
+        <button onClick={remove} disabled={!selectedSegment || shown.length < 2} title="Delete (Del)" style={buttonStyle}>
+          Delete
+        </button>
+        <button onClick={toggleMute} disabled={!selectedSegment} title="Mute or unmute (M)" style={buttonStyle}>
+          {selectedSegment?.muted ? 'Unmute' : 'Mute'}
+        </button>
+      </div>
+
+      <div
+        ref={trackRef}
+        style={{ position: 'relative', height: '56px', backgroundColor: '#1a1a1a', borderRadius: '4px' }}
+        onPointerMove={moveTrim}
+        onPointerUp={endTrim}
+        onPointerCancel={endTrim}
+      >
+        {shown.map((segment, i) => {
+          const entry = timeline.entries[i];
+          const isSelected = i === current;
+          const outside = outsideMedia.find(flagged => flagged.index === i);
+          const showSplit = isSelected && splitAtMs !== null && splitAtMs > segment.start_ms && splitAtMs < segment.end_ms;
+          return (
+            <div
+              key={`${segment.scene_id}-${i}`}
+              draggable
+              onDragStart={(e) => {
+                if (trimming.current) {
+                  e.preventDefault();
+                  return;
+                }
+                setDragIndex(i);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (dragIndex !== null) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null && dragIndex !== i) {
+                  const from = dragIndex;
+                  edit('reorder segments', (draft) => moveSegment(draft, from, i), i);
+                }
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              onClick={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect();
+                const fraction = (e.clientX - rect.left) / rect.width;
+                onSelect(i);
+                setSplitAtMs(Math.round(segment.start_ms + fraction * (segment.end_ms - segment.start_ms)));
+              }}
+              title={`${segment.purpose}\n${formatSec(segment.start_ms)}–${formatSec(segment.end_ms)} of source ${segment.source_id}` +
+                (outside ? `\nOutside the media: ${outside.reason}` : '')}
+              style={{
+                position: 'absolute',
+                top: 4,
+                bottom: 4,
+                left: `${entry.startSec / scaleSec * 100}%`,
+                width: `${entry.durationSec / scaleSec * 100}%`,
+                boxSizing: 'border-box',
+                padding: `2px ${HANDLE_WIDTH + 2}px`,
+                backgroundColor: sourceColor(segment.source_id),
+                backgroundImage: segment.muted
+                  ? 'repeating-linear-gradient(45deg, transparent 0 6px, rgba(0, 0, 0, 0.25) 6px 12px)'
+                  : undefined,
+                border: isSelected ? '2px solid #fff' : outside ? '2px dashed #ff5252' : '1px solid rgba(0, 0, 0, 0.5)',
+                borderRadius: '4px',
+                opacity: dragIndex === i ? 0.5 : entry.overlapInSec > 0 ? 0.9 : 1,
+                overflow: 'hidden',
+                cursor: 'grab',
+                color: '#fff',
+                fontSize: '0.9em',
+                textAlign: 'left',
+                whiteSpace: 'nowrap',
+                userSelect: 'none',
+              }}
+            >
+              <div style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {segment.muted && '🔇 '}{segment.purpose}
+              </div>
+              <div style={{ opacity: 0.8 }}>{formatSec(segment.end_ms - segment.start_ms)}</div>
+              {showSplit && (
+                <div style={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  left: `${(splitAtMs - segment.start_ms) / (segment.end_ms - segment.start_ms) * 100}%`,
+                  borderLeft: '2px dashed #fff',
+                  pointerEvents: 'none',
+                }} />
+              )}
+              {(['start', 'end'] as const).map(edge => (
+                <div
+                  key={edge}
+                  onPointerDown={(e) => startTrim(e, i, edge)}
+                  onClick={(e) => e.stopPropagation()}
+                  title={edge === 'start' ? 'Drag to trim the start' : 'Drag to trim the end'}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    bottom: 0,
+                    [edge === 'start' ? 'left' : 'right']: 0,
+                    width: `${HANDLE_WIDTH}px`,
+                    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+                    cursor: 'ew-resize',
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ marginTop: '6px', color: '#888' }}>
+        Drag blocks to reorder and edges to trim. Click a block to place the split marker.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// Inline styles shared by the panels around the editor and the players
+
+export const panelStyle = {
+  padding: '10px',
+  marginBottom: '20px',
+  border: '1px solid #333',
+  borderRadius: '8px',
+  backgroundColor: '#252526',
+  color: '#ccc',
+  fontSize: '0.8em',
+  outline: 'none', // Panels that take keyboard shortcuts are focusable
+};
+
+// Single-row settings panels above the player, wrapping on narrow screens
+export const barPanelStyle = {
+  ...panelStyle,
+  display: 'flex',
+  flexWrap: 'wrap' as const,
+  alignItems: 'center',
+  gap: '10px',
+  marginBottom: '10px',
+};
+
+// Collapsible panels of tables and lists, which read left to right
+export const detailsPanelStyle = { ...panelStyle, textAlign: 'left' as const };
+
+export const buttonStyle = { fontSize: '1em', cursor: 'pointer' };
+export const cellStyle = { padding: '2px 6px', textAlign: 'left' as const };
+
+export const inputStyle = {
+  padding: '3px',
+  borderRadius: '4px',
+  backgroundColor: '#333',
+  color: 'white',
+  border: '1px solid #555',
+};
@@ -0,0 +1,141 @@
+import type { CaptionCue, Segment, VideoCutdownResult } from '../types';
+import { computeCutdownTimeline } from './timeline';
+
+// A caption placed on the output timeline
+export interface TimedCaption {
+  startSec: number;
+  endSec: number;
+  text: string;
+}
+
+export type CaptionFileFormat = 'vtt' | 'srt';
+
+// "hh:mm:ss.mmm" or "mm:ss.mmm"; SRT writes the decimal separator as a comma
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)/;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis.padEnd(3, '0'));
+};
+
+// Parses a WebVTT or SRT file into cues, in the file's own timing. Cue identifiers, cue settings,
+// and WebVTT NOTE/STYLE/REGION blocks are dropped; formatting tags in the text are kept.
+export const parseCaptionFile = (text: string): CaptionCue[] => {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    // The timing line is first, or second after a cue identifier
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    const timing = timingIndex === 0 || timingIndex === 1 ? TIMING_LINE.exec(lines[timingIndex]) : null;
+    if (!timing) continue;
+
+    const startMs = parseTimestamp(timing[1]);
+    const endMs = parseTimestamp(timing[2]);
+    const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+    if (startMs === null || endMs === null || endMs <= startMs || cueText === '') continue;
+
+    cues.push({ start_ms: startMs, end_ms: endMs, text: cueText });
+  }
+
+  return cues.sort((a, b) => a.start_ms - b.start_ms);
+};
+
+const formatTimestamp = (sec: number, separator: '.' | ',') => {
+  const total = Math.max(0, Math.round(sec * 1000));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// A blank line ends a cue in both formats, so blank lines inside the text are dropped
+const cueLines = (text: string) => text.split('\n').filter(line => line.trim() !== '').join('\n');
+
+export const formatWebVtt = (captions: TimedCaption[]): string =>
+  ['WEBVTT', ...captions.map(caption =>
+    `${formatTimestamp(caption.startSec, '.')} --> ${formatTimestamp(caption.endSec, '.')}\n${cueLines(caption.text)}`
+  )].join('\n\n') + '\n';
+
+export const formatSrt = (captions: TimedCaption[]): string =>
+  captions.map((caption, i) =>
+    `${i + 1}\n${formatTimestamp(caption.startSec, ',')} --> ${formatTimestamp(caption.endSec, ',')}\n${cueLines(caption.text)}`
+  ).join('\n\n') + '\n';
+
+export const formatCaptionFile = (captions: TimedCaption[], format: CaptionFileFormat): string =>
+  format === 'vtt' ? formatWebVtt(captions) : formatSrt(captions);
+
+// Caption text without WebVTT/SRT formatting tags, for drawing
+export const plainCaptionText = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+// Where a segment's source range lands on the output timeline
+export interface CaptionPlacement {
+  segment: Segment;
+  sourceStartSec: number;
+  sourceEndSec: number;
+  outputStartSec: number;
+}
+
+// Puts the project's output-time cues and every segment's source-time cues onto the output
+// timeline. Segment cues are clipped to the part of the source the segment shows; everything is
+// clipped to the output.
+export const layOutCaptions = (
+  result: VideoCutdownResult,
+  placements: CaptionPlacement[],
+  durationSec: number
+): TimedCaption[] => {
+  const captions: TimedCaption[] = [];
+  const add = (startSec: number, endSec: number, text: string) => {
+    const start = Math.max(0, startSec);
+    const end = Math.min(durationSec, endSec);
+    if (end > start && text.trim() !== '') captions.push({ startSec: start, endSec: end, text });
+  };
+
+  for (const cue of result.captions?.cues ?? []) {
+    add(cue.start_ms / 1000, cue.end_ms / 1000, cue.text);
+  }
+
+  for (const { segment, sourceStartSec, sourceEndSec, outputStartSec } of placements) {
+    for (const cue of segment.captions ?? []) {
+      const start = Math.max(sourceStartSec, cue.start_ms / 1000);
+      const end = Math.min(sourceEndSec, cue.end_ms / 1000);
+      if (end <= start) continue;
+      add(outputStartSec + start - sourceStartSec, outputStartSec + end - sourceStartSec, cue.text);
+    }
+  }
+
+  return captions.sort((a, b) => a.startSec - b.startSec);
+};
+
+export const hasCaptions = (result: VideoCutdownResult): boolean =>
+  (result.captions?.cues?.length ?? 0) > 0 || result.segments.some(segment => (segment.captions?.length ?? 0) > 0);
+
+// Captions laid out on the timeline the JSON describes, before any render adjusts it
+export const cutdownCaptions = (result: VideoCutdownResult): TimedCaption[] => {
+  const timeline = computeCutdownTimeline(result.segments);
+  return layOutCaptions(
+    result,
+    result.segments.map((segment, i) => ({
+      segment,
+      sourceStartSec: segment.start_ms / 1000,
+      sourceEndSec: segment.end_ms / 1000,
+      outputStartSec: timeline.entries[i].startSec,
+    })),
+    timeline.durationSec
+  );
+};
+
+// File name for a sidecar caption file next to the rendered cutdown
+export const captionFileName = (result: VideoCutdownResult, format: CaptionFileFormat): string =>
+  `${result.cutdown_uuid}.${format}`;
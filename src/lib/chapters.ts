@@ -0,0 +1,76 @@
+import type { Segment, VideoCutdownResult } from '../types';
+import { formatWebVtt } from './captions';
+import { computeCutdownTimeline, type Timeline } from './timeline';
+
+// A named stretch of the output, one per segment
+export interface Chapter {
+  startSec: number;
+  endSec: number;
+  title: string;
+}
+
+// One chapter per timeline entry, named by the purpose of the segment at the same index. A
+// chapter starts where its segment first appears, so with overlap transitions it starts when the
+// transition does.
+export const chaptersFromTimeline = (segments: Segment[], timeline: Timeline): Chapter[] =>
+  timeline.entries.map((entry, i) => ({
+    startSec: i === 0 ? 0 : entry.startSec,
+    endSec: timeline.entries[i + 1]?.startSec ?? timeline.durationSec,
+    title: segments[i].purpose.trim() || `Segment ${i + 1}`,
+  }));
+
+// Chapters on the timeline the JSON describes, before any render adjusts it
+export const cutdownChapters = (result: VideoCutdownResult): Chapter[] =>
+  chaptersFromTimeline(result.segments, computeCutdownTimeline(result.segments));
+
+// Chapters as a WebVTT chapters file, for an HTML <track kind="chapters">
+export const formatChaptersVtt = (chapters: Chapter[]): string =>
+  formatWebVtt(chapters.map(({ startSec, endSec, title }) => ({ startSec, endSec, text: title })));
+
+// Containers get chapters as tags in the Vorbis comment convention that many players and
+// taggers read: CHAPTER001=00:00:00.000 and CHAPTER001NAME=Hook
+const CHAPTER_TAG = /^CHAPTER(\d{2,3})$/i;
+
+const formatChapterTime = (sec: number) => {
+  const total = Math.max(0, Math.round(sec * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:` +
+    `${pad(Math.floor(total / 1000) % 60)}.${pad(total % 1000, 3)}`;
+};
+
+const parseChapterTime = (value: string): number | null => {
+  const match = /^(\d+):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+};
+
+export const formatChapterTags = (chapters: Chapter[]): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  chapters.forEach((chapter, i) => {
+    const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    tags[key] = formatChapterTime(chapter.startSec);
+    tags[`${key}NAME`] = chapter.title;
+  });
+  return tags;
+};
+
+// Reads chapters back from tags written by `formatChapterTags` (or any tool using the same
+// convention). Each chapter ends where the next one starts, the last one at `durationSec`.
+export const parseChapterTags = (tags: Record<string, unknown>, durationSec: number): Chapter[] => {
+  const starts: { startSec: number; title: string }[] = [];
+  for (const [key, value] of Object.entries(tags)) {
+    const match = CHAPTER_TAG.exec(key);
+    if (!match || typeof value !== 'string') continue;
+    const startSec = parseChapterTime(value);
+    if (startSec === null) continue;
+    const name = Object.entries(tags).find(([other]) => other.toUpperCase() === `${key.toUpperCase()}NAME`)?.[1];
+    starts.push({ startSec, title: typeof name === 'string' ? name : `Chapter ${Number(match[1])}` });
+  }
+
+  starts.sort((a, b) => a.startSec - b.startSec);
+  return starts.map((chapter, i) => ({
+    ...chapter,
+    endSec: Math.max(chapter.startSec, starts[i + 1]?.startSec ?? durationSec),
+  }));
+};
@@ -0,0 +1,6 @@
+// Drops unset fields so the JSON only lists what was actually chosen. With nothing chosen, the
+// whole object is left out.
+export const compact = <T extends object>(value: T): T | undefined => {
+  const entries = Object.entries(value).filter(([, field]) => field !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+};
@@ -0,0 +1,67 @@
+import type { CropKeyframe, CropRect, SegmentCrop } from '../types';
+
+export const isKeyframedCrop = (crop: SegmentCrop): crop is CropKeyframe[] => Array.isArray(crop);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const toRect = ({ x, y, width, height }: CropRect): CropRect => ({ x, y, width, height });
+
+export const sortKeyframes = (keyframes: CropKeyframe[]) =>
+  [...keyframes].sort((a, b) => a.offset_ms - b.offset_ms);
+
+// The crop rectangle at `offsetMs` into the segment. Before the first and after the last
+// keyframe the rectangle holds still.
+export const cropAt = (crop: SegmentCrop, offsetMs: number): CropRect => {
+  if (!isKeyframedCrop(crop)) return toRect(crop);
+
+  const keyframes = sortKeyframes(crop);
+  if (offsetMs <= keyframes[0].offset_ms) return toRect(keyframes[0]);
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const previous = keyframes[i - 1];
+    const next = keyframes[i];
+    if (offsetMs <= next.offset_ms) {
+      const span = next.offset_ms - previous.offset_ms;
+      const t = span > 0 ? (offsetMs - previous.offset_ms) / span : 1;
+      return {
+        x: lerp(previous.x, next.x, t),
+        y: lerp(previous.y, next.y, t),
+        width: lerp(previous.width, next.width, t),
+        height: lerp(previous.height, next.height, t),
+      };
+    }
+  }
+
+  return toRect(keyframes[keyframes.length - 1]);
+};
+
+// Keeps a rectangle inside a frame of the given size
+export const clampCrop = (rect: CropRect, frameWidth: number, frameHeight: number): CropRect => {
+  const width = Math.min(Math.max(1, rect.width), frameWidth);
+  const height = Math.min(Math.max(1, rect.height), frameHeight);
+  return {
+    x: Math.min(Math.max(0, rect.x), frameWidth - width),
+    y: Math.min(Math.max(0, rect.y), frameHeight - height),
+    width,
+    height,
+  };
+};
+
+export const roundRect = ({ x, y, width, height }: CropRect): CropRect => ({
+  x: Math.round(x),
+  y: Math.round(y),
+  width: Math.round(width),
+  height: Math.round(height),
+});
+
+// Replaces the keyframe at `offsetMs` (within `toleranceMs`) or inserts a new one
+export const upsertKeyframe = (
+  keyframes: CropKeyframe[],
+  offsetMs: number,
+  rect: CropRect,
+  toleranceMs: number
+): CropKeyframe[] => {
+  const keyframe: CropKeyframe = { offset_ms: Math.round(offsetMs), ...roundRect(rect) };
+  const rest = keyframes.filter(k => Math.abs(k.offset_ms - offsetMs) > toleranceMs);
+  return sortKeyframes([...rest, keyframe]);
+};
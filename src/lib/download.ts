@@ -0,0 +1,9 @@
+// Saves a file the page built through the browser's downloads, under the given name
+export const downloadFile = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,32 @@
+import type { Monaco } from '@monaco-editor/react';
+import { findJsonRange, locateJsonPaths } from './jsonLocator';
+import type { ValidationIssue } from './validation';
+
+type EditorModel = NonNullable<ReturnType<Monaco['editor']['getModel']>>;
+
+export const VALIDATION_MARKER_OWNER = 'cutdown-validation';
+
+// Places each validation issue on the JSON lines of the field it refers to.
+export const setValidationMarkers = (monaco: Monaco, model: EditorModel, issues: ValidationIssue[]) => {
+  const ranges = locateJsonPaths(model.getValue());
+
+  const markers = issues.map(issue => {
+    const range = findJsonRange(ranges, issue.path) ?? { start: 0, end: 0 };
+    const start = model.getPositionAt(range.start);
+    const end = model.getPositionAt(range.end);
+    return {
+      severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: issue.message,
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+  });
+
+  monaco.editor.setModelMarkers(model, VALIDATION_MARKER_OWNER, markers);
+};
+
+export const clearValidationMarkers = (monaco: Monaco, model: EditorModel) => {
+  monaco.editor.setModelMarkers(model, VALIDATION_MARKER_OWNER, []);
+};
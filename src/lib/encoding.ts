@@ -0,0 +1,142 @@
+import {
+  Mp4OutputFormat,
+  WebMOutputFormat,
+  MovOutputFormat,
+  MkvOutputFormat,
+  WavOutputFormat,
+  AdtsOutputFormat,
+  QUALITY_VERY_LOW,
+  QUALITY_LOW,
+  QUALITY_MEDIUM,
+  QUALITY_HIGH,
+  QUALITY_VERY_HIGH,
+  getFirstEncodableVideoCodec,
+  getFirstEncodableAudioCodec,
+  type OutputFormat,
+  type Quality,
+} from 'mediabunny';
+import type { ContainerFormat, ExportAudioCodec, ExportVideoCodec, QualityPreset } from '../types';
+import {
+  AUDIO_CODEC_LABELS,
+  CONTAINERS,
+  VIDEO_CODEC_LABELS,
+  type EncodingSummary,
+  type ResolvedExportSettings,
+} from './exportSettings';
+
+const QUALITIES: Record<QualityPreset, Quality> = {
+  very_low: QUALITY_VERY_LOW,
+  low: QUALITY_LOW,
+  medium: QUALITY_MEDIUM,
+  high: QUALITY_HIGH,
+  very_high: QUALITY_VERY_HIGH,
+};
+
+// MP4 and MOV write metadata as 'mdta' keys, which take any tag name. Fragmented, they write
+// each fragment out as it completes instead of building one index for the whole file.
+export const createOutputFormat = (container: ContainerFormat, fragmented = false): OutputFormat => {
+  const fastStart = fragmented ? 'fragmented' : undefined;
+  switch (container) {
+    case 'mp4': return new Mp4OutputFormat({ metadataFormat: 'mdta', fastStart });
+    case 'webm': return new WebMOutputFormat();
+    case 'mov': return new MovOutputFormat({ metadataFormat: 'mdta', fastStart });
+    case 'mkv': return new MkvOutputFormat();
+    case 'wav': return new WavOutputFormat();
+    case 'adts': return new AdtsOutputFormat();
+  }
+};
+
+export const toBitrate = (value: number | QualityPreset): number | Quality =>
+  typeof value === 'number' ? value : QUALITIES[value];
+
+// The shape of the media that will be encoded, which decides what encoders accept
+export interface EncodingTarget {
+  width: number;
+  height: number;
+  sampleRate: number;
+  numberOfChannels: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  fragmented?: boolean; // See createOutputFormat
+}
+
+export interface EncodingPlan extends EncodingSummary {
+  format: OutputFormat;
+  videoBitrate: number | Quality;
+  audioBitrate: number | Quality;
+  keyFrameIntervalSec: number;
+}
+
+// Requested codec first, then the rest of the container's codecs in preference order
+const candidates = <T extends string>(preferred: T | null, supported: T[]): T[] =>
+  preferred ? [preferred, ...supported.filter(codec => codec !== preferred)] : supported;
+
+// Picks the codecs to encode with. A requested codec the runtime can't encode falls back to the
+// first one that it can, with a note saying so. Fails when no video codec works at all, or when an
+// audio-only container has no encodable audio codec; otherwise a missing audio encoder drops the track.
+export const negotiateEncoding = async (
+  settings: ResolvedExportSettings,
+  target: EncodingTarget
+): Promise<EncodingPlan> => {
+  const info = CONTAINERS[settings.container];
+  const format = createOutputFormat(settings.container, target.fragmented);
+  const videoBitrate = toBitrate(settings.videoBitrate);
+  const audioBitrate = toBitrate(settings.audioBitrate);
+  const notes: string[] = [];
+
+  let videoCodec: ExportVideoCodec | null = null;
+  if (!info.audioOnly && target.hasVideo) {
+    const supported = format.getSupportedVideoCodecs();
+    const options = { width: target.width, height: target.height, bitrate: videoBitrate };
+    videoCodec = await getFirstEncodableVideoCodec(
+      candidates(settings.videoCodec, info.videoCodecs).filter(codec => supported.includes(codec)),
+      options
+    ) as ExportVideoCodec | null;
+
+    if (!videoCodec) {
+      throw new Error(
+        `None of the video codecs ${info.label} supports can be encoded here at ${target.width}x${target.height}`
+      );
+    }
+    if (settings.videoCodec && videoCodec !== settings.videoCodec) {
+      notes.push(`${VIDEO_CODEC_LABELS[settings.videoCodec]} can't be encoded here; using ${VIDEO_CODEC_LABELS[videoCodec]}`);
+    }
+  }
+
+  let audioCodec: ExportAudioCodec | null = null;
+  if (target.hasAudio) {
+    const supported = format.getSupportedAudioCodecs();
+    const options = {
+      numberOfChannels: target.numberOfChannels,
+      sampleRate: target.sampleRate,
+      bitrate: audioBitrate,
+    };
+    audioCodec = await getFirstEncodableAudioCodec(
+      candidates(settings.audioCodec, info.audioCodecs).filter(codec => supported.includes(codec)),
+      options
+    ) as ExportAudioCodec | null;
+
+    if (!audioCodec) {
+      if (info.audioOnly) {
+        throw new Error(`None of the audio codecs ${info.label} supports can be encoded here`);
+      }
+      notes.push(`No audio codec ${info.label} supports can be encoded here; the output has no audio`);
+    } else if (audioCodec !== settings.audioCodec) {
+      notes.push(`${AUDIO_CODEC_LABELS[settings.audioCodec]} can't be encoded here; using ${AUDIO_CODEC_LABELS[audioCodec]}`);
+    }
+  }
+
+  return {
+    format,
+    container: settings.container,
+    videoCodec,
+    audioCodec,
+    notes,
+    videoBitrate,
+    audioBitrate,
+    keyFrameIntervalSec: settings.keyFrameIntervalSec,
+  };
+};
+
+export const summarizeEncoding = ({ container, videoCodec, audioCodec, notes }: EncodingPlan): EncodingSummary =>
+  ({ container, videoCodec, audioCodec, notes });
@@ -0,0 +1,183 @@
+import type {
+  ChannelLayout,
+  ContainerFormat,
+  ExportAudioCodec,
+  ExportSettings,
+  ExportVideoCodec,
+  QualityPreset,
+  VideoCutdownResult,
+} from '../types';
+
+export interface ContainerInfo {
+  label: string;
+  extension: string;
+  audioOnly: boolean;
+  // Whether free-form tag names survive, which chapters and cutdown identifiers are written as
+  customTags: boolean;
+  // Codecs the container can hold, in the order they are tried when falling back
+  videoCodecs: ExportVideoCodec[];
+  audioCodecs: ExportAudioCodec[];
+}
+
+export const CONTAINERS: Record<ContainerFormat, ContainerInfo> = {
+  mp4: {
+    label: 'MP4',
+    extension: 'mp4',
+    audioOnly: false,
+    customTags: true,
+    videoCodecs: ['avc', 'hevc', 'vp9', 'av1', 'vp8'],
+    audioCodecs: ['aac', 'opus', 'mp3', 'vorbis', 'flac'],
+  },
+  webm: {
+    label: 'WebM',
+    extension: 'webm',
+    audioOnly: false,
+    customTags: true,
+    videoCodecs: ['vp9', 'av1', 'vp8'],
+    audioCodecs: ['opus', 'vorbis'],
+  },
+  mov: {
+    label: 'MOV',
+    extension: 'mov',
+    audioOnly: false,
+    customTags: true,
+    videoCodecs: ['avc', 'hevc', 'vp9', 'av1', 'vp8'],
+    audioCodecs: ['aac', 'opus', 'mp3', 'vorbis', 'flac', 'pcm-s16', 'pcm-s24', 'pcm-f32'],
+  },
+  mkv: {
+    label: 'MKV',
+    extension: 'mkv',
+    audioOnly: false,
+    customTags: true,
+    videoCodecs: ['avc', 'hevc', 'vp9', 'av1', 'vp8'],
+    audioCodecs: ['aac', 'opus', 'mp3', 'vorbis', 'flac', 'pcm-s16', 'pcm-s24', 'pcm-f32'],
+  },
+  wav: {
+    label: 'WAV',
+    extension: 'wav',
+    audioOnly: true,
+    customTags: false,
+    videoCodecs: [],
+    audioCodecs: ['pcm-s16', 'pcm-s24', 'pcm-f32'],
+  },
+  adts: {
+    label: 'ADTS (AAC)',
+    extension: 'aac',
+    audioOnly: true,
+    customTags: false,
+    videoCodecs: [],
+    audioCodecs: ['aac'],
+  },
+};
+
+export const CONTAINER_FORMATS = Object.keys(CONTAINERS) as ContainerFormat[];
+
+export const QUALITY_PRESETS: QualityPreset[] = ['very_low', 'low', 'medium', 'high', 'very_high'];
+
+export const VIDEO_CODEC_LABELS: Record<ExportVideoCodec, string> = {
+  avc: 'H.264',
+  hevc: 'H.265',
+  vp9: 'VP9',
+  av1: 'AV1',
+  vp8: 'VP8',
+};
+
+export const AUDIO_CODEC_LABELS: Record<ExportAudioCodec, string> = {
+  aac: 'AAC',
+  opus: 'Opus',
+  mp3: 'MP3',
+  vorbis: 'Vorbis',
+  flac: 'FLAC',
+  'pcm-s16': 'PCM 16-bit',
+  'pcm-s24': 'PCM 24-bit',
+  'pcm-f32': 'PCM float',
+};
+
+export const CHANNEL_LAYOUTS: Record<ChannelLayout, { label: string; numberOfChannels: number }> = {
+  mono: { label: 'Mono', numberOfChannels: 1 },
+  stereo: { label: 'Stereo', numberOfChannels: 2 },
+  '5.1': { label: '5.1', numberOfChannels: 6 },
+};
+
+// Rates offered in the UI; the JSON accepts any whole number of Hz
+export const SAMPLE_RATES = [22050, 32000, 44100, 48000];
+
+// Rates offered in the UI; the JSON accepts any rate up to MAX_FRAME_RATE
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+export const MAX_FRAME_RATE = 240;
+
+// 29.97 rather than 29.97002997...
+export const formatFrameRate = (fps: number) => `${Math.round(fps * 1000) / 1000} fps`;
+
+// The layout a source with this many channels is mixed as. Unusual counts are treated as stereo.
+export const layoutForChannels = (numberOfChannels: number): ChannelLayout =>
+  numberOfChannels === 1 ? 'mono' : numberOfChannels === 6 ? '5.1' : 'stereo';
+
+// The previous hardcoded output, still used for anything the project leaves out
+const DEFAULT_VIDEO_BITRATE = 6_000_000;
+const DEFAULT_AUDIO_BITRATE = 128_000;
+const DEFAULT_KEYFRAME_INTERVAL_SEC = 2;
+
+export interface ResolvedExportSettings {
+  container: ContainerFormat;
+  videoCodec: ExportVideoCodec | null; // null for audio-only containers
+  audioCodec: ExportAudioCodec;
+  // A preset when the project asks for one and gives no explicit bitrate
+  videoBitrate: number | QualityPreset;
+  audioBitrate: number | QualityPreset;
+  keyFrameIntervalSec: number;
+  frameRate: number | null; // null to follow the sources
+  frameBlending: boolean;
+  sampleRate: number | null; // null to follow the sources
+  channelLayout: ChannelLayout | null;
+  passthrough: boolean;
+}
+
+// Fills in defaults and replaces codecs the container can't hold with its preferred one.
+// Whether the runtime can actually encode them is only known at render time.
+export const resolveExportSettings = (settings: ExportSettings | undefined): ResolvedExportSettings => {
+  const spec = settings ?? {};
+  const container = spec.container ?? 'mp4';
+  const info = CONTAINERS[container];
+
+  const videoCodec = info.audioOnly ? null
+    : spec.video_codec && info.videoCodecs.includes(spec.video_codec) ? spec.video_codec
+    : info.videoCodecs[0];
+  const audioCodec = spec.audio_codec && info.audioCodecs.includes(spec.audio_codec) ? spec.audio_codec
+    : info.audioCodecs[0];
+
+  return {
+    container,
+    videoCodec,
+    audioCodec,
+    videoBitrate: spec.video_bitrate ?? spec.quality ?? DEFAULT_VIDEO_BITRATE,
+    audioBitrate: spec.audio_bitrate ?? spec.quality ?? DEFAULT_AUDIO_BITRATE,
+    keyFrameIntervalSec: spec.keyframe_interval_sec ?? DEFAULT_KEYFRAME_INTERVAL_SEC,
+    frameRate: spec.frame_rate ?? null,
+    frameBlending: spec.frame_blending ?? false,
+    sampleRate: spec.sample_rate ?? null,
+    channelLayout: spec.channel_layout ?? null,
+    passthrough: spec.passthrough ?? false,
+  };
+};
+
+// File name for a rendered cutdown in its export container
+export const exportFileName = (result: VideoCutdownResult): string =>
+  `${result.cutdown_uuid}.${CONTAINERS[result.export?.container ?? 'mp4'].extension}`;
+
+// What a render actually encoded with, after falling back from codecs the runtime can't encode
+export interface EncodingSummary {
+  container: ContainerFormat;
+  videoCodec: ExportVideoCodec | null;
+  audioCodec: ExportAudioCodec | null; // null when the audio track was dropped
+  frameRate?: number; // Set for stitched video
+  notes: string[]; // One line per fallback, for the user
+}
+
+export const describeEncoding = (encoding: EncodingSummary): string =>
+  [
+    CONTAINERS[encoding.container].label,
+    encoding.videoCodec && VIDEO_CODEC_LABELS[encoding.videoCodec],
+    encoding.videoCodec && encoding.frameRate && formatFrameRate(encoding.frameRate),
+    encoding.audioCodec ? AUDIO_CODEC_LABELS[encoding.audioCodec] : 'no audio',
+  ].filter(Boolean).join(' · ');
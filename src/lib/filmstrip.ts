@@ -0,0 +1,67 @@
+import { ALL_FORMATS, CanvasSink, Input } from 'mediabunny';
+import type { MediaInput } from './localFiles';
+import { createMediaSource } from './stitcher/inputs';
+
+export interface FilmstripOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  tileCount?: number;
+  tileHeight?: number; // Pixels; the width follows the source's aspect ratio
+}
+
+// Where each thumbnail sits in the sprite, left to right
+export interface FilmstripLayout {
+  durationSec: number;
+  tileWidth: number;
+  tileHeight: number;
+  timestamps: number[]; // Source time of each tile, in seconds
+}
+
+export interface FilmstripResult {
+  buffer: ArrayBuffer;
+  mimeType: string;
+  layout: FilmstripLayout;
+}
+
+const DEFAULT_TILE_COUNT = 24;
+const DEFAULT_TILE_HEIGHT = 54;
+
+// Decodes evenly spaced frames of a source into one JPEG sprite, one tile per frame. Each tile
+// shows the frame at the middle of the stretch of source it stands for.
+export async function renderFilmstrip(source: MediaInput, options: FilmstripOptions = {}): Promise<FilmstripResult> {
+  const { signal, onProgress, tileCount = DEFAULT_TILE_COUNT, tileHeight = DEFAULT_TILE_HEIGHT } = options;
+  signal?.throwIfAborted();
+
+  const input = new Input({ source: createMediaSource(source), formats: ALL_FORMATS });
+  try {
+    const track = await input.getPrimaryVideoTrack();
+    if (!track) throw new Error('The source has no video track');
+    if (!(await track.canDecode())) throw new Error(`The source's video (${track.codec ?? 'unknown codec'}) can't be decoded here`);
+
+    const durationSec = await input.computeDuration();
+    const tileWidth = Math.max(1, Math.round(tileHeight * track.displayWidth / track.displayHeight));
+    const timestamps = Array.from({ length: tileCount }, (_, i) => (i + 0.5) * durationSec / tileCount);
+
+    const sprite = new OffscreenCanvas(tileWidth * tileCount, tileHeight);
+    const context = sprite.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas context for the filmstrip');
+
+    const sink = new CanvasSink(track, { width: tileWidth, height: tileHeight, fit: 'cover', poolSize: 1 });
+    let i = 0;
+    for await (const wrapped of sink.canvasesAtTimestamps(timestamps)) {
+      signal?.throwIfAborted();
+      if (wrapped) context.drawImage(wrapped.canvas, i * tileWidth, 0);
+      i++;
+      onProgress?.(i / tileCount);
+    }
+
+    const blob = await sprite.convertToBlob({ type: 'image/jpeg', quality: 0.75 });
+    return {
+      buffer: await blob.arrayBuffer(),
+      mimeType: blob.type,
+      layout: { durationSec, tileWidth, tileHeight, timestamps },
+    };
+  } finally {
+    input.dispose();
+  }
+}
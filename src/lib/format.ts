@@ -0,0 +1,7 @@
+const MB = 1024 * 1024;
+
+// File sizes in binary units, as the OS file browsers show them
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB`
+  : bytes >= MB ? `${(bytes / MB).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`;
@@ -0,0 +1,67 @@
+// IndexedDB plumbing shared by the stores kept in the browser (the render cache and the project
+// library): one connection per database, opened on first use, promise wrappers for requests and
+// transactions, and change notifications to other tabs and workers over a BroadcastChannel.
+
+export interface IndexedDbOptions {
+  name: string;
+  version: number;
+  label: string; // For error messages, e.g. "render cache"
+  upgrade: (db: IDBDatabase) => void; // Creates the object stores
+  changeChannel: string;
+}
+
+export interface IndexedDb {
+  open: () => Promise<IDBDatabase>;
+  transactionDone: (transaction: IDBTransaction) => Promise<void>;
+  notifyChange: () => void;
+  onChange: (listener: () => void) => (() => void);
+}
+
+export const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDb = ({ name, version, label, upgrade, changeChannel }: IndexedDbOptions): IndexedDb => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error(`Could not open the ${label}`));
+    });
+    // A failed open is retried on the next call rather than remembered
+    database.catch(() => {
+      database = null;
+    });
+    return database;
+  };
+
+  const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error(`A ${label} transaction was aborted`));
+  });
+
+  const notifyChange = () => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(changeChannel);
+    channel.postMessage('changed');
+    channel.close();
+  };
+
+  const onChange = (listener: () => void): (() => void) => {
+    if (typeof BroadcastChannel === 'undefined') return () => {};
+    const channel = new BroadcastChannel(changeChannel);
+    channel.onmessage = () => listener();
+    return () => channel.close();
+  };
+
+  return { open, transactionDone, notifyChange, onChange };
+};
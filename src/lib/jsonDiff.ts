@@ -0,0 +1,46 @@
+import type { JsonPath } from './jsonLocator';
+
+// A field-by-field diff of two JSON values, for comparing project versions. Arrays are compared
+// by index, so a segment moved up shows as changes to both positions.
+
+export type JsonChangeKind = 'added' | 'removed' | 'changed';
+
+export interface JsonChange {
+  kind: JsonChangeKind;
+  path: JsonPath;
+  before?: unknown;
+  after?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const diffJson = (before: unknown, after: unknown, path: JsonPath = []): JsonChange[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) changes.push({ kind: 'removed', path: [...path, i], before: before[i] });
+      else if (i >= before.length) changes.push({ kind: 'added', path: [...path, i], after: after[i] });
+      else changes.push(...diffJson(before[i], after[i], [...path, i]));
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in after)) changes.push({ kind: 'removed', path: [...path, key], before: before[key] });
+      else if (!(key in before)) changes.push({ kind: 'added', path: [...path, key], after: after[key] });
+      else changes.push(...diffJson(before[key], after[key], [...path, key]));
+    }
+    return changes;
+  }
+
+  return before === after ? [] : [{ kind: 'changed', path, before, after }];
+};
+
+// Short form of a value for one line of a diff
+export const summarizeJsonValue = (value: unknown, maxLength = 60): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
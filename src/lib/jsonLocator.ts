@@ -0,0 +1,83 @@
+export type JsonPath = Array<string | number>;
+
+export interface JsonRange {
+  start: number; // Offset of the property key (or the value for array items)
+  end: number;   // Offset just after the value
+}
+
+export const jsonPathKey = (path: JsonPath): string => path.join('/');
+
+// Walks already-valid JSON text and records where every value lives, so that
+// issues found on the parsed object can be pointed back at editor lines.
+export const locateJsonPaths = (text: string): Map<string, JsonRange> => {
+  const ranges = new Map<string, JsonRange>();
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readString = () => {
+    const start = pos;
+    pos++; // Opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    pos++; // Closing quote
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const readValue = (path: JsonPath, rangeStart: number) => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      while (pos < text.length && text[pos] !== '}') {
+        const keyStart = pos;
+        const key = readString();
+        skipWhitespace();
+        pos++; // Colon
+        readValue([...path, key], keyStart);
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (pos < text.length && text[pos] !== ']') {
+        readValue([...path, index], pos);
+        index++;
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      // Numbers, booleans and null
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+
+    ranges.set(jsonPathKey(path), { start: rangeStart, end: pos });
+  };
+
+  skipWhitespace();
+  readValue([], pos);
+  return ranges;
+};
+
+// Falls back to the closest ancestor when the exact path is missing
+// (e.g. a required property that was never written).
+export const findJsonRange = (ranges: Map<string, JsonRange>, path: JsonPath): JsonRange | null => {
+  for (let length = path.length; length >= 0; length--) {
+    const range = ranges.get(jsonPathKey(path.slice(0, length)));
+    if (range) return range;
+  }
+  return null;
+};
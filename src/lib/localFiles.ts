@@ -0,0 +1,108 @@
+import type { LocalFileRef, SourceFile } from '../types';
+import type { SourceProbe } from './probe';
+import { probedMetadata } from './sourceCheck';
+
+// Sources picked from disk are never uploaded. In the JSON they have a `local:<asset_id>` URL and
+// a `local_file` fingerprint; the file itself is bound to the asset_id for the session, and bound
+// again after a reload by dropping or picking the same file.
+
+export const LOCAL_URL_PREFIX = 'local:';
+
+// A source as the renderer opens it: a URL, or a file from disk
+export type MediaInput = string | Blob;
+
+export interface LocalFileBinding {
+  file: File;
+  objectUrl: string; // For <video> elements
+}
+
+export const isLocalSource = (sourceFile: Pick<SourceFile, 'url'>) => sourceFile.url.startsWith(LOCAL_URL_PREFIX);
+
+export const describeLocalSource = (sourceFile: SourceFile) =>
+  `Local file "${sourceFile.local_file?.name ?? sourceFile.asset_id}" (source ${sourceFile.source_id})`;
+
+export const localFileRef = (file: File): LocalFileRef => ({
+  name: file.name,
+  size: file.size,
+  last_modified: file.lastModified,
+});
+
+export const matchesLocalFile = (ref: LocalFileRef, file: File) =>
+  ref.name === file.name && ref.size === file.size && ref.last_modified === file.lastModified;
+
+// A source entry for a file picked from disk, from what the file turned out to contain
+export const sourceFileFromProbe = (sourceId: number, assetId: string, file: File, probe: SourceProbe): SourceFile => ({
+  source_id: sourceId,
+  asset_id: assetId,
+  url: `${LOCAL_URL_PREFIX}${assetId}`,
+  ...probedMetadata(probe),
+  local_file: localFileRef(file),
+});
+
+export const newLocalAssetId = () => `local-${crypto.randomUUID()}`;
+
+// Files bound to local sources for this session, by asset_id. The snapshot is replaced on
+// every change, so components can read it with useSyncExternalStore.
+export class LocalFileRegistry {
+  private bindings: ReadonlyMap<string, LocalFileBinding> = new Map();
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.bindings;
+
+  bind(assetId: string, file: File) {
+    const next = new Map(this.bindings);
+    const previous = next.get(assetId);
+    if (previous) URL.revokeObjectURL(previous.objectUrl);
+    next.set(assetId, { file, objectUrl: URL.createObjectURL(file) });
+    this.replace(next);
+  }
+
+  unbind(assetId: string) {
+    const previous = this.bindings.get(assetId);
+    if (!previous) return;
+    URL.revokeObjectURL(previous.objectUrl);
+    const next = new Map(this.bindings);
+    next.delete(assetId);
+    this.replace(next);
+  }
+
+  getFile = (assetId: string): File | undefined => this.bindings.get(assetId)?.file;
+
+  // The files a render of these sources needs, and the local sources that have none bound
+  filesFor(sourceFiles: SourceFile[]): { files: Record<string, File>; missing: SourceFile[] } {
+    const files: Record<string, File> = {};
+    const missing: SourceFile[] = [];
+    for (const sourceFile of sourceFiles) {
+      if (!isLocalSource(sourceFile)) continue;
+      const file = this.getFile(sourceFile.asset_id);
+      if (file) {
+        files[sourceFile.asset_id] = file;
+      } else {
+        missing.push(sourceFile);
+      }
+    }
+    return { files, missing };
+  }
+
+  private replace(next: ReadonlyMap<string, LocalFileBinding>) {
+    this.bindings = next;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const localFiles = new LocalFileRegistry();
+
+// What to hand the renderer for a source: its URL, or its bound file. Null while unbound.
+export const mediaInputFor = (sourceFile: SourceFile, bindings: ReadonlyMap<string, LocalFileBinding>): MediaInput | null =>
+  isLocalSource(sourceFile) ? bindings.get(sourceFile.asset_id)?.file ?? null : sourceFile.url;
+
+// A URL a <video> element can play the source from. Null while unbound.
+export const playableUrlFor = (sourceFile: SourceFile, bindings: ReadonlyMap<string, LocalFileBinding>): string | null =>
+  isLocalSource(sourceFile) ? bindings.get(sourceFile.asset_id)?.objectUrl ?? null : sourceFile.url;
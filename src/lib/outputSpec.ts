@@ -0,0 +1,81 @@
+import type { AspectRatioPreset, FitMode, Segment, SourceFile, VideoCutdownResult } from '../types';
+
+export const ASPECT_RATIO_PRESETS: Record<AspectRatioPreset, [number, number]> = {
+  '9:16': [9, 16],
+  '1:1': [1, 1],
+  '4:5': [4, 5],
+  '16:9': [16, 9],
+};
+
+// Presets are rendered with this short side, unless every source is smaller (no upscaling)
+const PRESET_SHORT_SIDE = 1080;
+const DEFAULT_BACKGROUND = '#000000';
+// The rate every render used before it could be chosen
+const DEFAULT_FRAME_RATE = 30;
+
+export interface OutputFrameSpec {
+  width: number;
+  height: number;
+  fit: FitMode;
+  backgroundColor: string;
+}
+
+// Encoders want even dimensions (4:2:0 chroma subsampling)
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const usedSourceFiles = (result: VideoCutdownResult) =>
+  result.source_files.filter(sf => result.segments.some(seg => seg.source_id === sf.source_id));
+
+// Output size and default fit for a project. Without an `output` spec, this is the smallest
+// width and height across all used sources, with sources center-cropped to it.
+export const resolveOutputSpec = (result: VideoCutdownResult): OutputFrameSpec => {
+  const spec = result.output ?? {};
+  const sources = usedSourceFiles(result);
+  const fit = spec.fit ?? 'cover';
+  const backgroundColor = spec.background_color ?? DEFAULT_BACKGROUND;
+
+  if (spec.width && spec.height) {
+    return { width: toEven(spec.width), height: toEven(spec.height), fit, backgroundColor };
+  }
+
+  if (spec.aspect_ratio) {
+    const [ratioW, ratioH] = ASPECT_RATIO_PRESETS[spec.aspect_ratio];
+    const largestShortSide = Math.max(0, ...sources.map(sf => Math.min(sf.dimension.width, sf.dimension.height)));
+    const shortSide = Math.min(PRESET_SHORT_SIDE, largestShortSide || PRESET_SHORT_SIDE);
+    const scale = shortSide / Math.min(ratioW, ratioH);
+    return { width: toEven(ratioW * scale), height: toEven(ratioH * scale), fit, backgroundColor };
+  }
+
+  let width = Infinity;
+  let height = Infinity;
+  for (const sf of sources) {
+    width = Math.min(width, sf.dimension.width);
+    height = Math.min(height, sf.dimension.height);
+  }
+
+  // Fallback if no dimensions found (unlikely)
+  if (width === Infinity) width = 1920;
+  if (height === Infinity) height = 1080;
+
+  return { width: toEven(width), height: toEven(height), fit, backgroundColor };
+};
+
+// The source frame rate that covers the most segment time, so the fewest frames are conformed.
+// Ties go to the higher rate. Null when no used source has a usable rate.
+export const dominantFrameRate = (segments: Segment[], sourceFiles: SourceFile[]): number | null => {
+  const totals = new Map<number, number>();
+  for (const segment of segments) {
+    const fps = sourceFiles.find(sf => sf.source_id === segment.source_id)?.fps;
+    if (!fps || !(fps > 0)) continue;
+    totals.set(fps, (totals.get(fps) ?? 0) + Math.max(0, segment.end_ms - segment.start_ms));
+  }
+  let best: [number, number] | null = null;
+  for (const [fps, total] of totals) {
+    if (!best || total > best[1] || (total === best[1] && fps > best[0])) best = [fps, total];
+  }
+  return best?.[0] ?? null;
+};
+
+// Frames per second of the stitched video
+export const resolveOutputFrameRate = (result: VideoCutdownResult): number =>
+  result.export?.frame_rate ?? dominantFrameRate(result.segments, result.source_files) ?? DEFAULT_FRAME_RATE;
@@ -0,0 +1,2 @@
+export { PreviewPlayer } from './player';
+export type { PreviewPlayerOptions } from './player';
@@ -0,0 +1,393 @@
+import { AudioBufferSink, VideoSampleSink, type Source, type VideoSample } from 'mediabunny';
+import type { Segment, SourceFile, VideoCutdownResult } from '../../types';
+import { clampCrop, cropAt } from '../crop';
+import { resolveOutputSpec, type OutputFrameSpec } from '../outputSpec';
+import { computeCutdownTimeline } from '../timeline';
+import { dbToGain } from '../stitcher/audio';
+import { drawFitted } from '../stitcher/framing';
+import { InputCache, createSourceResolver } from '../stitcher/inputs';
+
+export interface PreviewPlayerOptions {
+  // How source files are opened. Defaults to a UrlSource on `SourceFile.url`, or a BlobSource on
+  // the file `getLocalFile` has for a local source.
+  createSource?: (sourceFile: SourceFile) => Source;
+  getLocalFile?: (assetId: string) => Blob | undefined;
+  onTimeUpdate?: (timeSec: number) => void;
+  onPlayingChange?: (playing: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+// A segment placed on the preview timeline
+interface PreviewSegment {
+  segment: Segment;
+  sourceFile: SourceFile;
+  startSec: number; // On the output timeline
+  endSec: number;
+  sourceStartSec: number;
+  sourceEndSec: number;
+}
+
+interface SourceSinks {
+  video: VideoSampleSink | null;
+  audio: AudioBufferSink | null;
+}
+
+// Decoded frames of the segment under the playhead, one ahead of what is shown
+interface VideoCursor {
+  index: number;
+  iterator: AsyncIterator<VideoSample> | null;
+  next: VideoSample | null;
+  pending: boolean;
+  done: boolean;
+}
+
+// How far ahead of the playhead audio is decoded and scheduled
+const AUDIO_LOOKAHEAD_SEC = 1;
+const AUDIO_POLL_MS = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Plays a cutdown straight from its sources: frames are decoded on demand and drawn into a
+// canvas, and audio is decoded ahead of the playhead and scheduled through Web Audio. Ordering,
+// trims, mutes, segment gain, fit and crops apply as they are in the JSON; transitions play as
+// cuts at the start of the incoming segment, and captions and music are left out.
+export class PreviewPlayer {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private options: PreviewPlayerOptions;
+  private inputs: InputCache;
+  private sinks = new Map<number, Promise<SourceSinks>>();
+  private sourceKey = '';
+  private cutdown!: VideoCutdownResult;
+  private spec!: OutputFrameSpec;
+  private segments: PreviewSegment[] = [];
+  private durationSec = 0;
+
+  private audioContext: AudioContext | null = null;
+  private audioNodes: AudioNode[] = [];
+  private playing = false;
+  private startedAtSec = 0; // Timeline position when playback started
+  private startedAtContextSec = 0; // Audio clock at that moment
+  private pausedAtSec = 0;
+  private run = 0; // Bumped on every play, pause and seek so stale async work can tell
+  private frameRequest: number | null = null;
+  private cursor: VideoCursor | null = null;
+
+  constructor(canvas: HTMLCanvasElement, cutdown: VideoCutdownResult, options: PreviewPlayerOptions = {}) {
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas context for the preview');
+    this.canvas = canvas;
+    this.context = context;
+    this.options = options;
+    this.inputs = new InputCache(options.createSource ?? createSourceResolver(options.getLocalFile ?? (() => undefined)));
+    this.load(cutdown);
+    void this.showFrameAt(0);
+  }
+
+  get duration() {
+    return this.durationSec;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get currentTime() {
+    if (!this.playing || !this.audioContext) return this.pausedAtSec;
+    return Math.min(this.durationSec, this.startedAtSec + this.audioContext.currentTime - this.startedAtContextSec);
+  }
+
+  // Index of the segment showing at `timeSec`. Where segments overlap, the later one wins.
+  segmentAt(timeSec: number): number {
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      if (timeSec >= this.segments[i].startSec) return i;
+    }
+    return -1;
+  }
+
+  // Takes up an edited cutdown, keeping the playhead (and playback) where it is
+  update(cutdown: VideoCutdownResult) {
+    const wasPlaying = this.playing;
+    this.halt();
+    this.load(cutdown);
+    this.pausedAtSec = Math.min(this.pausedAtSec, this.durationSec);
+    this.options.onTimeUpdate?.(this.pausedAtSec);
+    if (wasPlaying) {
+      void this.play();
+    } else {
+      void this.showFrameAt(this.pausedAtSec);
+    }
+  }
+
+  // Opens the sources again, e.g. once a local file is bound to one that failed to open
+  reopenSources() {
+    this.sourceKey = '';
+    this.update(this.cutdown);
+  }
+
+  async play() {
+    if (this.playing || this.segments.length === 0) return;
+    this.audioContext ??= new AudioContext();
+    await this.audioContext.resume();
+
+    if (this.pausedAtSec >= this.durationSec) this.pausedAtSec = 0;
+    const run = ++this.run;
+    this.playing = true;
+    this.startedAtSec = this.pausedAtSec;
+    this.startedAtContextSec = this.audioContext.currentTime;
+    this.options.onPlayingChange?.(true);
+
+    this.scheduleAudio(run).catch(this.fail);
+    this.frameRequest = requestAnimationFrame(this.tick);
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.halt();
+    this.options.onPlayingChange?.(false);
+    this.options.onTimeUpdate?.(this.pausedAtSec);
+  }
+
+  async seek(timeSec: number) {
+    const wasPlaying = this.playing;
+    this.halt();
+    this.pausedAtSec = Math.min(this.durationSec, Math.max(0, timeSec));
+    this.options.onTimeUpdate?.(this.pausedAtSec);
+    if (wasPlaying) {
+      await this.play();
+    } else {
+      await this.showFrameAt(this.pausedAtSec);
+    }
+  }
+
+  dispose() {
+    this.halt();
+    this.inputs.dispose();
+    this.sinks.clear();
+    void this.audioContext?.close();
+    this.audioContext = null;
+  }
+
+  private load(cutdown: VideoCutdownResult) {
+    this.cutdown = cutdown;
+    // Sources are reopened only when they change
+    const sourceKey = JSON.stringify(cutdown.source_files.map(({ source_id, url }) => [source_id, url]));
+    if (sourceKey !== this.sourceKey) {
+      this.inputs.dispose();
+      this.sinks.clear();
+      this.sourceKey = sourceKey;
+    }
+
+    this.spec = resolveOutputSpec(cutdown);
+    this.canvas.width = this.spec.width;
+    this.canvas.height = this.spec.height;
+
+    const timeline = computeCutdownTimeline(cutdown.segments);
+    this.durationSec = timeline.durationSec;
+    this.segments = [];
+    cutdown.segments.forEach((segment, i) => {
+      const sourceFile = cutdown.source_files.find(s => s.source_id === segment.source_id);
+      if (!sourceFile) return;
+      const entry = timeline.entries[i];
+      this.segments.push({
+        segment,
+        sourceFile,
+        startSec: entry.startSec,
+        endSec: entry.startSec + entry.durationSec,
+        sourceStartSec: segment.start_ms / 1000,
+        sourceEndSec: segment.end_ms / 1000,
+      });
+    });
+  }
+
+  // Stops playback without telling the listeners
+  private halt() {
+    if (this.playing) this.pausedAtSec = this.currentTime;
+    this.playing = false;
+    this.run++;
+    if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = null;
+    for (const node of this.audioNodes) {
+      if (node instanceof AudioScheduledSourceNode) node.stop();
+      node.disconnect();
+    }
+    this.audioNodes = [];
+    this.closeCursor();
+  }
+
+  private fail = (err: unknown) => {
+    this.options.onError?.(err instanceof Error ? err.message : String(err));
+  };
+
+  private sinksFor(sourceFile: SourceFile): Promise<SourceSinks> {
+    let sinks = this.sinks.get(sourceFile.source_id);
+    if (!sinks) {
+      const input = this.inputs.get(sourceFile);
+      sinks = (async () => {
+        const [videoTrack, audioTrack] = await Promise.all([input.getPrimaryVideoTrack(), input.getPrimaryAudioTrack()]);
+        return {
+          video: videoTrack && await videoTrack.canDecode() ? new VideoSampleSink(videoTrack) : null,
+          audio: audioTrack && await audioTrack.canDecode() ? new AudioBufferSink(audioTrack) : null,
+        };
+      })();
+      this.sinks.set(sourceFile.source_id, sinks);
+    }
+    return sinks;
+  }
+
+  private draw(sample: VideoSample, placed: PreviewSegment) {
+    const { segment } = placed;
+    const offsetMs = Math.max(0, sample.timestamp - placed.sourceStartSec) * 1000;
+    const crop = segment.crop && clampCrop(cropAt(segment.crop, offsetMs), sample.displayWidth, sample.displayHeight);
+    drawFitted(this.context, sample, this.spec, segment.fit ?? this.spec.fit, crop);
+  }
+
+  private clear() {
+    this.context.fillStyle = this.spec.backgroundColor;
+    this.context.fillRect(0, 0, this.spec.width, this.spec.height);
+  }
+
+  // Draws the single frame under a paused playhead
+  private async showFrameAt(timeSec: number) {
+    const run = this.run;
+    const index = this.segmentAt(timeSec);
+    if (index < 0) {
+      this.clear();
+      return;
+    }
+    const placed = this.segments[index];
+    try {
+      const { video } = await this.sinksFor(placed.sourceFile);
+      const sourceTime = Math.min(placed.sourceEndSec, placed.sourceStartSec + timeSec - placed.startSec);
+      const sample = video && await video.getSample(sourceTime);
+      if (run !== this.run) {
+        sample?.close();
+        return;
+      }
+      if (sample) {
+        this.draw(sample, placed);
+        sample.close();
+      } else {
+        this.clear();
+      }
+    } catch (err) {
+      this.fail(err);
+    }
+  }
+
+  private tick = () => {
+    if (!this.playing) return;
+    const time = this.currentTime;
+    this.options.onTimeUpdate?.(time);
+    if (time >= this.durationSec) {
+      this.pause();
+      return;
+    }
+    this.advanceVideo(time);
+    this.frameRequest = requestAnimationFrame(this.tick);
+  };
+
+  private closeCursor() {
+    if (!this.cursor) return;
+    this.cursor.next?.close();
+    void this.cursor.iterator?.return?.();
+    this.cursor = null;
+  }
+
+  // Shows the newest decoded frame that has started by `timeSec` and asks for the one after it
+  private advanceVideo(timeSec: number) {
+    const index = this.segmentAt(timeSec);
+    if (index < 0) return;
+    const placed = this.segments[index];
+    const sourceTime = placed.sourceStartSec + timeSec - placed.startSec;
+
+    if (this.cursor?.index !== index) {
+      this.closeCursor();
+      const cursor: VideoCursor = { index, iterator: null, next: null, pending: true, done: false };
+      this.cursor = cursor;
+      this.sinksFor(placed.sourceFile).then(({ video }) => {
+        if (this.cursor !== cursor) return;
+        cursor.pending = false;
+        if (!video) {
+          cursor.done = true;
+          this.clear();
+          return;
+        }
+        cursor.iterator = video.samples(sourceTime, placed.sourceEndSec)[Symbol.asyncIterator]();
+      }).catch(this.fail);
+      return;
+    }
+
+    const cursor = this.cursor;
+    if (cursor.next && cursor.next.timestamp <= sourceTime) {
+      this.draw(cursor.next, placed);
+      cursor.next.close();
+      cursor.next = null;
+    }
+    if (cursor.next || cursor.pending || cursor.done || !cursor.iterator) return;
+
+    cursor.pending = true;
+    const iterator = cursor.iterator;
+    const pull = async () => {
+      for (;;) {
+        const result = await iterator.next();
+        if (this.cursor !== cursor) {
+          result.value?.close();
+          return;
+        }
+        if (result.done) {
+          cursor.done = true;
+          break;
+        }
+        // Frames that ended while decoding fell behind are dropped, not shown late
+        const sample = result.value;
+        const now = placed.sourceStartSec + this.currentTime - placed.startSec;
+        if (sample.timestamp + sample.duration < now) {
+          sample.close();
+          continue;
+        }
+        cursor.next = sample;
+        break;
+      }
+      cursor.pending = false;
+    };
+    pull().catch(this.fail);
+  }
+
+  // Schedules every unmuted segment's audio from the playhead on, staying a little ahead of it
+  private async scheduleAudio(run: number) {
+    const audioContext = this.audioContext;
+    if (!audioContext) return;
+    const contextTimeAt = (timeSec: number) => this.startedAtContextSec + timeSec - this.startedAtSec;
+
+    for (const placed of this.segments) {
+      if (placed.endSec <= this.startedAtSec || placed.segment.muted) continue;
+      const { audio } = await this.sinksFor(placed.sourceFile);
+      if (run !== this.run) return;
+      if (!audio) continue;
+
+      const from = Math.max(placed.startSec, this.startedAtSec);
+      const gain = audioContext.createGain();
+      gain.gain.value = dbToGain(placed.segment.gain_db ?? 0);
+      gain.connect(audioContext.destination);
+      this.audioNodes.push(gain);
+
+      for await (const { buffer, timestamp } of audio.buffers(placed.sourceStartSec + from - placed.startSec, placed.sourceEndSec)) {
+        if (run !== this.run) return;
+        const bufferStart = placed.startSec + timestamp - placed.sourceStartSec;
+        const start = Math.max(bufferStart, from, this.currentTime);
+        const end = Math.min(bufferStart + buffer.duration, placed.endSec);
+        if (end > start) {
+          const node = audioContext.createBufferSource();
+          node.buffer = buffer;
+          node.connect(gain);
+          node.start(contextTimeAt(start), start - bufferStart, end - start);
+          this.audioNodes.push(node);
+        }
+        while (run === this.run && bufferStart - this.currentTime > AUDIO_LOOKAHEAD_SEC) {
+          await sleep(AUDIO_POLL_MS);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { ALL_FORMATS, Input } from 'mediabunny';
+import type { MediaInput } from './localFiles';
+import { createMediaSource } from './stitcher/inputs';
+
+// What a source actually contains, read from the file rather than taken from the JSON
+export interface SourceProbe {
+  durationSec: number;
+  width: number | null; // Display size; null without a video track
+  height: number | null;
+  rotation: number; // Clockwise degrees the video is turned for display; 0 without a video track
+  fps: number | null; // Average over the first packets
+  videoCodec: string | null;
+  audioCodec: string | null;
+  sampleRate: number | null;
+  numberOfChannels: number | null;
+}
+
+// Packets read to estimate the frame rate
+const FPS_SAMPLE_PACKETS = 120;
+
+export async function probeSource(source: MediaInput, signal?: AbortSignal): Promise<SourceProbe> {
+  signal?.throwIfAborted();
+  const input = new Input({ source: createMediaSource(source), formats: ALL_FORMATS });
+  try {
+    const [videoTrack, audioTrack, durationSec] = await Promise.all([
+      input.getPrimaryVideoTrack(),
+      input.getPrimaryAudioTrack(),
+      input.computeDuration(),
+    ]);
+    signal?.throwIfAborted();
+    const stats = videoTrack && await videoTrack.computePacketStats(FPS_SAMPLE_PACKETS);
+
+    return {
+      durationSec,
+      width: videoTrack?.displayWidth ?? null,
+      height: videoTrack?.displayHeight ?? null,
+      rotation: videoTrack?.rotation ?? 0,
+      fps: stats && stats.averagePacketRate > 0 ? stats.averagePacketRate : null,
+      videoCodec: videoTrack?.codec ?? null,
+      audioCodec: audioTrack?.codec ?? null,
+      sampleRate: audioTrack?.sampleRate ?? null,
+      numberOfChannels: audioTrack?.numberOfChannels ?? null,
+    };
+  } finally {
+    input.dispose();
+  }
+}
@@ -0,0 +1,55 @@
+import type { SampleData } from '../types';
+
+// Project files for sharing cutdowns: a single `SampleData` object, or an array of them like the
+// bundled `video_cutdown_results.json`.
+
+const isSampleData = (value: unknown): value is SampleData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  typeof (value as SampleData).video_cutdown_result === 'object' && (value as SampleData).video_cutdown_result !== null;
+
+// The projects in a file's text. Throws when it isn't one or more projects; the contents are
+// left to the validator once a project is opened.
+export const parseProjectFile = (text: string): SampleData[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The file isn't valid JSON: ${(e as Error).message}`);
+  }
+
+  const entries = Array.isArray(data) ? data : [data];
+  if (entries.length === 0) throw new Error('The file holds no projects');
+  entries.forEach((entry, index) => {
+    if (!isSampleData(entry)) {
+      throw new Error(`${Array.isArray(data) ? `Entry ${index}` : 'The file'} has no "video_cutdown_result" object`);
+    }
+  });
+  return entries as SampleData[];
+};
+
+export const projectName = (data: SampleData, fallback: string) =>
+  typeof data.video_cutdown_result.project_name === 'string' && data.video_cutdown_result.project_name.trim() !== ''
+    ? data.video_cutdown_result.project_name
+    : fallback;
+
+// One project is written as an object, several as an array
+export const formatProjectFile = (projects: SampleData[]): string =>
+  JSON.stringify(projects.length === 1 ? projects[0] : projects, null, 2);
+
+export const projectFileName = (name: string) =>
+  `${name.trim().replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'project'}.json`;
+
+// A new, empty cutdown to start from
+export const blankProject = (name: string): SampleData => ({
+  video_cutdown_result: {
+    project_name: name,
+    total_duration_sec: 0,
+    source_files: [],
+    segments: [],
+    cutdown_uuid: crypto.randomUUID(),
+    client_id: 0,
+    user_id: '',
+    chat_id: '',
+    total_scenes: 0,
+  },
+});
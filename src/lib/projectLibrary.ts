@@ -0,0 +1,165 @@
+import { createIndexedDb, requestResult } from './indexedDb';
+
+// The project library: cutdowns kept in IndexedDB with their editor drafts and a version history.
+// Drafts are the editor's text as typed, so unfinished (even invalid) JSON survives a reload.
+// Versions are snapshots taken on Execute or on request, for diff and restore.
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  json: string; // The editor's text
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectVersion {
+  id: number;
+  projectId: string;
+  label: string;
+  json: string;
+  createdAt: number;
+}
+
+// Oldest versions beyond this are dropped
+export const MAX_VERSIONS = 50;
+
+const DB_NAME = 'stitching-projects';
+const DB_VERSION = 1;
+const PROJECTS = 'projects'; // ProjectRecord by id
+const VERSIONS = 'versions'; // ProjectVersion by auto-incremented id
+const BY_PROJECT = 'projectId';
+const CONFIG = 'config';
+const SEEDED_KEY = 'seeded';
+
+// Changes are announced to other tabs when projects or versions change
+const { open: openDatabase, transactionDone, notifyChange, onChange } = createIndexedDb({
+  name: DB_NAME,
+  version: DB_VERSION,
+  label: 'project library',
+  upgrade: (db) => {
+    db.createObjectStore(PROJECTS, { keyPath: 'id' });
+    db.createObjectStore(VERSIONS, { keyPath: 'id', autoIncrement: true }).createIndex(BY_PROJECT, 'projectId');
+    db.createObjectStore(CONFIG);
+  },
+  changeChannel: 'stitching-projects',
+});
+
+export const onProjectLibraryChange = onChange;
+
+const versionsOf = async (db: IDBDatabase, projectId: string): Promise<ProjectVersion[]> => {
+  const index = db.transaction(VERSIONS).objectStore(VERSIONS).index(BY_PROJECT);
+  const versions = await requestResult(index.getAll(projectId) as IDBRequest<ProjectVersion[]>);
+  return versions.sort((a, b) => b.createdAt - a.createdAt || b.id - a.id);
+};
+
+// In the order they were created, so the bundled samples keep their order
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const db = await openDatabase();
+  const projects = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>);
+  return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getProject = async (id: string): Promise<ProjectRecord | null> => {
+  const db = await openDatabase();
+  const project = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>);
+  return project ?? null;
+};
+
+// Adds a project with `json` as its draft and first version
+export const createProject = async (name: string, json: string, versionLabel = 'Created'): Promise<ProjectRecord> => {
+  const db = await openDatabase();
+  const now = Date.now();
+  const project: ProjectRecord = { id: crypto.randomUUID(), name, json, createdAt: now, updatedAt: now };
+  const transaction = db.transaction([PROJECTS, VERSIONS], 'readwrite');
+  transaction.objectStore(PROJECTS).put(project);
+  transaction.objectStore(VERSIONS).add({ projectId: project.id, label: versionLabel, json, createdAt: now });
+  await transactionDone(transaction);
+  notifyChange();
+  return project;
+};
+
+// Fills an empty library with the given projects, once. Deleting them all later leaves it empty.
+export const seedProjects = async (projects: { name: string; json: string }[]): Promise<boolean> => {
+  const db = await openDatabase();
+  const seeded = await requestResult(db.transaction(CONFIG).objectStore(CONFIG).get(SEEDED_KEY));
+  if (seeded) return false;
+
+  const now = Date.now();
+  const transaction = db.transaction([PROJECTS, VERSIONS, CONFIG], 'readwrite');
+  projects.forEach(({ name, json }, i) => {
+    // One ms apart, so creation order is list order
+    const createdAt = now + i;
+    const id = crypto.randomUUID();
+    transaction.objectStore(PROJECTS).put({ id, name, json, createdAt, updatedAt: createdAt });
+    transaction.objectStore(VERSIONS).add({ projectId: id, label: 'Bundled sample', json, createdAt });
+  });
+  transaction.objectStore(CONFIG).put(true, SEEDED_KEY);
+  await transactionDone(transaction);
+  notifyChange();
+  return true;
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const project = await getProject(id);
+  if (!project) throw new Error('The project no longer exists');
+  return createProject(`${project.name} (copy)`, project.json, `Duplicated from ${project.name}`);
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const project = await getProject(id);
+  if (!project) throw new Error('The project no longer exists');
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS, 'readwrite');
+  transaction.objectStore(PROJECTS).put({ ...project, name, updatedAt: Date.now() });
+  await transactionDone(transaction);
+  notifyChange();
+};
+
+// Removes a project with its whole version history
+export const deleteProject = async (id: string) => {
+  const db = await openDatabase();
+  const versions = await versionsOf(db, id);
+  const transaction = db.transaction([PROJECTS, VERSIONS], 'readwrite');
+  transaction.objectStore(PROJECTS).delete(id);
+  for (const version of versions) transaction.objectStore(VERSIONS).delete(version.id);
+  await transactionDone(transaction);
+  notifyChange();
+};
+
+// Autosave: replaces the draft without adding a version
+export const saveDraft = async (id: string, json: string) => {
+  const project = await getProject(id);
+  if (!project || project.json === json) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS, 'readwrite');
+  transaction.objectStore(PROJECTS).put({ ...project, json, updatedAt: Date.now() });
+  await transactionDone(transaction);
+  notifyChange();
+};
+
+export const listVersions = async (projectId: string): Promise<ProjectVersion[]> => versionsOf(await openDatabase(), projectId);
+
+// Snapshots `json` unless it is what the latest version already holds. Resolves the new version,
+// or null when nothing changed.
+export const saveVersion = async (projectId: string, json: string, label: string): Promise<ProjectVersion | null> => {
+  const db = await openDatabase();
+  const versions = await versionsOf(db, projectId);
+  if (versions[0]?.json === json) return null;
+
+  const entry = { projectId, label, json, createdAt: Date.now() };
+  const transaction = db.transaction(VERSIONS, 'readwrite');
+  const store = transaction.objectStore(VERSIONS);
+  for (const old of versions.slice(MAX_VERSIONS - 1)) store.delete(old.id);
+  const added = store.add(entry);
+  await transactionDone(transaction);
+  notifyChange();
+  return { id: added.result as number, ...entry };
+};
+
+export const deleteVersion = async (id: number) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(VERSIONS, 'readwrite');
+  transaction.objectStore(VERSIONS).delete(id);
+  await transactionDone(transaction);
+  notifyChange();
+};
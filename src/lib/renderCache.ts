@@ -0,0 +1,171 @@
+import type { ExportSettings, Segment } from '../types';
+import { resolveExportSettings, type EncodingSummary } from './exportSettings';
+import { createIndexedDb, requestResult } from './indexedDb';
+
+// Trimmed segment files kept in IndexedDB across reloads and re-executes. Entries are addressed
+// by a hash of everything that changes the file, so an edit to one segment leaves the others'
+// renders usable. Both the page and the render worker open the same database.
+
+export interface RenderCacheEntry {
+  key: string;
+  label: string; // For the cache panel, e.g. the segment's purpose
+  source: string; // asset_id, or the URL when there is none
+  startMs: number;
+  endMs: number;
+  muted: boolean;
+  mimeType: string;
+  size: number; // Bytes
+  encoding: EncodingSummary;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export type NewRenderCacheEntry = Omit<RenderCacheEntry, 'size' | 'createdAt' | 'lastUsedAt' | 'hits'>;
+
+export const DEFAULT_CACHE_LIMIT_BYTES = 512 * 1024 * 1024;
+
+// Bumped when the trimming pipeline changes what it writes, so older files are not reused
+const CACHE_VERSION = 1;
+
+const DB_NAME = 'stitching-render-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries'; // RenderCacheEntry by key
+const FILES = 'files'; // Blob by key, kept apart so listing doesn't load the files
+const CONFIG = 'config';
+const LIMIT_KEY = 'limitBytes';
+
+// Changes are announced to open cache panels (in any tab) when entries are added or removed
+const { open: openDatabase, transactionDone, notifyChange, onChange } = createIndexedDb({
+  name: DB_NAME,
+  version: DB_VERSION,
+  label: 'render cache',
+  upgrade: (db) => {
+    db.createObjectStore(ENTRIES, { keyPath: 'key' });
+    db.createObjectStore(FILES);
+    db.createObjectStore(CONFIG);
+  },
+  changeChannel: 'stitching-render-cache',
+});
+
+export const onRenderCacheChange = onChange;
+
+// Trims keep their source's frame rate, so the output rate doesn't change them
+const trimSettings = (exportSettings: ExportSettings | undefined) =>
+  ({ ...resolveExportSettings(exportSettings), frameRate: null, frameBlending: false });
+
+// Key for a segment trimmed from `source` with the given export settings
+export const segmentCacheKey = async (
+  segment: Segment,
+  source: { url: string; assetId?: string },
+  exportSettings: ExportSettings | undefined
+): Promise<string> => {
+  const identity = JSON.stringify({
+    version: CACHE_VERSION,
+    source: source.assetId || source.url,
+    startMs: segment.start_ms,
+    endMs: segment.end_ms,
+    muted: Boolean(segment.muted),
+    export: trimSettings(exportSettings),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(identity));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const listCachedRenders = async (): Promise<RenderCacheEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).getAll() as IDBRequest<RenderCacheEntry[]>);
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const getCacheLimit = async (): Promise<number> => {
+  const db = await openDatabase();
+  const limit = await requestResult(db.transaction(CONFIG).objectStore(CONFIG).get(LIMIT_KEY));
+  return typeof limit === 'number' ? limit : DEFAULT_CACHE_LIMIT_BYTES;
+};
+
+// Drops the least recently used entries until the cache fits `limitBytes`
+const evict = async (limitBytes: number, keep?: string) => {
+  const entries = await listCachedRenders();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const victims: string[] = [];
+  for (const entry of [...entries].reverse()) {
+    if (total <= limitBytes) break;
+    if (entry.key === keep) continue;
+    victims.push(entry.key);
+    total -= entry.size;
+  }
+  if (victims.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+  for (const key of victims) {
+    transaction.objectStore(ENTRIES).delete(key);
+    transaction.objectStore(FILES).delete(key);
+  }
+  await transactionDone(transaction);
+};
+
+export const setCacheLimit = async (limitBytes: number) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CONFIG, 'readwrite');
+  transaction.objectStore(CONFIG).put(limitBytes, LIMIT_KEY);
+  await transactionDone(transaction);
+  await evict(limitBytes);
+  notifyChange();
+};
+
+// Looks a render up and marks it as just used. Resolves null on a miss. Hits aren't announced:
+// one Execute can hit every segment, and open panels pick the counts up with the next write.
+export const readCachedRender = async (key: string): Promise<{ entry: RenderCacheEntry; blob: Blob } | null> => {
+  const db = await openDatabase();
+  const reading = db.transaction([ENTRIES, FILES]);
+  const [entry, blob] = await Promise.all([
+    requestResult(reading.objectStore(ENTRIES).get(key) as IDBRequest<RenderCacheEntry | undefined>),
+    requestResult(reading.objectStore(FILES).get(key) as IDBRequest<Blob | undefined>),
+  ]);
+  if (!entry || !blob) return null;
+
+  const used = { ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 };
+  const writing = db.transaction(ENTRIES, 'readwrite');
+  writing.objectStore(ENTRIES).put(used);
+  await transactionDone(writing);
+  return { entry: used, blob };
+};
+
+// Stores a render, then evicts older ones to stay within the limit. A file larger than the
+// whole limit is not stored; resolves whether it was.
+export const writeCachedRender = async (newEntry: NewRenderCacheEntry, data: Blob): Promise<boolean> => {
+  const limitBytes = await getCacheLimit();
+  if (data.size > limitBytes) return false;
+
+  const db = await openDatabase();
+  const now = Date.now();
+  const entry: RenderCacheEntry = { ...newEntry, size: data.size, createdAt: now, lastUsedAt: now, hits: 0 };
+  const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+  transaction.objectStore(ENTRIES).put(entry);
+  transaction.objectStore(FILES).put(data, entry.key);
+  await transactionDone(transaction);
+
+  await evict(limitBytes, entry.key);
+  notifyChange();
+  return true;
+};
+
+export const deleteCachedRender = async (key: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+  transaction.objectStore(ENTRIES).delete(key);
+  transaction.objectStore(FILES).delete(key);
+  await transactionDone(transaction);
+  notifyChange();
+};
+
+export const clearRenderCache = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+  transaction.objectStore(ENTRIES).clear();
+  transaction.objectStore(FILES).clear();
+  await transactionDone(transaction);
+  notifyChange();
+};
@@ -0,0 +1,64 @@
+// Where exports are written. In memory, the whole file is held (twice, once handed over from the
+// worker); long renders can instead stream straight into a file on disk, either one the user
+// picks (File System Access) or one in the origin private file system (OPFS).
+
+export type RenderDestination = 'memory' | 'opfs' | 'file';
+
+export const RENDER_DESTINATION_LABELS: Record<RenderDestination, string> = {
+  memory: 'Memory',
+  opfs: 'Browser storage',
+  file: 'File on disk...',
+};
+
+const RENDERS_DIRECTORY = 'renders';
+
+// Chromium only, and not in TypeScript's DOM types yet
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+const saveFilePicker = (): SaveFilePicker | undefined =>
+  typeof window === 'undefined' ? undefined : (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+export const availableDestinations = (): RenderDestination[] => [
+  ...(typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function' ? ['opfs' as const] : []),
+  ...(saveFilePicker() ? ['file' as const] : []),
+  'memory',
+];
+
+// Resolves the handle the worker writes into, or null for in-memory renders and a dismissed picker
+export const openRenderFile = async (destination: RenderDestination, suggestedName: string): Promise<FileSystemFileHandle | null> => {
+  // Each render gets its own file, so one still playing isn't overwritten by the next
+  if (destination === 'opfs') {
+    const root = await navigator.storage.getDirectory();
+    const directory = await root.getDirectoryHandle(RENDERS_DIRECTORY, { create: true });
+    return directory.getFileHandle(`${crypto.randomUUID()}-${suggestedName}`, { create: true });
+  }
+
+  if (destination === 'file') {
+    const pick = saveFilePicker();
+    if (!pick) throw new Error('This browser can\'t save files directly to disk');
+    try {
+      return await pick({ suggestedName });
+    } catch (err: unknown) {
+      if (err instanceof DOMException && err.name === 'AbortError') return null;
+      throw err;
+    }
+  }
+
+  return null;
+};
+
+// Deletes a render from browser storage once nothing plays or downloads it any more
+export const removeRenderFile = async (handle: FileSystemFileHandle) => {
+  const root = await navigator.storage.getDirectory();
+  const directory = await root.getDirectoryHandle(RENDERS_DIRECTORY);
+  await directory.removeEntry(handle.name);
+};
+
+// Time left at the rate so far, once there is enough progress to go on
+export const estimateRemainingMs = (progress: number, elapsedMs: number): number | null =>
+  progress >= 0.02 && progress < 1 ? elapsedMs * (1 - progress) / progress : null;
+
+export const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
@@ -0,0 +1,121 @@
+import type { Segment, SourceFile, VideoCutdownResult } from '../types';
+import type { SourceProbe } from './probe';
+
+// Compares what `source_files` says about each source with what a probe found in the media
+// itself, and finds the segments that reach past the real end of their source.
+
+// A probe of one source, kept with the URL it was made from so it goes stale when the URL changes
+export interface ProbedSource {
+  url: string;
+  probe: SourceProbe | null;
+  error: string | null;
+}
+
+export type ProbedSources = Record<number, ProbedSource>; // By source_id
+
+export type CheckedField = 'duration_sec' | 'duration_ms' | 'fps' | 'dimension';
+
+export interface SourceFieldCheck {
+  field: CheckedField;
+  json: string;
+  media: string;
+  matches: boolean;
+}
+
+export interface SegmentOutsideMedia {
+  index: number;
+  segment: Segment;
+  mediaDurationMs: number;
+  reason: string;
+}
+
+// The JSON rounds durations, and a frame rate averaged over the first packets wobbles a little
+const DURATION_TOLERANCE_MS = 50;
+const FPS_TOLERANCE = 0.05;
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// The `source_files` fields as the media has them
+export const probedMetadata = (probe: SourceProbe): Pick<SourceFile, CheckedField> => {
+  const durationMs = Math.round(probe.durationSec * 1000);
+  return {
+    duration_sec: durationMs / 1000,
+    duration_ms: durationMs,
+    fps: probe.fps ? roundTo(probe.fps, 3) : 30,
+    dimension: { width: probe.width ?? 0, height: probe.height ?? 0 },
+  };
+};
+
+// The probe of a source, unless it was made from another URL
+export const currentProbe = (probes: ProbedSources, sourceFile: SourceFile): SourceProbe | null => {
+  const probed = probes[sourceFile.source_id];
+  return probed?.url === sourceFile.url ? probed.probe : null;
+};
+
+export const compareSourceFile = (sourceFile: SourceFile, probe: SourceProbe): SourceFieldCheck[] => {
+  const media = probedMetadata(probe);
+  const checks: SourceFieldCheck[] = [
+    {
+      field: 'duration_sec',
+      json: `${sourceFile.duration_sec}s`,
+      media: `${media.duration_sec}s`,
+      matches: Math.abs(sourceFile.duration_sec * 1000 - media.duration_ms) <= DURATION_TOLERANCE_MS,
+    },
+    {
+      field: 'duration_ms',
+      json: `${sourceFile.duration_ms}ms`,
+      media: `${media.duration_ms}ms`,
+      matches: Math.abs(sourceFile.duration_ms - media.duration_ms) <= DURATION_TOLERANCE_MS,
+    },
+  ];
+  if (probe.fps !== null) {
+    checks.push({
+      field: 'fps',
+      json: `${sourceFile.fps}`,
+      media: `${media.fps}`,
+      matches: Math.abs(sourceFile.fps - probe.fps) <= FPS_TOLERANCE,
+    });
+  }
+  if (probe.width !== null && probe.height !== null) {
+    const { width, height } = sourceFile.dimension ?? { width: 0, height: 0 };
+    checks.push({
+      field: 'dimension',
+      json: `${width}×${height}`,
+      media: `${probe.width}×${probe.height}`,
+      matches: width === probe.width && height === probe.height,
+    });
+  }
+  return checks;
+};
+
+// Rewrites a source's metadata from its probe, in the shape `updateCutdownJson` expects
+export const rewriteSourceMetadata = (cutdown: VideoCutdownResult, sourceId: number, probe: SourceProbe): string | void => {
+  const sourceFile = cutdown.source_files?.find(s => s.source_id === sourceId);
+  if (!sourceFile) return `source ${sourceId} is no longer in the JSON`;
+  const media = probedMetadata(probe);
+  sourceFile.duration_sec = media.duration_sec;
+  sourceFile.duration_ms = media.duration_ms;
+  if (probe.fps !== null) sourceFile.fps = media.fps;
+  if (probe.width !== null && probe.height !== null) sourceFile.dimension = media.dimension;
+};
+
+// Segments whose range starts or ends past the real end of their source, by segment index
+export const segmentsOutsideMedia = (
+  segments: Segment[],
+  sourceFiles: SourceFile[],
+  probes: ProbedSources
+): SegmentOutsideMedia[] => {
+  const outside: SegmentOutsideMedia[] = [];
+  segments.forEach((segment, index) => {
+    const sourceFile = sourceFiles.find(s => s.source_id === segment.source_id);
+    const probe = sourceFile && currentProbe(probes, sourceFile);
+    if (!probe) return;
+    const mediaDurationMs = Math.round(probe.durationSec * 1000);
+    if (segment.end_ms <= mediaDurationMs + DURATION_TOLERANCE_MS) return;
+    const reason = segment.start_ms >= mediaDurationMs
+      ? `starts after the source ends (${mediaDurationMs}ms)`
+      : `ends ${segment.end_ms - mediaDurationMs}ms after the source (${mediaDurationMs}ms)`;
+    outside.push({ index, segment, mediaDurationMs, reason });
+  });
+  return outside;
+};
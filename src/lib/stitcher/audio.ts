@@ -0,0 +1,230 @@
+import { AudioSample, AudioSampleSink, type AudioSampleSource, type InputAudioTrack } from 'mediabunny';
+import type { Segment } from '../../types';
+import type { TimelineEntry } from '../timeline';
+import { mixChannels } from './channels';
+import type { MusicBed } from './music';
+import { Resampler } from './resample';
+
+export interface PcmFormat {
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+// Short fade applied at hard cuts so butt-joined audio doesn't click
+export const BOUNDARY_FADE_SEC = 0.005;
+
+// Emit encoder input in chunks of this many seconds
+const WRITE_CHUNK_SEC = 1;
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+
+export interface SegmentAudio {
+  pcm: Float32Array<ArrayBuffer>;
+  // Frames of `pcm` that hold decoded audio; everything else is silence padding
+  contentStartFrame: number | null;
+  contentEndFrame: number | null;
+  contentFrames: number;
+}
+
+// Gaps between consecutive buffers up to this long are treated as timestamp jitter, and the
+// resampler keeps streaming; longer ones restart it at the buffer's own position.
+const RESYNC_SEC = 0.01;
+
+interface SourceStream {
+  resampler: Resampler | null; // null when the source is already at the target rate
+  sampleRate: number;
+  frame: number; // Where the stream's next output frame lands in the segment
+  nextSec: number; // Where the next contiguous buffer would start in the source
+}
+
+// Decodes [startSec, endSec) of an audio track into interleaved f32 PCM of exactly `frameCount`
+// frames at the target format. Each buffer is mixed to the target layout, then resampled as part
+// of one continuous stream so buffer edges don't click. Streams start at a buffer's own timestamp,
+// so audio before the cut is trimmed to the sample and gaps in the source stay silent.
+export const readSegmentAudio = async (
+  track: InputAudioTrack,
+  startSec: number,
+  endSec: number,
+  frameCount: number,
+  format: PcmFormat,
+  signal?: AbortSignal
+): Promise<SegmentAudio> => {
+  const { sampleRate, numberOfChannels } = format;
+  const pcm = new Float32Array(frameCount * numberOfChannels);
+  const sink = new AudioSampleSink(track);
+  const toFrame = (sec: number) => Math.round((sec - startSec) * sampleRate);
+  let stream: SourceStream | null = null;
+  let contentStartFrame: number | null = null;
+  let contentEndFrame: number | null = null;
+  let contentFrames = 0;
+
+  // Writes output frames at the stream's position; frames before the cut or past the end are dropped
+  const place = (current: SourceStream, data: Float32Array) => {
+    const total = data.length / numberOfChannels;
+    const skip = Math.max(0, -current.frame);
+    const from = Math.max(0, current.frame);
+    const frames = Math.min(total - skip, frameCount - from);
+    if (frames > 0) {
+      pcm.set(data.subarray(skip * numberOfChannels, (skip + frames) * numberOfChannels), from * numberOfChannels);
+      contentStartFrame = Math.min(contentStartFrame ?? from, from);
+      contentEndFrame = Math.max(contentEndFrame ?? 0, from + frames);
+      contentFrames += frames;
+    }
+    current.frame += total;
+  };
+
+  const endStream = () => {
+    if (stream?.resampler) place(stream, stream.resampler.flush());
+    stream = null;
+  };
+
+  for await (const sample of sink.samples(startSec, endSec)) {
+    if (signal?.aborted) {
+      sample.close();
+      break;
+    }
+    if (sample.timestamp >= endSec) {
+      sample.close();
+      continue;
+    }
+
+    const data = new Float32Array(sample.numberOfFrames * sample.numberOfChannels);
+    sample.copyTo(data, { planeIndex: 0, format: 'f32' });
+    const mixed = mixChannels(data, sample.numberOfChannels, numberOfChannels);
+
+    if (!stream || stream.sampleRate !== sample.sampleRate || Math.abs(sample.timestamp - stream.nextSec) > RESYNC_SEC) {
+      endStream();
+      stream = {
+        resampler: sample.sampleRate !== sampleRate ? new Resampler(sample.sampleRate, sampleRate, numberOfChannels) : null,
+        sampleRate: sample.sampleRate,
+        frame: toFrame(sample.timestamp),
+        nextSec: sample.timestamp,
+      };
+    }
+    place(stream, stream.resampler ? stream.resampler.push(mixed) : mixed);
+    stream.nextSec = sample.timestamp + sample.duration;
+    sample.close();
+  }
+  endStream();
+
+  signal?.throwIfAborted();
+  return { pcm, contentStartFrame, contentEndFrame, contentFrames: Math.min(contentFrames, frameCount) };
+};
+
+const applyGain = (
+  pcm: Float32Array,
+  numberOfChannels: number,
+  fromFrame: number,
+  frameCount: number,
+  gainAt: (progress: number) => number
+) => {
+  for (let i = 0; i < frameCount; i++) {
+    const gain = gainAt(frameCount > 1 ? i / (frameCount - 1) : 1);
+    const offset = (fromFrame + i) * numberOfChannels;
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      pcm[offset + ch] *= gain;
+    }
+  }
+};
+
+// Shapes a segment's audio for its boundaries: equal-power curves where it overlaps a neighbour
+// (crossfade/wipe), linear fades for dips, and a short de-click fade at hard cuts.
+export const applyBoundaryFades = (pcm: Float32Array, entry: TimelineEntry, format: PcmFormat) => {
+  const { sampleRate, numberOfChannels } = format;
+  const totalFrames = pcm.length / numberOfChannels;
+  const toFrames = (sec: number) => Math.min(totalFrames, Math.round(sec * sampleRate));
+
+  const headFrames = toFrames(entry.overlapInSec || entry.dipIn?.durationSec || BOUNDARY_FADE_SEC);
+  const headGain = entry.overlapInSec > 0
+    ? (p: number) => Math.sin(p * Math.PI / 2)
+    : (p: number) => p;
+  applyGain(pcm, numberOfChannels, 0, headFrames, headGain);
+
+  const tailFrames = toFrames(entry.overlapOutSec || entry.dipOut?.durationSec || BOUNDARY_FADE_SEC);
+  const tailGain = entry.overlapOutSec > 0
+    ? (p: number) => Math.cos(p * Math.PI / 2)
+    : (p: number) => 1 - p;
+  applyGain(pcm, numberOfChannels, totalFrames - tailFrames, tailFrames, tailGain);
+};
+
+// Applies a segment's own `gain_db` and `fade_in_ms`/`fade_out_ms` to its audio
+export const applySegmentGain = (pcm: Float32Array, segment: Segment, format: PcmFormat) => {
+  const { sampleRate, numberOfChannels } = format;
+  const totalFrames = pcm.length / numberOfChannels;
+  const toFrames = (ms: number | undefined) => Math.min(totalFrames, Math.round(Math.max(0, ms ?? 0) / 1000 * sampleRate));
+
+  const gain = dbToGain(segment.gain_db ?? 0);
+  if (gain !== 1) applyGain(pcm, numberOfChannels, 0, totalFrames, () => gain);
+
+  const fadeIn = toFrames(segment.fade_in_ms);
+  applyGain(pcm, numberOfChannels, 0, fadeIn, (p) => p);
+  const fadeOut = toFrames(segment.fade_out_ms);
+  applyGain(pcm, numberOfChannels, totalFrames - fadeOut, fadeOut, (p) => 1 - p);
+};
+
+// Writes per-segment PCM to the encoder on a gapless timeline. The tail of a segment that
+// overlaps the next one is held back and mixed into the next segment's head. Music, if any,
+// is mixed in on the way out.
+export class AudioTimelineWriter {
+  private source: AudioSampleSource;
+  private format: PcmFormat;
+  private music: MusicBed | null;
+  private framesWritten = 0;
+  private pendingTail: Float32Array | null = null;
+
+  constructor(source: AudioSampleSource, format: PcmFormat, music: MusicBed | null = null) {
+    this.source = source;
+    this.format = format;
+    this.music = music;
+  }
+
+  // `pcm` starts where the previous segment's held-back tail starts
+  async write(pcm: Float32Array, overlapOutFrames: number) {
+    const { numberOfChannels } = this.format;
+
+    if (this.pendingTail) {
+      const length = Math.min(this.pendingTail.length, pcm.length);
+      for (let i = 0; i < length; i++) {
+        pcm[i] += this.pendingTail[i];
+      }
+      this.pendingTail = null;
+    }
+
+    const totalFrames = pcm.length / numberOfChannels;
+    const emitFrames = Math.max(0, totalFrames - overlapOutFrames);
+    if (emitFrames < totalFrames) {
+      this.pendingTail = pcm.slice(emitFrames * numberOfChannels);
+    }
+
+    await this.emit(pcm.subarray(0, emitFrames * numberOfChannels));
+  }
+
+  async finish() {
+    if (this.pendingTail) {
+      await this.emit(this.pendingTail);
+      this.pendingTail = null;
+    }
+  }
+
+  private async emit(pcm: Float32Array) {
+    const { sampleRate, numberOfChannels } = this.format;
+    const chunkFrames = Math.round(WRITE_CHUNK_SEC * sampleRate);
+    const totalFrames = pcm.length / numberOfChannels;
+
+    for (let offset = 0; offset < totalFrames; offset += chunkFrames) {
+      const frames = Math.min(chunkFrames, totalFrames - offset);
+      const data = pcm.slice(offset * numberOfChannels, (offset + frames) * numberOfChannels);
+      this.music?.mixInto(data, this.framesWritten);
+      const sample = new AudioSample({
+        data,
+        format: 'f32',
+        numberOfChannels,
+        sampleRate,
+        timestamp: this.framesWritten / sampleRate,
+      });
+      await this.source.add(sample);
+      sample.close();
+      this.framesWritten += frames;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { VideoSample } from 'mediabunny';
+import type { CaptionStyle } from '../../types';
+import { plainCaptionText, type TimedCaption } from '../captions';
+
+export const DEFAULT_CAPTION_STYLE: Required<CaptionStyle> = {
+  font_size: 5,
+  font_family: 'sans-serif',
+  color: '#ffffff',
+  position: 'bottom',
+  background_color: 'rgba(0, 0, 0, 0.6)',
+};
+
+const MARGIN_RATIO = 0.06; // Of the output height, between the captions and the frame edge
+const MAX_WIDTH_RATIO = 0.9; // Of the output width, before lines wrap
+const LINE_HEIGHT = 1.3; // Times the font size
+const BOX_PADDING = 0.3; // Times the font size
+
+// Draws the captions showing at each frame's timestamp into the frame
+export class CaptionBurner {
+  private captions: TimedCaption[];
+  private style: Required<CaptionStyle>;
+  private canvas: OffscreenCanvas;
+  private context: OffscreenCanvasRenderingContext2D;
+
+  constructor(captions: TimedCaption[], width: number, height: number, style?: CaptionStyle) {
+    this.captions = captions;
+    this.style = { ...DEFAULT_CAPTION_STYLE, ...style };
+    this.canvas = new OffscreenCanvas(width, height);
+    const context = this.canvas.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas context for captions');
+    this.context = context;
+  }
+
+  // Returns the frame with its captions drawn in. A new frame replaces (and closes) the input;
+  // frames without captions are returned as they are.
+  burn(sample: VideoSample): VideoSample {
+    const time = sample.timestamp;
+    const active = this.captions.filter(caption => time >= caption.startSec && time < caption.endSec);
+    if (active.length === 0) return sample;
+
+    const { width, height } = this.canvas;
+    const ctx = this.context;
+    sample.draw(ctx, 0, 0, width, height);
+    this.drawText(active.map(caption => plainCaptionText(caption.text)).join('\n'));
+
+    const burned = new VideoSample(this.canvas, { timestamp: sample.timestamp, duration: sample.duration });
+    sample.close();
+    return burned;
+  }
+
+  private wrap(text: string, maxWidth: number): string[] {
+    const ctx = this.context;
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+    }
+    return lines;
+  }
+
+  private drawText(text: string) {
+    const { width, height } = this.canvas;
+    const ctx = this.context;
+    const { font_size, font_family, color, position, background_color } = this.style;
+    const fontSize = Math.max(8, Math.round(height * font_size / 100));
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const padding = fontSize * BOX_PADDING;
+
+    ctx.font = `${fontSize}px ${font_family}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = this.wrap(text, width * MAX_WIDTH_RATIO - padding * 2);
+
+    const blockHeight = lines.length * lineHeight;
+    const margin = height * MARGIN_RATIO;
+    const top = position === 'top' ? margin
+      : position === 'middle' ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+    lines.forEach((line, i) => {
+      const centerY = top + (i + 0.5) * lineHeight;
+      if (background_color) {
+        const lineWidth = ctx.measureText(line).width + padding * 2;
+        ctx.fillStyle = background_color;
+        ctx.fillRect((width - lineWidth) / 2, centerY - lineHeight / 2, lineWidth, lineHeight);
+      }
+      ctx.fillStyle = color;
+      ctx.fillText(line, width / 2, centerY);
+    });
+  }
+}
@@ -0,0 +1,75 @@
+// Channel layout conversion for interleaved f32 audio. Channels follow the WebCodecs/AAC order:
+// mono is C, stereo is L R, and 5.1 is L R C LFE Ls Rs.
+
+const HALF_POWER = Math.SQRT1_2;
+
+// Rows are output channels, columns input channels
+type MixMatrix = number[][];
+
+const FIVE_ONE_TO_STEREO: MixMatrix = [
+  [1, 0, HALF_POWER, 0, HALF_POWER, 0],
+  [0, 1, HALF_POWER, 0, 0, HALF_POWER],
+];
+
+// Scales the rows down so a full-scale input in every channel can't clip
+const normalize = (matrix: MixMatrix): MixMatrix => {
+  const peak = Math.max(...matrix.map(row => row.reduce((sum, gain) => sum + Math.abs(gain), 0)));
+  return peak > 1 ? matrix.map(row => row.map(gain => gain / peak)) : matrix;
+};
+
+const buildMatrix = (from: number, to: number): MixMatrix => {
+  const matrix: MixMatrix = Array.from({ length: to }, () => new Array<number>(from).fill(0));
+
+  if (from === 6 && to === 2) return normalize(FIVE_ONE_TO_STEREO);
+  if (from === 6 && to === 1) {
+    // The stereo downmix, folded to the centre
+    return normalize([FIVE_ONE_TO_STEREO[0].map((gain, ch) => (gain + FIVE_ONE_TO_STEREO[1][ch]) / 2)]);
+  }
+  if (to === 1) {
+    matrix[0].fill(1 / from);
+    return matrix;
+  }
+  if (from === 1) {
+    // Mono goes to the centre speaker when there is one, otherwise to both fronts
+    if (to === 6) {
+      matrix[2][0] = 1;
+    } else {
+      matrix[0][0] = 1;
+      matrix[1][0] = 1;
+    }
+    return matrix;
+  }
+  // Otherwise channels map across by position (stereo into the 5.1 fronts) and extras are dropped
+  for (let ch = 0; ch < Math.min(from, to); ch++) {
+    matrix[ch][ch] = 1;
+  }
+  return matrix;
+};
+
+const matrices = new Map<string, MixMatrix>();
+
+// Converts interleaved audio from `from` channels to `to` channels
+export const mixChannels = (data: Float32Array, from: number, to: number): Float32Array => {
+  if (from === to) return data;
+
+  const key = `${from}>${to}`;
+  let matrix = matrices.get(key);
+  if (!matrix) {
+    matrix = buildMatrix(from, to);
+    matrices.set(key, matrix);
+  }
+
+  const frames = data.length / from;
+  const output = new Float32Array(frames * to);
+  for (let i = 0; i < frames; i++) {
+    for (let out = 0; out < to; out++) {
+      const row = matrix[out];
+      let sum = 0;
+      for (let ch = 0; ch < from; ch++) {
+        sum += data[i * from + ch] * row[ch];
+      }
+      output[i * to + out] = sum;
+    }
+  }
+  return output;
+};
@@ -0,0 +1,95 @@
+import { VideoSample } from 'mediabunny';
+import type { SegmentTransition } from '../../types';
+
+export const canComposite = () => typeof OffscreenCanvas !== 'undefined';
+
+// Draws transition frames onto an OffscreenCanvas the size of the output
+export class FrameCompositor {
+  private canvas: OffscreenCanvas;
+  private context: OffscreenCanvasRenderingContext2D;
+
+  constructor(width: number, height: number) {
+    this.canvas = new OffscreenCanvas(width, height);
+    const context = this.canvas.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas context for compositing');
+    this.context = context;
+  }
+
+  private get width() {
+    return this.canvas.width;
+  }
+
+  private get height() {
+    return this.canvas.height;
+  }
+
+  private toSample(timestamp: number, duration: number) {
+    return new VideoSample(this.canvas, { timestamp, duration });
+  }
+
+  // Blends `frame` towards a solid color; amount 0 is the untouched frame, 1 is the solid color
+  dip(frame: VideoSample, amount: number, color: string, timestamp: number, duration: number): VideoSample {
+    const ctx = this.context;
+    frame.draw(ctx, 0, 0, this.width, this.height);
+    ctx.globalAlpha = Math.min(1, Math.max(0, amount));
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, this.width, this.height);
+    ctx.globalAlpha = 1;
+    return this.toSample(timestamp, duration);
+  }
+
+  // Mixes two frames of the same shot; weight 0 is `from`, 1 is `to`
+  blend(from: VideoSample, to: VideoSample, weight: number, timestamp: number, duration: number): VideoSample {
+    const ctx = this.context;
+    from.draw(ctx, 0, 0, this.width, this.height);
+    ctx.globalAlpha = Math.min(1, Math.max(0, weight));
+    to.draw(ctx, 0, 0, this.width, this.height);
+    ctx.globalAlpha = 1;
+    return this.toSample(timestamp, duration);
+  }
+
+  // Overlap transitions (crossfade, wipe). Progress runs from 0 (only `from` visible) to 1 (only `to` visible).
+  transition(
+    from: VideoSample,
+    to: VideoSample,
+    progress: number,
+    transition: SegmentTransition,
+    timestamp: number,
+    duration: number
+  ): VideoSample {
+    const ctx = this.context;
+    const p = Math.min(1, Math.max(0, progress));
+    const { width, height } = this;
+
+    from.draw(ctx, 0, 0, width, height);
+
+    if (transition.type === 'wipe') {
+      // The incoming segment is revealed behind an edge moving in `direction`
+      ctx.save();
+      ctx.beginPath();
+      switch (transition.direction ?? 'left') {
+        case 'left':
+          ctx.rect(width * (1 - p), 0, width * p, height);
+          break;
+        case 'right':
+          ctx.rect(0, 0, width * p, height);
+          break;
+        case 'up':
+          ctx.rect(0, height * (1 - p), width, height * p);
+          break;
+        case 'down':
+          ctx.rect(0, 0, width, height * p);
+          break;
+      }
+      ctx.clip();
+      to.draw(ctx, 0, 0, width, height);
+      ctx.restore();
+    } else {
+      ctx.globalAlpha = p;
+      to.draw(ctx, 0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+
+    return this.toSample(timestamp, duration);
+  }
+}
@@ -0,0 +1,264 @@
+import { VideoSample, VideoSampleSink, type InputVideoTrack, type VideoSampleSource } from 'mediabunny';
+import type { CropRect } from '../../types';
+import type { FrameCompositor } from './compositor';
+
+export interface TimedFrame {
+  sample: VideoSample;
+  time: number; // Seconds since the segment's start; 0 for the frame already showing at the cut
+}
+
+// Crops a frame through its visible rect: no pixel copy and no canvas APIs needed, so this
+// works in any runtime that provides WebCodecs. The input sample is closed.
+export const cropToRect = (sample: VideoSample, rect: CropRect): VideoSample => {
+  // Offsets are kept even so they stay aligned with 4:2:0 chroma planes
+  const x = Math.max(0, Math.floor(rect.x / 2) * 2);
+  const y = Math.max(0, Math.floor(rect.y / 2) * 2);
+
+  const originalFrame = sample.toVideoFrame();
+  const croppedFrame = new VideoFrame(originalFrame, {
+    visibleRect: { x, y, width: rect.width, height: rect.height },
+  });
+  originalFrame.close();
+  sample.close();
+
+  return new VideoSample(croppedFrame);
+};
+
+// Center-crops a frame to the target size.
+// Returns the input sample when no cropping is needed; otherwise the input is closed.
+export const cropToTarget = (sample: VideoSample, targetWidth: number, targetHeight: number): VideoSample => {
+  if (sample.codedWidth === targetWidth && sample.codedHeight === targetHeight) return sample;
+
+  return cropToRect(sample, {
+    x: (sample.codedWidth - targetWidth) / 2,
+    y: (sample.codedHeight - targetHeight) / 2,
+    width: targetWidth,
+    height: targetHeight,
+  });
+};
+
+// Pulls decoded frames of one segment in order. Besides plain iteration it can answer
+// "which frame is showing at local time t", which transitions use to sample the incoming segment.
+export class SegmentFrameReader {
+  private iterator: AsyncIterator<VideoSample>;
+  private startSec: number;
+  private endSec: number;
+  private transform: (sample: VideoSample, time: number) => VideoSample;
+  private peeked: TimedFrame | null = null;
+  private current: TimedFrame | null = null;
+
+  constructor(
+    track: InputVideoTrack,
+    startSec: number,
+    endSec: number,
+    transform: (sample: VideoSample, time: number) => VideoSample = sample => sample
+  ) {
+    this.iterator = new VideoSampleSink(track).samples(startSec, endSec)[Symbol.asyncIterator]();
+    this.startSec = startSec;
+    this.endSec = endSec;
+    this.transform = transform;
+  }
+
+  private async pull(): Promise<TimedFrame | null> {
+    for (;;) {
+      const result = await this.iterator.next();
+      if (result.done) return null;
+
+      // Frames are timed against the cut itself, not the first frame, so video stays aligned with
+      // audio trimmed at the same point. A frame that started before the cut is shown from it.
+      const sample = result.value;
+      if (sample.timestamp >= this.endSec || sample.timestamp + sample.duration <= this.startSec) {
+        sample.close();
+        continue;
+      }
+
+      const time = Math.max(0, sample.timestamp - this.startSec);
+      return { sample: this.transform(sample, time), time };
+    }
+  }
+
+  private async peek(): Promise<TimedFrame | null> {
+    if (!this.peeked) this.peeked = await this.pull();
+    return this.peeked;
+  }
+
+  // Next frame in order. The caller owns (and must close) the returned sample.
+  async next(): Promise<TimedFrame | null> {
+    // A frame held by frameAt() has already been shown
+    this.current?.sample.close();
+    this.current = null;
+
+    if (this.peeked) {
+      const frame = this.peeked;
+      this.peeked = null;
+      return frame;
+    }
+    return this.pull();
+  }
+
+  // The latest frame at or before local time `time` (or the first frame, if none is that early).
+  // The reader keeps ownership of the returned sample.
+  async frameAt(time: number): Promise<TimedFrame | null> {
+    for (;;) {
+      const upcoming = await this.peek();
+      if (!upcoming || (this.current && upcoming.time > time)) break;
+      this.current?.sample.close();
+      this.current = upcoming;
+      this.peeked = null;
+    }
+    return this.current;
+  }
+
+  async close() {
+    this.current?.sample.close();
+    this.peeked?.sample.close();
+    this.current = null;
+    this.peeked = null;
+    await this.iterator.return?.();
+  }
+}
+
+export interface SegmentVideoStats {
+  frames: number;
+  // Where the first frame starts and the last frame would have ended on its own, on the output timeline
+  contentStartSec: number | null;
+  contentEndSec: number | null;
+}
+
+// A source frame starting this close after a slot still counts as on it, so sources already at
+// the output rate map one to one despite rounding in their timestamps
+const SLOT_TOLERANCE_SEC = 0.0001;
+// Blends this close to the held frame aren't worth drawing
+const MIN_BLEND_WEIGHT = 0.01;
+
+// Puts frames onto the output's constant-rate grid. Each slot n/fps shows the frame that is
+// showing at that time, so faster sources drop frames and slower ones repeat them. With a
+// blender, a slot between two frames mixes them by how far it sits between their timestamps.
+export class FrameRateConformer {
+  private fps: number;
+  private output: (sample: VideoSample) => Promise<void>;
+  private blender: FrameCompositor | null;
+  private held: VideoSample | null = null;
+  private nextSlot = 0;
+  private contentStartSec: number | null = null;
+  private contentEndSec: number | null = null;
+
+  constructor(fps: number, output: (sample: VideoSample) => Promise<void>, blender: FrameCompositor | null = null) {
+    this.fps = fps;
+    this.output = output;
+    this.blender = blender;
+  }
+
+  // Takes ownership of `sample`, which must already carry its output timestamp
+  async add(sample: VideoSample) {
+    try {
+      await this.fill(sample.timestamp, sample);
+    } catch (err) {
+      sample.close();
+      throw err;
+    }
+    this.held?.close();
+    this.held = sample;
+    this.contentStartSec ??= sample.timestamp;
+    this.contentEndSec = sample.timestamp + sample.duration;
+  }
+
+  // Fills the slots up to the segment's end with its last frame. Returns where the segment's own
+  // frames started and ended, before any repeating.
+  async endSegment(endSec: number): Promise<Pick<SegmentVideoStats, 'contentStartSec' | 'contentEndSec'>> {
+    await this.fill(endSec, null);
+    this.held?.close();
+    this.held = null;
+    // A segment that delivered no frames still uses up its slots
+    this.nextSlot = Math.max(this.nextSlot, Math.round(endSec * this.fps));
+
+    const stats = { contentStartSec: this.contentStartSec, contentEndSec: this.contentEndSec };
+    this.contentStartSec = null;
+    this.contentEndSec = null;
+    return stats;
+  }
+
+  close() {
+    this.held?.close();
+    this.held = null;
+  }
+
+  // Emits the held frame, or its blend towards `next`, into every slot before `untilSec`
+  private async fill(untilSec: number, next: VideoSample | null) {
+    const held = this.held;
+    if (!held) return;
+    const duration = 1 / this.fps;
+
+    while (this.nextSlot / this.fps < untilSec - SLOT_TOLERANCE_SEC) {
+      const time = this.nextSlot / this.fps;
+      const weight = next && next.timestamp > held.timestamp
+        ? (time - held.timestamp) / (next.timestamp - held.timestamp)
+        : 0;
+
+      let frame: VideoSample;
+      if (this.blender && next && weight > MIN_BLEND_WEIGHT) {
+        frame = this.blender.blend(held, next, weight, time, duration);
+      } else {
+        frame = held.clone();
+        frame.setTimestamp(time);
+        frame.setDuration(duration);
+      }
+      this.nextSlot++;
+      await this.output(frame);
+    }
+  }
+}
+
+// Feeds frames to the encoder one behind, so each segment's last frame can be stretched or
+// clipped to end exactly at the segment's end, however many frames the source delivered.
+export class VideoTimelineWriter {
+  private source: VideoSampleSource;
+  private held: VideoSample | null = null;
+  private frames = 0;
+  private contentStartSec: number | null = null;
+  private contentEndSec: number | null = null;
+
+  constructor(source: VideoSampleSource) {
+    this.source = source;
+  }
+
+  // Takes ownership of `sample`, which must already carry its output timestamp
+  async add(sample: VideoSample) {
+    if (this.held) {
+      this.held.setDuration(Math.max(0, sample.timestamp - this.held.timestamp));
+      await this.flush();
+    }
+    this.held = sample;
+    this.frames++;
+    this.contentStartSec ??= sample.timestamp;
+    this.contentEndSec = sample.timestamp + sample.duration;
+  }
+
+  async endSegment(endSec: number): Promise<SegmentVideoStats> {
+    if (this.held) {
+      this.held.setDuration(Math.max(0, endSec - this.held.timestamp));
+      await this.flush();
+    }
+    const stats = { frames: this.frames, contentStartSec: this.contentStartSec, contentEndSec: this.contentEndSec };
+    this.frames = 0;
+    this.contentStartSec = null;
+    this.contentEndSec = null;
+    return stats;
+  }
+
+  close() {
+    this.held?.close();
+    this.held = null;
+  }
+
+  private async flush() {
+    const sample = this.held;
+    this.held = null;
+    if (!sample) return;
+    try {
+      await this.source.add(sample);
+    } finally {
+      sample.close();
+    }
+  }
+}
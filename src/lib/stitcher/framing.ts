@@ -0,0 +1,78 @@
+import { VideoSample } from 'mediabunny';
+import type { CropRect, FitMode } from '../../types';
+import type { OutputFrameSpec } from '../outputSpec';
+import { clampCrop } from '../crop';
+import { canComposite } from './compositor';
+import { cropToRect, cropToTarget } from './frames';
+
+const BLUR_RADIUS_RATIO = 0.04; // Of the output's short side
+
+// Draws a frame over the whole `spec.width`×`spec.height` area of a canvas: the background, then
+// the frame fitted into it. `crop` is in source pixels and already clamped to the frame.
+export const drawFitted = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  sample: VideoSample,
+  spec: OutputFrameSpec,
+  fit: FitMode,
+  crop?: CropRect
+) => {
+  const { width, height, backgroundColor } = spec;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+
+  const cropRectangle = crop && { left: crop.x, top: crop.y, width: crop.width, height: crop.height };
+
+  if (fit === 'blur') {
+    ctx.filter = `blur(${Math.round(Math.min(width, height) * BLUR_RADIUS_RATIO)}px)`;
+    sample.drawWithFit(ctx, { fit: 'cover', crop: cropRectangle });
+    ctx.filter = 'none';
+  }
+  sample.drawWithFit(ctx, { fit: fit === 'cover' ? 'cover' : 'contain', crop: cropRectangle });
+};
+
+// Places decoded source frames into the output frame according to a fit mode
+export class FramePlacer {
+  private spec: OutputFrameSpec;
+  private canvas: OffscreenCanvas | null = null;
+  private context: OffscreenCanvasRenderingContext2D | null = null;
+
+  constructor(spec: OutputFrameSpec) {
+    this.spec = spec;
+  }
+
+  private getContext() {
+    if (!this.context) {
+      if (!canComposite()) {
+        throw new Error('Scaling or letterboxing frames requires OffscreenCanvas, which this runtime does not provide');
+      }
+      this.canvas = new OffscreenCanvas(this.spec.width, this.spec.height);
+      this.context = this.canvas.getContext('2d');
+      if (!this.context) throw new Error('Could not create a 2D canvas context for framing');
+    }
+    return this.context;
+  }
+
+  // Returns a frame of exactly the output size. `crop` reframes the source (in source pixels)
+  // before fitting. The input sample is consumed.
+  place(sample: VideoSample, fit: FitMode = this.spec.fit, requestedCrop?: CropRect): VideoSample {
+    const { width, height } = this.spec;
+    const crop = requestedCrop && clampCrop(requestedCrop, sample.displayWidth, sample.displayHeight);
+
+    // Cropping without scaling needs no canvas
+    if (fit === 'cover' && sample.rotation === 0) {
+      if (crop && Math.round(crop.width) === width && Math.round(crop.height) === height) {
+        return cropToRect(sample, { x: crop.x, y: crop.y, width, height });
+      }
+      if (!crop && sample.codedWidth >= width && sample.codedHeight >= height &&
+        (sample.codedWidth === width || sample.codedHeight === height)) {
+        return cropToTarget(sample, width, height);
+      }
+    }
+
+    drawFitted(this.getContext(), sample, this.spec, fit, crop);
+
+    const placed = new VideoSample(this.canvas!, { timestamp: sample.timestamp, duration: sample.duration });
+    sample.close();
+    return placed;
+  }
+}
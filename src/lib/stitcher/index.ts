@@ -0,0 +1,31 @@
+export { stitch } from './stitch';
+export { FramePlacer } from './framing';
+export { InputCache, createMediaSource, createSourceResolver, createUrlSource } from './inputs';
+export { readSegmentAudio, applyBoundaryFades, applySegmentGain, dbToGain, AudioTimelineWriter } from './audio';
+export { buildMetadataTags, cutdownIdentifiers, readMediaMetadata } from './metadata';
+export { MusicBed, createMusicSource, loadMusicBed } from './music';
+export { Resampler } from './resample';
+export { mixChannels } from './channels';
+export { CaptionBurner, DEFAULT_CAPTION_STYLE } from './captions';
+export { FrameCompositor, canComposite } from './compositor';
+export { FrameRateConformer, SegmentFrameReader, VideoTimelineWriter, cropToTarget } from './frames';
+export { verifyRender, worstStatus } from './verify';
+export type { PcmFormat, SegmentAudio } from './audio';
+export type { SegmentVideoStats } from './frames';
+export type { DuckRange, LoadMusicOptions } from './music';
+export type { RenderExpectations, VerifyOptions } from './verify';
+export type {
+  CutdownIdentifier,
+  MediaMetadata,
+  QaCheck,
+  QaReport,
+  QaStatus,
+  SegmentQaReport,
+  SegmentRenderMethod,
+  SegmentRenderReport,
+  SegmentSyncReport,
+  StitchEvent,
+  StitchEventListener,
+  StitchOptions,
+  StitchResult,
+} from './types';
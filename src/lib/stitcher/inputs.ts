@@ -0,0 +1,43 @@
+import { ALL_FORMATS, BlobSource, Input, UrlSource, type Source } from 'mediabunny';
+import type { SourceFile } from '../../types';
+import { describeLocalSource, isLocalSource, type MediaInput } from '../localFiles';
+
+export const createUrlSource = (sourceFile: SourceFile): Source => new UrlSource(sourceFile.url);
+
+export const createMediaSource = (input: MediaInput): Source =>
+  typeof input === 'string' ? new UrlSource(input) : new BlobSource(input);
+
+// Opens sources picked from disk from the file bound to their asset_id, and the rest by URL
+export const createSourceResolver = (getLocalFile: (assetId: string) => Blob | undefined) =>
+  (sourceFile: SourceFile): Source => {
+    if (!isLocalSource(sourceFile)) return new UrlSource(sourceFile.url);
+    const file = getLocalFile(sourceFile.asset_id);
+    if (!file) throw new Error(`${describeLocalSource(sourceFile)} isn't loaded; drop the file onto the app again`);
+    return new BlobSource(file);
+  };
+
+// Cache inputs to avoid re-opening the same source file for every segment
+export class InputCache {
+  private inputs = new Map<number, Input>();
+  private createSource: (sourceFile: SourceFile) => Source;
+
+  constructor(createSource: (sourceFile: SourceFile) => Source = createUrlSource) {
+    this.createSource = createSource;
+  }
+
+  get(sourceFile: SourceFile): Input {
+    let input = this.inputs.get(sourceFile.source_id);
+    if (!input) {
+      input = new Input({ source: this.createSource(sourceFile), formats: ALL_FORMATS });
+      this.inputs.set(sourceFile.source_id, input);
+    }
+    return input;
+  }
+
+  dispose() {
+    for (const input of this.inputs.values()) {
+      input.dispose();
+    }
+    this.inputs.clear();
+  }
+}
@@ -0,0 +1,77 @@
+import type { Input, MetadataTags } from 'mediabunny';
+import type { VideoCutdownResult } from '../../types';
+import { formatChapterTags, parseChapterTags, type Chapter } from '../chapters';
+import type { CutdownIdentifier, MediaMetadata } from './types';
+
+// Tag names for the identifiers, upper case as Matroska and Vorbis comments name their tags
+const IDENTIFIER_TAGS: Record<CutdownIdentifier, string> = {
+  cutdown_uuid: 'CUTDOWN_UUID',
+  client_id: 'CLIENT_ID',
+  chat_id: 'CHAT_ID',
+};
+
+const IDENTIFIERS = Object.keys(IDENTIFIER_TAGS) as CutdownIdentifier[];
+
+// The comment repeats the identifiers as "name=value" pairs, so they survive in containers that
+// only keep standard tags (WAV)
+const IDENTIFIER_PAIR = /\b(cutdown_uuid|client_id|chat_id)=(\S+)/g;
+
+export const cutdownIdentifiers = (result: VideoCutdownResult): Record<CutdownIdentifier, string> => ({
+  cutdown_uuid: result.cutdown_uuid,
+  client_id: String(result.client_id),
+  chat_id: result.chat_id,
+});
+
+// Tags for the output file: the project name as the title, the identifiers in the comment and as
+// their own tags, the segment summaries as the description, and the chapters. Containers drop
+// the tags they can't hold.
+export const buildMetadataTags = (result: VideoCutdownResult, chapters: Chapter[]): MetadataTags => {
+  const identifiers = cutdownIdentifiers(result);
+  const raw: Record<string, string> = formatChapterTags(chapters);
+  for (const name of IDENTIFIERS) {
+    if (identifiers[name]) raw[IDENTIFIER_TAGS[name]] = identifiers[name];
+  }
+
+  const summaries = result.segments
+    .filter(segment => segment.summary.trim() !== '')
+    .map(segment => `${segment.purpose}: ${segment.summary.trim()}`);
+
+  return {
+    title: result.project_name.trim() || undefined,
+    comment: IDENTIFIERS.filter(name => identifiers[name]).map(name => `${name}=${identifiers[name]}`).join(' ') || undefined,
+    description: summaries.length > 0 ? summaries.join('\n') : undefined,
+    raw,
+  };
+};
+
+// Tag names differ in case between containers and the tools that wrote them
+const findTag = (tags: Record<string, string>, name: string) =>
+  Object.entries(tags).find(([key]) => key.toUpperCase() === name)?.[1];
+
+// Reads the tags and chapters on any input, ours or not. Chapters are read from CHAPTERnnn tags;
+// native chapter lists (MP4 chpl, Matroska Chapters) aren't read.
+export const readMediaMetadata = async (input: Input): Promise<MediaMetadata> => {
+  const [metadataTags, durationSec] = await Promise.all([input.getMetadataTags(), input.computeDuration()]);
+
+  const tags: Record<string, string> = {};
+  for (const [name, value] of Object.entries(metadataTags.raw ?? {})) {
+    if (typeof value === 'string') tags[name] = value;
+  }
+
+  const comment = metadataTags.comment ?? null;
+  const fromComment = new Map([...(comment ?? '').matchAll(IDENTIFIER_PAIR)].map(([, name, value]) => [name, value]));
+  const identifiers: MediaMetadata['identifiers'] = {};
+  for (const name of IDENTIFIERS) {
+    const value = findTag(tags, IDENTIFIER_TAGS[name]) ?? fromComment.get(name);
+    if (value) identifiers[name] = value;
+  }
+
+  return {
+    title: metadataTags.title ?? null,
+    comment,
+    description: metadataTags.description ?? null,
+    identifiers,
+    chapters: parseChapterTags(tags, durationSec),
+    tags,
+  };
+};
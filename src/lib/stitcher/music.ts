@@ -0,0 +1,126 @@
+import { ALL_FORMATS, Input, UrlSource, type Source } from 'mediabunny';
+import type { MusicTrack } from '../../types';
+import { dbToGain, readSegmentAudio, type PcmFormat } from './audio';
+
+export const DEFAULT_MUSIC_FADE_MS = 1000;
+export const DEFAULT_DUCK_DB = -12;
+// How long the music takes to duck before an unmuted segment and to recover after it
+export const DUCK_RAMP_SEC = 0.3;
+
+export const createMusicSource = (track: MusicTrack): Source => new UrlSource(track.url);
+
+// A stretch of the output timeline where the music ducks
+export interface DuckRange {
+  startSec: number;
+  endSec: number;
+}
+
+interface MixedTrack {
+  pcm: Float32Array; // Gain, ducking and fades already applied
+  startFrame: number; // Where `pcm` starts on the output timeline
+}
+
+// How far the music is ducked at each frame: 1 inside a range, ramping linearly to 0 within
+// DUCK_RAMP_SEC on either side so the dip has settled before the dialogue starts
+const duckEnvelope = (ranges: DuckRange[], startSec: number, frames: number, sampleRate: number) => {
+  const amount = new Float32Array(frames);
+  for (const range of ranges) {
+    const from = Math.max(0, Math.floor((range.startSec - DUCK_RAMP_SEC - startSec) * sampleRate));
+    const to = Math.min(frames, Math.ceil((range.endSec + DUCK_RAMP_SEC - startSec) * sampleRate));
+    for (let i = from; i < to; i++) {
+      const time = startSec + i / sampleRate;
+      const distance = Math.max(range.startSec - time, time - range.endSec, 0);
+      amount[i] = Math.max(amount[i], 1 - distance / DUCK_RAMP_SEC);
+    }
+  }
+  return amount;
+};
+
+// The project's music tracks, decoded up front into the output format and mixed into the
+// encoder input as it is written
+export class MusicBed {
+  private tracks: MixedTrack[];
+  private numberOfChannels: number;
+
+  constructor(tracks: MixedTrack[], format: PcmFormat) {
+    this.tracks = tracks;
+    this.numberOfChannels = format.numberOfChannels;
+  }
+
+  // Adds the music under interleaved `pcm`, which starts at `startFrame` on the output timeline
+  mixInto(pcm: Float32Array, startFrame: number) {
+    const channels = this.numberOfChannels;
+    const frames = pcm.length / channels;
+    for (const track of this.tracks) {
+      const trackFrames = track.pcm.length / channels;
+      const from = Math.max(startFrame, track.startFrame);
+      const to = Math.min(startFrame + frames, track.startFrame + trackFrames);
+      for (let frame = from; frame < to; frame++) {
+        const out = (frame - startFrame) * channels;
+        const src = (frame - track.startFrame) * channels;
+        for (let ch = 0; ch < channels; ch++) {
+          pcm[out + ch] += track.pcm[src + ch];
+        }
+      }
+    }
+  }
+}
+
+export interface LoadMusicOptions {
+  durationSec: number; // Length of the output; music past it is cut
+  duckRanges: DuckRange[];
+  format: PcmFormat;
+  createSource?: (track: MusicTrack) => Source;
+  signal?: AbortSignal;
+  onWarning?: (message: string) => void;
+}
+
+// Decodes the part of each track that lands on the output and bakes in its gain, ducking and
+// fades. Tracks without decodable audio are skipped with a warning.
+export const loadMusicBed = async (music: MusicTrack[], options: LoadMusicOptions): Promise<MusicBed> => {
+  const { durationSec, duckRanges, format, createSource = createMusicSource, signal, onWarning } = options;
+  const { sampleRate, numberOfChannels } = format;
+  const mixed: MixedTrack[] = [];
+
+  for (const [index, track] of music.entries()) {
+    const offsetSec = Math.max(0, track.offset_sec ?? 0);
+    const lengthSec = durationSec - offsetSec;
+    if (lengthSec <= 0) {
+      onWarning?.(`Music track ${index} starts after the output ends`);
+      continue;
+    }
+
+    const input = new Input({ source: createSource(track), formats: ALL_FORMATS });
+    try {
+      const audioTrack = await input.getPrimaryAudioTrack();
+      if (!audioTrack || !(await audioTrack.canDecode())) {
+        onWarning?.(`Music track ${index} has no audio that can be decoded here; it is left out`);
+        continue;
+      }
+
+      const startFrame = Math.round(offsetSec * sampleRate);
+      const frames = Math.round(durationSec * sampleRate) - startFrame;
+      const audio = await readSegmentAudio(audioTrack, 0, lengthSec, frames, format, signal);
+      const endFrame = audio.contentEndFrame ?? 0;
+
+      const gain = track.gain_db ?? 0;
+      const duckDb = track.duck_db ?? DEFAULT_DUCK_DB;
+      const duck = duckEnvelope(duckRanges, offsetSec, frames, sampleRate);
+      const fadeIn = (track.fade_in_ms ?? DEFAULT_MUSIC_FADE_MS) / 1000 * sampleRate;
+      const fadeOut = (track.fade_out_ms ?? DEFAULT_MUSIC_FADE_MS) / 1000 * sampleRate;
+
+      for (let i = 0; i < endFrame; i++) {
+        const fade = Math.min(1, fadeIn > 0 ? i / fadeIn : 1, fadeOut > 0 ? (endFrame - i) / fadeOut : 1);
+        const frameGain = dbToGain(gain + duckDb * duck[i]) * fade;
+        for (let ch = 0; ch < numberOfChannels; ch++) {
+          audio.pcm[i * numberOfChannels + ch] *= frameGain;
+        }
+      }
+      mixed.push({ pcm: audio.pcm.subarray(0, endFrame * numberOfChannels), startFrame });
+    } finally {
+      input.dispose();
+    }
+  }
+
+  return new MusicBed(mixed, format);
+};
@@ -0,0 +1,318 @@
+import {
+  EncodedAudioPacketSource,
+  EncodedPacketSink,
+  EncodedVideoPacketSource,
+  type EncodedPacket,
+  type InputAudioTrack,
+  type InputVideoTrack,
+  type Output,
+  type Rotation,
+} from 'mediabunny';
+import type { ExportAudioCodec, ExportVideoCodec, VideoCutdownResult } from '../../types';
+import { hasCaptions } from '../captions';
+import { CHANNEL_LAYOUTS, CONTAINERS, formatFrameRate, type ResolvedExportSettings } from '../exportSettings';
+import type { OutputFrameSpec } from '../outputSpec';
+import type { Timeline } from '../timeline';
+import type { SegmentVideoStats } from './frames';
+import type { PlannedSegment } from './types';
+
+// The packets one segment copies, snapped out to whole GOPs
+export interface CopyRange {
+  startSec: number; // Timestamp of the key frame the copy starts at
+  endSec: number;   // End of the last copied frame
+  lastSequenceNumber: number; // Last copied packet in decode order
+  leadInSec: number;  // How much earlier than requested the copy starts
+  overrunSec: number; // How much later than requested the copy ends
+}
+
+interface CopiedSegment {
+  videoTrack: InputVideoTrack;
+  audioTrack: InputAudioTrack | null;
+  range: CopyRange;
+}
+
+export interface PassthroughPlan {
+  segments: CopiedSegment[]; // Parallel to the planned segments
+  videoCodec: ExportVideoCodec;
+  videoConfig: VideoDecoderConfig;
+  rotation: Rotation;
+  audioCodec: ExportAudioCodec | null; // Set when the audio packets can be copied too
+  audioConfig: AudioDecoderConfig | null;
+  audioNote?: string; // Why the audio is re-encoded
+}
+
+export type PassthroughCheck =
+  | { ok: true; plan: PassthroughPlan }
+  | { ok: false; reason: string };
+
+const toBytes = (source: AllowSharedBufferSource | undefined) =>
+  !source ? new Uint8Array(0)
+  : ArrayBuffer.isView(source) ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+  : new Uint8Array(source);
+
+const sameBytes = (a: AllowSharedBufferSource | undefined, b: AllowSharedBufferSource | undefined) => {
+  const x = toBytes(a);
+  const y = toBytes(b);
+  return x.length === y.length && x.every((value, i) => value === y[i]);
+};
+
+// A track's rate is averaged over its first packets; rates this close count as the same
+const FRAME_RATE_SAMPLE_PACKETS = 120;
+const FRAME_RATE_TOLERANCE = 0.05;
+
+// Packets can only share a track if a single decoder configuration decodes all of them
+const sameVideoConfig = (a: VideoDecoderConfig, b: VideoDecoderConfig) =>
+  a.codec === b.codec && a.codedWidth === b.codedWidth && a.codedHeight === b.codedHeight &&
+  sameBytes(a.description, b.description);
+
+const sameAudioConfig = (a: AudioDecoderConfig, b: AudioDecoderConfig) =>
+  a.codec === b.codec && a.sampleRate === b.sampleRate && a.numberOfChannels === b.numberOfChannels &&
+  sameBytes(a.description, b.description);
+
+const firstKeyPacket = async (sink: EncodedPacketSink, timestamp: number) =>
+  await sink.getKeyPacket(timestamp, { verifyKeyPackets: true }) ?? await sink.getFirstPacket();
+
+// Works out which packets cover [startSec, endSec). The copy starts at the key frame at or before
+// startSec. It ends after the last packet (in decode order) shown before endSec; with reordered
+// frames this keeps any later-shown frames those packets need, so the copy can run a little long.
+const scanRange = async (track: InputVideoTrack, startSec: number, endSec: number): Promise<CopyRange | null> => {
+  const sink = new EncodedPacketSink(track);
+  const key = await firstKeyPacket(sink, startSec);
+  if (!key) return null;
+
+  const packets: EncodedPacket[] = [];
+  for await (const packet of sink.packets(key, undefined, { metadataOnly: true })) {
+    if (packets.length > 0 && packet.type === 'key' && packet.timestamp >= endSec) break;
+    packets.push(packet);
+  }
+
+  let last = -1;
+  packets.forEach((packet, i) => {
+    if (packet.timestamp < endSec) last = i;
+  });
+  if (last === -1) return null;
+
+  // Leading frames shown before the key frame belong to the previous GOP and are dropped
+  const kept = packets.slice(0, last + 1).filter(packet => packet.timestamp >= key.timestamp);
+  const copyEnd = Math.max(...kept.map(packet => packet.timestamp + packet.duration));
+
+  return {
+    startSec: key.timestamp,
+    endSec: copyEnd,
+    lastSequenceNumber: packets[last].sequenceNumber,
+    leadInSec: Math.max(0, startSec - key.timestamp),
+    overrunSec: Math.max(0, copyEnd - endSec),
+  };
+};
+
+const checkAudio = async (
+  planned: PlannedSegment[],
+  settings: ResolvedExportSettings,
+  hasMusic: boolean
+): Promise<{ codec: ExportAudioCodec; config: AudioDecoderConfig; tracks: InputAudioTrack[] } | string> => {
+  const info = CONTAINERS[settings.container];
+  const layout = settings.channelLayout && CHANNEL_LAYOUTS[settings.channelLayout];
+  if (hasMusic) return 'music is mixed in';
+  const tracks: InputAudioTrack[] = [];
+  let config: AudioDecoderConfig | null = null;
+
+  for (const { index, segment, input } of planned) {
+    if (segment.muted) return `segment ${index} is muted`;
+    if (segment.gain_db || segment.fade_in_ms || segment.fade_out_ms) return `segment ${index} has its own gain or fades`;
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) return `segment ${index} has no audio`;
+
+    const trackConfig = await track.getDecoderConfig();
+    if (!track.codec || !trackConfig || !info.audioCodecs.includes(track.codec as ExportAudioCodec)) {
+      return `${info.label} can't hold the audio of segment ${index}`;
+    }
+    if (settings.sampleRate && trackConfig.sampleRate !== settings.sampleRate) {
+      return `the output sample rate is ${settings.sampleRate}Hz`;
+    }
+    if (layout && trackConfig.numberOfChannels !== layout.numberOfChannels) return `the output is ${layout.label}`;
+    if (config && !sameAudioConfig(config, trackConfig)) return 'the sources use different audio formats';
+    config ??= trackConfig;
+    tracks.push(track);
+  }
+
+  return config ? { codec: tracks[0].codec as ExportAudioCodec, config, tracks } : 'there is no audio';
+};
+
+// Decides whether the project's video can be assembled from copied packets: every segment must
+// come from a track with the same codec configuration and rotation, already at the output size
+// and frame rate, with nothing drawn over its frames. Audio is copied as well when nothing is mixed into it.
+export const planPassthrough = async (
+  planned: PlannedSegment[],
+  timeline: Timeline,
+  outputSpec: OutputFrameSpec,
+  frameRate: number,
+  settings: ResolvedExportSettings,
+  result: VideoCutdownResult
+): Promise<PassthroughCheck> => {
+  const info = CONTAINERS[settings.container];
+  const fail = (reason: string): PassthroughCheck => ({ ok: false, reason });
+
+  if (info.audioOnly) return fail(`${info.label} is audio-only`);
+  if (timeline.entries.some(entry => entry.transitionIn || entry.dipIn || entry.dipOut)) {
+    return fail('transitions are drawn frame by frame');
+  }
+  if (result.captions?.burn_in && hasCaptions(result)) return fail('captions are burned in');
+
+  const segments: CopiedSegment[] = [];
+  let videoConfig: VideoDecoderConfig | null = null;
+  let rotation: Rotation = 0;
+
+  for (const { index, segment, input, startSec, endSec } of planned) {
+    if (segment.crop) return fail(`segment ${index} is cropped`);
+
+    const track = await input.getPrimaryVideoTrack();
+    if (!track) return fail(`segment ${index} has no video`);
+    if (!track.codec || !info.videoCodecs.includes(track.codec as ExportVideoCodec)) {
+      return fail(`${info.label} can't hold the video of segment ${index}`);
+    }
+    if (track.displayWidth !== outputSpec.width || track.displayHeight !== outputSpec.height) {
+      return fail(
+        `segment ${index} is ${track.displayWidth}x${track.displayHeight} but the output is ${outputSpec.width}x${outputSpec.height}`
+      );
+    }
+
+    const { averagePacketRate } = await track.computePacketStats(FRAME_RATE_SAMPLE_PACKETS);
+    if (Math.abs(averagePacketRate - frameRate) > FRAME_RATE_TOLERANCE) {
+      return fail(`segment ${index} is ${formatFrameRate(averagePacketRate)} but the output is ${formatFrameRate(frameRate)}`);
+    }
+
+    const config = await track.getDecoderConfig();
+    if (!config) return fail(`the video of segment ${index} can't be read`);
+    if (videoConfig && (!sameVideoConfig(videoConfig, config) || track.rotation !== rotation)) {
+      return fail('the sources use different video formats');
+    }
+    videoConfig ??= config;
+    rotation = track.rotation;
+
+    const range = await scanRange(track, startSec, endSec);
+    if (!range) return fail(`segment ${index} has no key frame to start from`);
+    segments.push({ videoTrack: track, audioTrack: null, range });
+  }
+
+  if (!videoConfig) return fail('there are no segments');
+
+  const audio = await checkAudio(planned, settings, Boolean(result.music?.length));
+  if (typeof audio !== 'string') {
+    audio.tracks.forEach((track, i) => {
+      segments[i].audioTrack = track;
+    });
+  }
+
+  return {
+    ok: true,
+    plan: {
+      segments,
+      videoCodec: segments[0].videoTrack.codec as ExportVideoCodec,
+      videoConfig,
+      rotation,
+      audioCodec: typeof audio === 'string' ? null : audio.codec,
+      audioConfig: typeof audio === 'string' ? null : audio.config,
+      audioNote: typeof audio === 'string' ? `Audio is re-encoded: ${audio}` : undefined,
+    },
+  };
+};
+
+// Note for the UI when a copied segment's range moved to key frames
+const describeSnap = (range: CopyRange): string | undefined => {
+  const parts = [
+    range.leadInSec > 0.0005 && `starts ${range.leadInSec.toFixed(3)}s early`,
+    range.overrunSec > 0.0005 && `ends ${range.overrunSec.toFixed(3)}s late`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Snapped to key frames: ${parts.join(', ')}` : undefined;
+};
+
+// Writes copied packets into the output, rebased onto the output timeline
+export class PacketCopier {
+  private plan: PassthroughPlan;
+  private videoSource: EncodedVideoPacketSource;
+  private audioSource: EncodedAudioPacketSource | null;
+  private videoConfigSent = false;
+  private audioConfigSent = false;
+  private audioEndSec = 0;
+
+  constructor(plan: PassthroughPlan) {
+    this.plan = plan;
+    this.videoSource = new EncodedVideoPacketSource(plan.videoCodec);
+    this.audioSource = plan.audioCodec ? new EncodedAudioPacketSource(plan.audioCodec) : null;
+  }
+
+  get videoCodec() {
+    return this.plan.videoCodec;
+  }
+
+  get audioCodec() {
+    return this.plan.audioCodec;
+  }
+
+  get copiesAudio() {
+    return this.audioSource !== null;
+  }
+
+  snapNote(segmentIndex: number) {
+    return describeSnap(this.plan.segments[segmentIndex].range);
+  }
+
+  addTracks(output: Output) {
+    output.addVideoTrack(this.videoSource, { rotation: this.plan.rotation });
+    if (this.audioSource) output.addAudioTrack(this.audioSource);
+  }
+
+  async copyVideo(segmentIndex: number, outputStartSec: number, signal?: AbortSignal): Promise<SegmentVideoStats> {
+    const { videoTrack, range } = this.plan.segments[segmentIndex];
+    const sink = new EncodedPacketSink(videoTrack);
+    const key = await firstKeyPacket(sink, range.startSec);
+    let frames = 0;
+    if (!key) return { frames, contentStartSec: null, contentEndSec: null };
+
+    for await (const packet of sink.packets(key)) {
+      signal?.throwIfAborted();
+      if (packet.sequenceNumber > range.lastSequenceNumber) break;
+      if (packet.timestamp < range.startSec) continue;
+
+      const rebased = packet.clone({ timestamp: outputStartSec + packet.timestamp - range.startSec });
+      await this.videoSource.add(rebased, this.videoConfigSent ? undefined : { decoderConfig: this.plan.videoConfig });
+      this.videoConfigSent = true;
+      frames++;
+    }
+    return { frames, contentStartSec: outputStartSec, contentEndSec: outputStartSec + range.endSec - range.startSec };
+  }
+
+  // Audio packets can't be split, so the ones straddling a join are kept whole or dropped,
+  // whichever keeps the output gapless without overlapping the previous segment
+  // Returns where the copied audio starts and ends on the output timeline
+  async copyAudio(
+    segmentIndex: number,
+    outputStartSec: number,
+    durationSec: number,
+    signal?: AbortSignal
+  ): Promise<{ startSec: number; endSec: number } | null> {
+    const { audioTrack, range } = this.plan.segments[segmentIndex];
+    const decoderConfig = this.plan.audioConfig;
+    if (!this.audioSource || !audioTrack || !decoderConfig) return null;
+
+    const sink = new EncodedPacketSink(audioTrack);
+    const first = await sink.getPacket(range.startSec) ?? await sink.getFirstPacket();
+    if (!first) return null;
+
+    let startSec: number | null = null;
+
+    for await (const packet of sink.packets(first)) {
+      signal?.throwIfAborted();
+      const timestamp = outputStartSec + packet.timestamp - range.startSec;
+      if (timestamp >= outputStartSec + durationSec) break;
+      if (timestamp < this.audioEndSec - packet.duration / 2) continue;
+
+      const placed = Math.max(timestamp, this.audioEndSec);
+      await this.audioSource.add(packet.clone({ timestamp: placed }), this.audioConfigSent ? undefined : { decoderConfig });
+      this.audioConfigSent = true;
+      this.audioEndSec = placed + packet.duration;
+      startSec ??= placed;
+    }
+    return startSec === null ? null : { startSec, endSec: this.audioEndSec };
+  }
+}
@@ -0,0 +1,127 @@
+// Band-limited sample rate conversion with a Kaiser-windowed sinc kernel
+
+// Kernel half-width in zero crossings of the sinc. Wider is sharper and slower.
+const ZERO_CROSSINGS = 16;
+// Kernel samples per zero crossing; values in between are interpolated linearly
+const TABLE_STEPS = 256;
+const KAISER_BETA = 8;
+// Passband as a fraction of the lower Nyquist frequency, leaving room for the filter to roll off
+const PASSBAND = 0.95;
+
+const besselI0 = (x: number) => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+  }
+  return sum;
+};
+
+let kernelTable: Float32Array | null = null;
+
+// Half of the symmetric kernel, indexed by distance in zero crossings * TABLE_STEPS
+const getKernel = () => {
+  if (kernelTable) return kernelTable;
+  const table = new Float32Array(ZERO_CROSSINGS * TABLE_STEPS + 2);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i <= ZERO_CROSSINGS * TABLE_STEPS; i++) {
+    const x = i / TABLE_STEPS;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const r = x / ZERO_CROSSINGS;
+    table[i] = sinc * besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / norm;
+  }
+  kernelTable = table;
+  return table;
+};
+
+// Converts one continuous stream of interleaved f32 audio between sample rates. It keeps the input
+// the kernel still needs between calls, so buffer edges leave no seams; a new stream (after a seek
+// or a gap) needs a new instance. Output lags input by the kernel's reach until `flush`.
+export class Resampler {
+  private readonly numberOfChannels: number;
+  private readonly step: number;   // Input frames per output frame
+  private readonly cutoff: number; // Kernel scale; below 1 when downsampling, to filter out aliases
+  private readonly reach: number;  // Input frames on each side an output frame depends on
+  private buffer: Float32Array;
+  private bufferFrames: number;
+  private position: number; // Where the next output frame falls in `buffer`, in input frames
+  private inputFrames = 0;
+  private outputFrames = 0;
+
+  constructor(sourceRate: number, targetRate: number, numberOfChannels: number) {
+    this.numberOfChannels = numberOfChannels;
+    this.step = sourceRate / targetRate;
+    this.cutoff = Math.min(1, targetRate / sourceRate) * PASSBAND;
+    this.reach = Math.ceil(ZERO_CROSSINGS / this.cutoff);
+    // The stream is preceded by silence, so the first frames have history to filter against
+    this.bufferFrames = this.reach;
+    this.buffer = new Float32Array(this.reach * 4 * numberOfChannels);
+    this.position = this.reach;
+  }
+
+  // Takes the next input frames and returns every output frame they complete
+  push(input: Float32Array): Float32Array {
+    this.append(input);
+    this.inputFrames += input.length / this.numberOfChannels;
+    return this.drain(Infinity);
+  }
+
+  // Ends the stream, returning the remaining output so the total is the input length at the new rate
+  flush(): Float32Array {
+    this.append(new Float32Array((this.reach + 1) * this.numberOfChannels));
+    const total = Math.round(this.inputFrames / this.step);
+    return this.drain(total - this.outputFrames);
+  }
+
+  private append(input: Float32Array) {
+    const channels = this.numberOfChannels;
+    const needed = (this.bufferFrames * channels) + input.length;
+    if (needed > this.buffer.length) {
+      const grown = new Float32Array(Math.max(needed, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.bufferFrames * channels));
+      this.buffer = grown;
+    }
+    this.buffer.set(input, this.bufferFrames * channels);
+    this.bufferFrames += input.length / channels;
+  }
+
+  private drain(limit: number): Float32Array {
+    const channels = this.numberOfChannels;
+    const available = Math.floor((this.bufferFrames - this.reach - 1 - this.position) / this.step) + 1;
+    const count = Math.max(0, Math.min(limit, available));
+    const output = new Float32Array(count * channels);
+    const kernel = getKernel();
+    const scale = this.cutoff * TABLE_STEPS;
+
+    for (let n = 0; n < count; n++) {
+      const center = this.position + n * this.step;
+      const first = Math.ceil(center - this.reach);
+      const last = Math.floor(center + this.reach);
+      const offset = n * channels;
+
+      for (let j = first; j <= last; j++) {
+        const index = Math.abs(center - j) * scale;
+        const whole = Math.floor(index);
+        if (whole >= ZERO_CROSSINGS * TABLE_STEPS) continue;
+        const weight = (kernel[whole] + (kernel[whole + 1] - kernel[whole]) * (index - whole)) * this.cutoff;
+        const base = j * channels;
+        for (let ch = 0; ch < channels; ch++) {
+          output[offset + ch] += this.buffer[base + ch] * weight;
+        }
+      }
+    }
+
+    this.position += count * this.step;
+    this.outputFrames += count;
+
+    // Drop input no future output frame reaches back to
+    const discard = Math.max(0, Math.floor(this.position) - this.reach);
+    if (discard > 0) {
+      this.buffer.copyWithin(0, discard * channels, this.bufferFrames * channels);
+      this.bufferFrames -= discard;
+      this.position -= discard;
+    }
+    return output;
+  }
+}
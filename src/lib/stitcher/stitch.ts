@@ -0,0 +1,549 @@
+import {
+  ALL_FORMATS,
+  Input,
+  Output,
+  BufferTarget,
+  VideoSampleSource,
+  AudioSampleSource,
+  TextSubtitleSource,
+  type Target,
+  type VideoSample,
+} from 'mediabunny';
+import type { SegmentTransition, SourceFile, VideoCutdownResult } from '../../types';
+import { formatWebVtt, hasCaptions, layOutCaptions } from '../captions';
+import { chaptersFromTimeline } from '../chapters';
+import { cropAt } from '../crop';
+import { negotiateEncoding, summarizeEncoding } from '../encoding';
+import { CHANNEL_LAYOUTS, CONTAINERS, layoutForChannels, resolveExportSettings } from '../exportSettings';
+import { resolveOutputFrameRate, resolveOutputSpec } from '../outputSpec';
+import { computeTimeline, type TimelineEntry } from '../timeline';
+import { AudioTimelineWriter, applyBoundaryFades, applySegmentGain, readSegmentAudio, type PcmFormat } from './audio';
+import { CaptionBurner } from './captions';
+import { FrameCompositor, canComposite } from './compositor';
+import { FrameRateConformer, SegmentFrameReader, VideoTimelineWriter, type SegmentVideoStats } from './frames';
+import { FramePlacer } from './framing';
+import { InputCache } from './inputs';
+import { buildMetadataTags } from './metadata';
+import { loadMusicBed, type MusicBed } from './music';
+import { PacketCopier, planPassthrough } from './passthrough';
+import type { PlannedSegment, SegmentSyncReport, StitchEvent, StitchOptions, StitchResult } from './types';
+
+// How far into a dip-to-color the frame at local time `time` is (0 = untouched, 1 = solid color)
+const dipAmountAt = (entry: TimelineEntry, time: number) => {
+  let amount = 0;
+  if (entry.dipIn && time < entry.dipIn.durationSec) {
+    amount = Math.max(amount, 1 - time / entry.dipIn.durationSec);
+  }
+  if (entry.dipOut) {
+    const dipStart = entry.durationSec - entry.dipOut.durationSec;
+    if (time >= dipStart) amount = Math.max(amount, (time - dipStart) / entry.dipOut.durationSec);
+  }
+  return amount;
+};
+
+// Re-encoded video comes with re-encoded audio, so it needs both
+const hasWebCodecs = (media: 'audio' | 'video') =>
+  typeof AudioDecoder !== 'undefined' && typeof AudioEncoder !== 'undefined' &&
+  (media === 'audio' || (typeof VideoDecoder !== 'undefined' && typeof VideoEncoder !== 'undefined'));
+
+// Segment lengths are rounded to whole output frames so every cut lands on a frame boundary,
+// without reaching past the end of the source
+const snapEndToFrames = (startSec: number, endSec: number, limitSec: number, fps: number) => {
+  const frames = Math.round((endSec - startSec) * fps);
+  const fitting = startSec + frames / fps <= limitSec + 1e-6 ? frames : Math.floor((limitSec - startSec) * fps);
+  return startSec + Math.max(1, fitting) / fps;
+};
+
+// Transitions are rounded the same way, so overlaps keep the following cuts on the grid
+const snapTransitionToFrames = (transition: SegmentTransition | undefined, fps: number) =>
+  transition && { ...transition, duration_ms: Math.round(transition.duration_ms * fps / 1000) * 1000 / fps };
+
+// Segments entered through a crossfade or wipe start their own frames after the overlap, which the
+// previous segment drew, so their start is not compared against the audio.
+const syncReport = (
+  index: number,
+  entry: TimelineEntry,
+  video: SegmentVideoStats,
+  audio: { startSec: number; endSec: number } | null,
+  paddedAudioSec: number
+): SegmentSyncReport => {
+  const startSec = entry.startSec;
+  const endSec = entry.startSec + entry.durationSec;
+  const clip = (sec: number | null | undefined) => sec == null ? null : Math.min(endSec, Math.max(startSec, sec));
+  const videoStartSec = clip(video.contentStartSec);
+  const videoEndSec = clip(video.contentEndSec);
+  const audioStartSec = clip(audio?.startSec);
+  const audioEndSec = clip(audio?.endSec);
+  const drift = (a: number | null, v: number | null) => a !== null && v !== null ? a - v : null;
+
+  return {
+    index,
+    startSec,
+    endSec,
+    videoFrames: video.frames,
+    videoStartSec,
+    videoEndSec,
+    audioStartSec,
+    audioEndSec,
+    paddedAudioSec,
+    startDriftSec: entry.overlapInSec > 0 ? null : drift(audioStartSec, videoStartSec),
+    endDriftSec: drift(audioEndSec, videoEndSec),
+  };
+};
+
+export async function stitch<T extends Target = BufferTarget>(
+  result: VideoCutdownResult,
+  options: StitchOptions<T> = {}
+): Promise<StitchResult<T>> {
+  const { segments, source_files: sourceFiles } = result;
+  const { signal } = options;
+  const emit = (event: StitchEvent) => options.onEvent?.(event);
+  const findSource = (sourceId: number): SourceFile | undefined =>
+    sourceFiles.find(s => s.source_id === sourceId);
+
+  signal?.throwIfAborted();
+  emit({ type: 'status', message: 'Initializing Stitcher...' });
+
+  const target = (options.target ?? new BufferTarget()) as T;
+  const inputs = new InputCache(options.createSource);
+  const cachedInputs: Input[] = [];
+  let output: Output | null = null;
+  let videoWriter: VideoTimelineWriter | null = null;
+  let conformer: FrameRateConformer | null = null;
+  // The segment being decoded, and the next one when opened early for an overlap transition into
+  // it. Null once opening it found no decodable video, so it is only tried once.
+  let reader: SegmentFrameReader | null = null;
+  let incomingReader: SegmentFrameReader | null | undefined;
+
+  try {
+    const settings = resolveExportSettings(result.export);
+    const frameRate = settings.frameRate ?? resolveOutputFrameRate(result);
+    const snapsToFrames = !CONTAINERS[settings.container].audioOnly;
+
+    // 1. Check every segment against its source's real duration. Skipped segments are left out
+    // of the timeline entirely, so transitions join the segments around them.
+    const planned: PlannedSegment[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const sourceFile = findSource(segment.source_id);
+      if (!sourceFile) throw new Error(`Source not found for segment ${segment.scene_id}`);
+
+      const input = inputs.get(sourceFile);
+      const sourceDuration = await input.computeDuration();
+      signal?.throwIfAborted();
+
+      const startSec = segment.start_ms / 1000;
+      let endSec = segment.end_ms / 1000;
+
+      if (startSec >= sourceDuration) {
+        emit({
+          type: 'segment-skipped',
+          index: i,
+          segment,
+          reason: `Start time (${startSec}s) is after the source file duration (${sourceDuration}s)`,
+        });
+        continue;
+      } else if (endSec > sourceDuration) {
+        emit({
+          type: 'warning',
+          index: i,
+          message: `Segment ${i} (${segment.purpose}) end time (${endSec}s) exceeds source file duration (${sourceDuration}s). Content will be truncated.`,
+        });
+        endSec = sourceDuration;
+      }
+      if (snapsToFrames) endSec = snapEndToFrames(startSec, endSec, sourceDuration, frameRate);
+
+      planned.push({ index: i, segment, input, startSec, endSec });
+    }
+
+    // The planned segments, read from their cached trims instead of the sources
+    const planFromCache = async (from: PlannedSegment[]): Promise<PlannedSegment[] | null> => {
+      if (!options.findCachedSegment || from.length === 0) return null;
+      const replaced: PlannedSegment[] = [];
+      for (const plannedSegment of from) {
+        const source = await options.findCachedSegment(plannedSegment.segment, findSource(plannedSegment.segment.source_id)!);
+        signal?.throwIfAborted();
+        if (!source) return null;
+        const input = new Input({ source, formats: ALL_FORMATS });
+        cachedInputs.push(input);
+        replaced.push({ ...plannedSegment, input, startSec: 0, endSec: await input.computeDuration() });
+      }
+      return replaced;
+    };
+
+    const layOut = () => computeTimeline(planned.map(p => ({
+      durationSec: p.endSec - p.startSec,
+      transition: snapsToFrames ? snapTransitionToFrames(p.segment.transition, frameRate) : p.segment.transition,
+    })));
+    let timeline = layOut();
+
+    const outputSpec = resolveOutputSpec(result);
+
+    // Fast path: copy encoded packets instead of re-encoding when the sources allow it.
+    // Copies snap out to key frames, so the timeline is laid out again from the snapped ranges.
+    let copier: PacketCopier | null = null;
+    let passthroughNote: string | undefined;
+    let passthroughFailure: string | undefined;
+    let audioCopyNote: string | undefined;
+    let copiedFromCache = false;
+    if (settings.passthrough) {
+      // Cached trims start on a key frame, so copying from them needs no snapping. They are
+      // used only when every segment has one and they can all be copied together.
+      const fromCache = await planFromCache(planned);
+      let check = fromCache && await planPassthrough(fromCache, timeline, outputSpec, frameRate, settings, result);
+      if (fromCache && check?.ok) {
+        planned.splice(0, planned.length, ...fromCache);
+        copiedFromCache = true;
+      } else {
+        check = await planPassthrough(planned, timeline, outputSpec, frameRate, settings, result);
+      }
+      signal?.throwIfAborted();
+      if (check.ok) {
+        copier = new PacketCopier(check.plan);
+        audioCopyNote = check.plan.audioNote;
+        check.plan.segments.forEach(({ range }, i) => {
+          planned[i].startSec = range.startSec;
+          planned[i].endSec = range.endSec;
+        });
+        timeline = layOut();
+      } else {
+        passthroughFailure = check.reason;
+        passthroughNote = `Fast copy isn't possible (${check.reason}); re-encoding instead`;
+      }
+    }
+
+    // Whatever isn't copied is decoded and re-encoded through WebCodecs, which runtimes outside
+    // the browser may not have. Copy-only renders get by without it.
+    const reencodes = !copier ? (CONTAINERS[settings.container].audioOnly ? 'audio' : 'video') : !copier.copiesAudio ? 'audio' : null;
+    if (reencodes && !hasWebCodecs(reencodes)) {
+      const why = copier ? audioCopyNote
+        : settings.passthrough ? `Fast copy isn't possible: ${passthroughFailure}`
+        : 'Fast copy is off ("passthrough" in the export settings)';
+      throw new Error(`Re-encoding the ${reencodes} needs WebCodecs, which this runtime doesn't have. ${why}.`);
+    }
+
+    const placer = new FramePlacer(outputSpec);
+
+    // Captions follow the segments onto the final timeline
+    const captionSettings = result.captions;
+    const captioned = hasCaptions(result);
+    const captions = captioned
+      ? layOutCaptions(result, planned.map((p, i) => ({
+        segment: p.segment,
+        sourceStartSec: p.startSec,
+        sourceEndSec: p.endSec,
+        outputStartSec: timeline.entries[i].startSec,
+      })), timeline.durationSec)
+      : [];
+    if (captioned) emit({ type: 'captions', captions });
+
+    // Chapters and tags go into the file; containers without free-form tags only keep the basics
+    const chapters = chaptersFromTimeline(planned.map(p => p.segment), timeline);
+    emit({ type: 'chapters', chapters });
+
+    // Transitions are drawn on a canvas. Runtimes without OffscreenCanvas fall back to hard cuts.
+    const needsCompositor = timeline.entries.some(e => e.transitionIn || e.dipIn || e.dipOut);
+    const compositor = needsCompositor && canComposite() ? new FrameCompositor(outputSpec.width, outputSpec.height) : null;
+    if (needsCompositor && !compositor) {
+      emit({ type: 'warning', message: 'OffscreenCanvas is not available; video transitions are rendered as hard cuts.' });
+    }
+
+    // Every segment's audio is resampled and mixed to one format for the encoder. What the
+    // project leaves unset follows the first unmuted segment.
+    let sampleRate = settings.sampleRate;
+    let layout = settings.channelLayout;
+
+    for (const { segment, input } of planned) {
+      if (sampleRate && layout) break;
+      if (segment.muted) continue;
+      const track = await input.getPrimaryAudioTrack();
+      if (track) {
+        // Cap sample rate at 48kHz for browser compatibility
+        // Many browsers don't support AAC encoding at 96kHz
+        sampleRate ??= Math.min(track.sampleRate, 48000);
+        layout ??= layoutForChannels(track.numberOfChannels);
+        break;
+      }
+    }
+
+    const audioFormat: PcmFormat = {
+      sampleRate: sampleRate ?? 48000,
+      numberOfChannels: CHANNEL_LAYOUTS[layout ?? 'stereo'].numberOfChannels,
+    };
+
+    // 2. Setup Output and Sources (Encoders), with codecs this runtime can actually encode
+    const encoding = await negotiateEncoding(settings, {
+      width: outputSpec.width,
+      height: outputSpec.height,
+      ...audioFormat,
+      hasVideo: !copier,
+      hasAudio: !copier?.copiesAudio, // Muted or silent projects still get a silent track
+      fragmented: options.fragmented,
+    });
+    signal?.throwIfAborted();
+
+    // Soft subtitles where the container can hold them; burned-in captions need drawn frames
+    const wantsSubtitles = captions.length > 0 && captionSettings?.subtitle_track !== false;
+    const subtitlesFit = encoding.format.getSupportedSubtitleCodecs().includes('webvtt');
+    const subtitleNote = wantsSubtitles && !subtitlesFit
+      ? `${CONTAINERS[settings.container].label} can't hold subtitles; export a caption file instead`
+      : undefined;
+
+    const wantsBurnIn = captions.length > 0 && Boolean(captionSettings?.burn_in) && !copier && Boolean(encoding.videoCodec);
+    const burner = wantsBurnIn && canComposite()
+      ? new CaptionBurner(captions, outputSpec.width, outputSpec.height, captionSettings?.style)
+      : null;
+    const burnInNote = wantsBurnIn && !burner
+      ? 'OffscreenCanvas is not available; captions are not burned in'
+      : undefined;
+
+    // Blending draws on a canvas too; without one, frames are dropped and repeated instead
+    const wantsBlending = settings.frameBlending && !copier && Boolean(encoding.videoCodec);
+    const blender = wantsBlending && canComposite() ? new FrameCompositor(outputSpec.width, outputSpec.height) : null;
+    const blendingNote = wantsBlending && !blender
+      ? 'OffscreenCanvas is not available; frames are dropped or repeated instead of blended'
+      : undefined;
+
+    const tagsNote = CONTAINERS[settings.container].customTags
+      ? undefined
+      : `${CONTAINERS[settings.container].label} can't hold chapters or custom tags`;
+
+    const summary = summarizeEncoding(encoding);
+    summary.videoCodec = copier?.videoCodec ?? summary.videoCodec;
+    summary.audioCodec = copier?.audioCodec ?? summary.audioCodec;
+    if (summary.videoCodec && !copier) summary.frameRate = frameRate;
+    summary.notes = [passthroughNote, audioCopyNote, subtitleNote, burnInNote, blendingNote, tagsNote, ...summary.notes]
+      .filter(note => note !== undefined);
+    emit({ type: 'encoding', encoding: summary });
+    for (const note of summary.notes) {
+      emit({ type: 'warning', message: note });
+    }
+
+    output = new Output({ format: encoding.format, target });
+    output.setMetadataTags(buildMetadataTags(result, chapters));
+    copier?.addTracks(output);
+
+    const videoSource = encoding.videoCodec && new VideoSampleSource({
+      codec: encoding.videoCodec,
+      bitrate: encoding.videoBitrate,
+      keyFrameInterval: encoding.keyFrameIntervalSec,
+    });
+    const audioSource = encoding.audioCodec && new AudioSampleSource({
+      codec: encoding.audioCodec,
+      bitrate: encoding.audioBitrate,
+    });
+
+    if (videoSource) output.addVideoTrack(videoSource, { frameRate });
+    if (audioSource) output.addAudioTrack(audioSource);
+
+    const subtitleSource = wantsSubtitles && subtitlesFit ? new TextSubtitleSource('webvtt') : null;
+    if (subtitleSource) {
+      output.addSubtitleTrack(subtitleSource, { languageCode: captionSettings?.language, name: 'Captions' });
+    }
+
+    signal?.throwIfAborted();
+    await output.start();
+
+    if (subtitleSource) {
+      await subtitleSource.add(formatWebVtt(captions));
+      subtitleSource.close();
+    }
+
+    const openReader = async ({ input, startSec, endSec, segment }: PlannedSegment) => {
+      const track = await input.getPrimaryVideoTrack();
+      if (!track || !(await track.canDecode())) return null;
+      const { crop } = segment;
+      return new SegmentFrameReader(track, startSec, endSec, (sample, time) =>
+        placer.place(sample, segment.fit, crop && cropAt(crop, time * 1000))
+      );
+    };
+
+    // Frames are conformed to the output rate first, so captions are burned into the final frames
+    videoWriter = videoSource && new VideoTimelineWriter(videoSource);
+    const writer = videoWriter;
+    conformer = writer && new FrameRateConformer(
+      frameRate,
+      async (sample) => writer.add(burner ? burner.burn(sample) : sample),
+      blender
+    );
+    const addVideo = async (sample: VideoSample) => {
+      if (conformer) await conformer.add(sample);
+      else sample.close();
+    };
+
+    // Music is decoded up front, ducked under every unmuted segment
+    let music: MusicBed | null = null;
+    if (audioSource && result.music?.length) {
+      emit({ type: 'status', message: 'Loading music...' });
+      music = await loadMusicBed(result.music, {
+        durationSec: timeline.durationSec,
+        duckRanges: timeline.entries
+          .filter((_, i) => !planned[i].segment.muted)
+          .map(entry => ({ startSec: entry.startSec, endSec: entry.startSec + entry.durationSec })),
+        format: audioFormat,
+        createSource: options.createMusicSource,
+        signal,
+        onWarning: (message) => emit({ type: 'warning', message }),
+      });
+      signal?.throwIfAborted();
+    }
+
+    const audioWriter = audioSource && new AudioTimelineWriter(audioSource, audioFormat, music);
+    const toAudioFrame = (sec: number) => Math.round(sec * audioFormat.sampleRate);
+
+    const syncReports: SegmentSyncReport[] = [];
+
+    // 3. Process Each Segment
+    for (let i = 0; i < planned.length; i++) {
+      signal?.throwIfAborted();
+
+      const plannedSegment = planned[i];
+      const { segment } = plannedSegment;
+      const entry = timeline.entries[i];
+      const nextEntry = timeline.entries[i + 1];
+      const segmentEndSec = entry.startSec + entry.durationSec;
+      let videoStats: SegmentVideoStats = { frames: 0, contentStartSec: null, contentEndSec: null };
+
+      emit({ type: 'segment-started', index: plannedSegment.index, segment });
+      emit({ type: 'status', message: `Processing Segment ${plannedSegment.index + 1}/${segments.length}: ${segment.purpose}` });
+
+      // 3a. Process Video: copied packets, or decoded and re-encoded frames.
+      // Audio-only containers skip video entirely.
+      if (copier) {
+        videoStats = await copier.copyVideo(i, entry.startSec, signal);
+        emit({
+          type: 'segment-rendered',
+          index: plannedSegment.index,
+          method: 'copied',
+          note: copiedFromCache ? 'From the render cache' : copier.snapNote(i),
+        });
+      }
+
+      reader = !videoSource ? null : incomingReader === undefined ? await openReader(plannedSegment) : incomingReader;
+      incomingReader = undefined;
+
+      if (reader) {
+        const tailStart = entry.durationSec - entry.overlapOutSec;
+
+        for (;;) {
+          const frame = await reader.next();
+          if (!frame) break;
+          if (signal?.aborted) {
+            frame.sample.close();
+            break;
+          }
+
+          const { sample, time } = frame;
+          const outputTime = entry.startSec + time;
+
+          // The head of this segment was already blended into the previous segment's tail
+          if (time < entry.overlapInSec) {
+            sample.close();
+            continue;
+          }
+
+          if (compositor && nextEntry?.transitionIn && entry.overlapOutSec > 0 && time >= tailStart) {
+            if (incomingReader === undefined) incomingReader = await openReader(planned[i + 1]);
+            const incoming = incomingReader ? await incomingReader.frameAt(time - tailStart) : null;
+            if (incoming) {
+              const progress = (time - tailStart) / entry.overlapOutSec;
+              await addVideo(compositor.transition(sample, incoming.sample, progress, nextEntry.transitionIn, outputTime, sample.duration));
+              sample.close();
+              continue;
+            }
+          }
+
+          const dipAmount = dipAmountAt(entry, time);
+          if (compositor && dipAmount > 0) {
+            const color = (time < entry.durationSec / 2 ? entry.dipIn?.color : entry.dipOut?.color) ?? '#000000';
+            await addVideo(compositor.dip(sample, dipAmount, color, outputTime, sample.duration));
+            sample.close();
+            continue;
+          }
+
+          sample.setTimestamp(outputTime);
+          await addVideo(sample);
+        }
+
+        await reader.close();
+        reader = null;
+      }
+      if (videoWriter && conformer) {
+        // The last frame fills the slots left and is clipped to end with the segment
+        const content = await conformer.endSegment(segmentEndSec);
+        videoStats = { ...await videoWriter.endSegment(segmentEndSec), ...content };
+        emit({ type: 'segment-rendered', index: plannedSegment.index, method: 're-encoded', note: passthroughNote });
+      }
+
+      signal?.throwIfAborted();
+
+      // 3b. Process Audio
+      let audioRange: { startSec: number; endSec: number } | null = null;
+      let paddedAudioSec = 0;
+
+      if (copier?.copiesAudio) {
+        audioRange = await copier.copyAudio(i, entry.startSec, entry.durationSec, signal);
+      } else if (audioWriter) {
+        const startFrame = toAudioFrame(entry.startSec);
+        const frameCount = toAudioFrame(entry.startSec + entry.durationSec) - startFrame;
+        const overlapOutFrames = nextEntry ? startFrame + frameCount - toAudioFrame(nextEntry.startSec) : 0;
+
+        let pcm = new Float32Array(frameCount * audioFormat.numberOfChannels); // Silence for muted segments
+        if (!segment.muted) {
+          paddedAudioSec = entry.durationSec;
+          const audioTrack = await plannedSegment.input.getPrimaryAudioTrack();
+          if (audioTrack && await audioTrack.canDecode()) {
+            const audio = await readSegmentAudio(
+              audioTrack, plannedSegment.startSec, plannedSegment.endSec, frameCount, audioFormat, signal
+            );
+            pcm = audio.pcm;
+            paddedAudioSec = (frameCount - audio.contentFrames) / audioFormat.sampleRate;
+            if (audio.contentStartFrame !== null && audio.contentEndFrame !== null) {
+              audioRange = {
+                startSec: entry.startSec + audio.contentStartFrame / audioFormat.sampleRate,
+                endSec: entry.startSec + audio.contentEndFrame / audioFormat.sampleRate,
+              };
+            }
+          }
+        }
+
+        applySegmentGain(pcm, segment, audioFormat);
+        applyBoundaryFades(pcm, entry, audioFormat);
+        await audioWriter.write(pcm, overlapOutFrames);
+      }
+
+      const report = syncReport(plannedSegment.index, entry, videoStats, audioRange, paddedAudioSec);
+      syncReports.push(report);
+      emit({ type: 'segment-sync', report });
+
+      signal?.throwIfAborted();
+      emit({ type: 'progress', progress: Math.min(0.99, segmentEndSec / timeline.durationSec) });
+    }
+
+    await audioWriter?.finish();
+
+    emit({ type: 'status', message: 'Finalizing...' });
+    await output.finalize();
+    emit({ type: 'progress', progress: 1 });
+
+    return {
+      target,
+      mimeType: await output.getMimeType(),
+      duration: timeline.durationSec,
+      sync: syncReports,
+    };
+  } catch (err) {
+    if (output?.state === 'pending' || output?.state === 'started') {
+      await output.cancel();
+    }
+    throw err;
+  } finally {
+    // Readers left open by a failure or cancel still hold their decoders
+    await Promise.allSettled([reader?.close(), incomingReader?.close()]);
+    conformer?.close();
+    videoWriter?.close();
+    inputs.dispose();
+    cachedInputs.forEach(input => input.dispose());
+  }
+}
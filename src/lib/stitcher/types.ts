@@ -0,0 +1,118 @@
+import type { BufferTarget, Input, Source, Target } from 'mediabunny';
+import type { MusicTrack, Segment, SourceFile } from '../../types';
+import type { TimedCaption } from '../captions';
+import type { Chapter } from '../chapters';
+import type { EncodingSummary } from '../exportSettings';
+
+// How a segment's video got into the output
+export type SegmentRenderMethod = 'copied' | 're-encoded';
+
+export interface SegmentRenderReport {
+  index: number; // Index in the project's segments
+  method: SegmentRenderMethod;
+  note?: string; // Key frame snapping for copies, or why a requested copy wasn't possible
+}
+
+// Where a segment's video and audio content actually landed on the output timeline, clipped to
+// the segment. Both tracks are then padded or trimmed to the segment's bounds, so any drift is
+// contained within the segment instead of carrying over to the next one.
+export interface SegmentSyncReport {
+  index: number; // Index in the project's segments
+  startSec: number; // Segment bounds on the output timeline
+  endSec: number;
+  videoFrames: number;
+  videoStartSec: number | null; // null without decodable video
+  videoEndSec: number | null;
+  audioStartSec: number | null; // null when muted or the source has no audio
+  audioEndSec: number | null;
+  paddedAudioSec: number; // Silence inserted where an unmuted source had no audio
+  startDriftSec: number | null; // Audio minus video, when both are present
+  endDriftSec: number | null;
+}
+
+export type StitchEvent =
+  | { type: 'status'; message: string }
+  | { type: 'progress'; progress: number }
+  | { type: 'segment-started'; index: number; segment: Segment }
+  | { type: 'segment-skipped'; index: number; segment: Segment; reason: string }
+  | ({ type: 'segment-rendered' } & SegmentRenderReport)
+  | { type: 'segment-sync'; report: SegmentSyncReport }
+  | { type: 'warning'; index?: number; message: string }
+  | { type: 'encoding'; encoding: EncodingSummary } // Codecs picked for the output, emitted before encoding starts
+  | { type: 'captions'; captions: TimedCaption[] } // Captions on the output timeline, for sidecar files
+  | { type: 'chapters'; chapters: Chapter[] }; // One per rendered segment, as written into the output
+
+// Identifiers that trace an output file back to the cutdown it was rendered from
+export type CutdownIdentifier = 'cutdown_uuid' | 'client_id' | 'chat_id';
+
+// Tags and chapters read back from a media file
+export interface MediaMetadata {
+  title: string | null;
+  comment: string | null;
+  description: string | null;
+  identifiers: Partial<Record<CutdownIdentifier, string>>;
+  chapters: Chapter[];
+  tags: Record<string, string>; // Every text tag under its name in the container
+}
+
+export type StitchEventListener = (event: StitchEvent) => void;
+
+export interface StitchOptions<T extends Target = BufferTarget> {
+  // Aborting stops decoding, cancels the output and releases all inputs
+  signal?: AbortSignal;
+  onEvent?: StitchEventListener;
+  // Where the output file is written. Defaults to an in-memory BufferTarget.
+  // The container and codecs come from the project's `export` settings.
+  target?: T;
+  // Writes MP4 and MOV as fragmented files, strictly in order, for a StreamTarget that can't seek
+  fragmented?: boolean;
+  // How source files are opened. Defaults to a UrlSource on `SourceFile.url`.
+  createSource?: (sourceFile: SourceFile) => Source;
+  // How music tracks are opened. Defaults to a UrlSource on `MusicTrack.url`.
+  createMusicSource?: (track: MusicTrack) => Source;
+  // An already trimmed file of the segment, made with the project's export settings, or null.
+  // With fast copy on, packets are copied from these instead of the sources when possible.
+  findCachedSegment?: (segment: Segment, sourceFile: SourceFile) => Promise<Source | null>;
+}
+
+// A segment that survived the source-duration checks, with its effective range
+export interface PlannedSegment {
+  index: number;
+  segment: Segment;
+  input: Input;
+  startSec: number;
+  endSec: number;
+}
+
+export interface StitchResult<T extends Target = BufferTarget> {
+  target: T;
+  mimeType: string;
+  duration: number; // Seconds of output timeline
+  sync: SegmentSyncReport[];
+}
+
+// Post-render verification of a file against the cutdown it was rendered from
+export type QaStatus = 'pass' | 'warn' | 'fail';
+
+export interface QaCheck {
+  name: string; // e.g. "duration", "black frames"
+  status: QaStatus;
+  detail: string;
+}
+
+export interface SegmentQaReport {
+  index: number; // Index in the project's segments
+  purpose: string;
+  startSec: number | null; // Bounds on the output timeline; null when the segment wasn't rendered
+  endSec: number | null;
+  status: QaStatus; // The worst of its checks
+  checks: QaCheck[];
+}
+
+export interface QaReport {
+  cutdownUuid: string;
+  checkedAt: string; // ISO 8601
+  status: QaStatus; // The worst of every check in the report
+  checks: QaCheck[]; // The file as a whole: duration and tracks
+  segments: SegmentQaReport[];
+}
@@ -0,0 +1,265 @@
+import { AudioBufferSink, CanvasSink, type Input, type InputAudioTrack, type InputVideoTrack } from 'mediabunny';
+import type { Segment, VideoCutdownResult } from '../../types';
+import { AUDIO_CODEC_LABELS, CONTAINERS, VIDEO_CODEC_LABELS, formatFrameRate, type EncodingSummary } from '../exportSettings';
+import { resolveOutputSpec } from '../outputSpec';
+import type { QaCheck, QaReport, QaStatus, SegmentQaReport, SegmentSyncReport } from './types';
+
+// What the render was meant to produce: the project, the codecs it encoded with, and where each
+// rendered segment landed on the output timeline
+export interface RenderExpectations {
+  cutdown: VideoCutdownResult;
+  encoding: EncodingSummary;
+  segments: SegmentSyncReport[];
+}
+
+export interface VerifyOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+// Picture checks look at this many small frames per second of each segment
+const FRAME_SAMPLES_PER_SEC = 4;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+// Mean luma (0-255) at or below which a frame counts as black
+const BLACK_LUMA = 16;
+// Mean luma change between samples below which the picture counts as not moving
+const FROZEN_DIFFERENCE = 0.5;
+const FROZEN_WARNING_SEC = 1.5;
+// RMS levels: below SILENCE_DB an unmuted segment counts as silent, above SOUND_DB a muted one as audible
+const SILENCE_DB = -60;
+const SOUND_DB = -45;
+// Beyond this a duration mismatch fails rather than warns
+const DURATION_FAIL_SEC = 0.5;
+const FRAME_RATE_TOLERANCE = 0.05;
+const FRAME_RATE_SAMPLE_PACKETS = 120;
+
+const STATUS_ORDER: QaStatus[] = ['pass', 'warn', 'fail'];
+
+export const worstStatus = (statuses: QaStatus[]): QaStatus =>
+  statuses.reduce<QaStatus>((worst, status) => STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst, 'pass');
+
+const check = (name: string, status: QaStatus, detail: string): QaCheck => ({ name, status, detail });
+
+// Within `passSec` passes; beyond DURATION_FAIL_SEC fails
+const checkDuration = (name: string, actualSec: number, expectedSec: number, passSec: number): QaCheck => {
+  const off = actualSec - expectedSec;
+  const status = Math.abs(off) <= passSec ? 'pass' : Math.abs(off) <= DURATION_FAIL_SEC ? 'warn' : 'fail';
+  const detail = `${actualSec.toFixed(3)}s, expected ${expectedSec.toFixed(3)}s` +
+    (status === 'pass' ? '' : ` (${off > 0 ? '+' : ''}${Math.round(off * 1000)}ms)`);
+  return check(name, status, detail);
+};
+
+interface PictureStats {
+  samples: number;
+  black: number;
+  longestFrozenSec: number;
+}
+
+// Samples the picture over [fromSec, toSec) and measures how much of it is black or not moving
+const measurePicture = async (track: InputVideoTrack, fromSec: number, toSec: number, signal?: AbortSignal): Promise<PictureStats> => {
+  const count = Math.max(1, Math.round((toSec - fromSec) * FRAME_SAMPLES_PER_SEC));
+  const timestamps = Array.from({ length: count }, (_, i) => fromSec + (i + 0.5) * (toSec - fromSec) / count);
+  const canvas = new OffscreenCanvas(SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not create a 2D canvas context for the picture checks');
+
+  const sink = new CanvasSink(track, { width: SAMPLE_WIDTH, height: SAMPLE_HEIGHT, fit: 'fill', poolSize: 1 });
+  const stats: PictureStats = { samples: 0, black: 0, longestFrozenSec: 0 };
+  let previous: Float32Array | null = null;
+  let frozenRun = 0;
+
+  for await (const wrapped of sink.canvasesAtTimestamps(timestamps)) {
+    signal?.throwIfAborted();
+    if (!wrapped) continue;
+    context.drawImage(wrapped.canvas, 0, 0);
+    const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    const luma = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+    let total = 0;
+    let change = 0;
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+      total += luma[i];
+      if (previous) change += Math.abs(luma[i] - previous[i]);
+    }
+
+    stats.samples++;
+    if (total / luma.length <= BLACK_LUMA) stats.black++;
+    frozenRun = previous && change / luma.length < FROZEN_DIFFERENCE ? frozenRun + 1 : 0;
+    stats.longestFrozenSec = Math.max(stats.longestFrozenSec, frozenRun / FRAME_SAMPLES_PER_SEC);
+    previous = luma;
+  }
+  return stats;
+};
+
+// RMS level of [fromSec, toSec) across all channels in dBFS, or null when there are no samples
+const measureLoudness = async (track: InputAudioTrack, fromSec: number, toSec: number, signal?: AbortSignal): Promise<number | null> => {
+  let sumOfSquares = 0;
+  let count = 0;
+
+  for await (const { buffer, timestamp } of new AudioBufferSink(track).buffers(fromSec, toSec)) {
+    signal?.throwIfAborted();
+    const first = Math.max(0, Math.round((fromSec - timestamp) * buffer.sampleRate));
+    const last = Math.min(buffer.length, Math.round((toSec - timestamp) * buffer.sampleRate));
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const samples = buffer.getChannelData(channel);
+      for (let i = first; i < last; i++) sumOfSquares += samples[i] * samples[i];
+      count += Math.max(0, last - first);
+    }
+  }
+
+  if (count === 0) return null;
+  const rms = Math.sqrt(sumOfSquares / count);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+const formatDb = (db: number) => Number.isFinite(db) ? `${db.toFixed(1)} dBFS` : 'digital silence';
+
+// The tracks, their codecs and the picture format against what the render encoded
+const checkTracks = async (
+  video: InputVideoTrack | null,
+  audio: InputAudioTrack | null,
+  expected: RenderExpectations
+): Promise<QaCheck[]> => {
+  const { cutdown, encoding } = expected;
+  const checks: QaCheck[] = [];
+
+  if (encoding.videoCodec) {
+    if (!video) {
+      checks.push(check('video track', 'fail', 'The file has no video track'));
+    } else {
+      const codecMatches = video.codec === encoding.videoCodec;
+      checks.push(check('video track', codecMatches ? 'pass' : 'fail', codecMatches
+        ? VIDEO_CODEC_LABELS[encoding.videoCodec]
+        : `${video.codec ?? 'unknown codec'}, expected ${VIDEO_CODEC_LABELS[encoding.videoCodec]}`));
+
+      const spec = resolveOutputSpec(cutdown);
+      const sizeMatches = video.displayWidth === spec.width && video.displayHeight === spec.height;
+      checks.push(check('dimensions', sizeMatches ? 'pass' : 'fail', `${video.displayWidth}x${video.displayHeight}` +
+        (sizeMatches ? '' : `, expected ${spec.width}x${spec.height}`)));
+
+      // Copied video keeps the sources' timing, so only encoded video has a rate to check
+      if (encoding.frameRate) {
+        const { averagePacketRate } = await video.computePacketStats(FRAME_RATE_SAMPLE_PACKETS);
+        const rateMatches = Math.abs(averagePacketRate - encoding.frameRate) <= FRAME_RATE_TOLERANCE;
+        checks.push(check('frame rate', rateMatches ? 'pass' : 'warn', formatFrameRate(averagePacketRate) +
+          (rateMatches ? '' : `, expected ${formatFrameRate(encoding.frameRate)}`)));
+      }
+    }
+  } else if (video && CONTAINERS[encoding.container].audioOnly) {
+    checks.push(check('video track', 'warn', `${CONTAINERS[encoding.container].label} is audio-only but the file has video`));
+  }
+
+  if (encoding.audioCodec) {
+    if (!audio) {
+      checks.push(check('audio track', 'fail', 'The file has no audio track'));
+    } else {
+      const codecMatches = audio.codec === encoding.audioCodec;
+      checks.push(check('audio track', codecMatches ? 'pass' : 'fail', codecMatches
+        ? `${AUDIO_CODEC_LABELS[encoding.audioCodec]}, ${audio.sampleRate / 1000} kHz, ${audio.numberOfChannels} ch`
+        : `${audio.codec ?? 'unknown codec'}, expected ${AUDIO_CODEC_LABELS[encoding.audioCodec]}`));
+    }
+  }
+
+  return checks;
+};
+
+// Transitions blend or dip the edges of a segment on purpose, so the picture and sound checks
+// leave them out
+const checkedRange = (report: SegmentSyncReport, segment: Segment, next: Segment | undefined, isFirst: boolean) => {
+  const inSec = isFirst ? 0 : (segment.transition?.duration_ms ?? 0) / 1000;
+  const outSec = (next?.transition?.duration_ms ?? 0) / 1000;
+  const fromSec = report.startSec + inSec;
+  const toSec = report.endSec - outSec;
+  return toSec - fromSec >= 1 / FRAME_SAMPLES_PER_SEC ? { fromSec, toSec } : { fromSec: report.startSec, toSec: report.endSec };
+};
+
+const checkPicture = (stats: PictureStats): QaCheck[] => {
+  if (stats.samples === 0) return [check('picture', 'fail', 'No frames could be decoded')];
+  return [
+    stats.black === stats.samples ? check('black frames', 'fail', 'The whole segment is black')
+      : stats.black > 0 ? check('black frames', 'warn', `${stats.black} of ${stats.samples} sampled frames are black`)
+      : check('black frames', 'pass', `None in ${stats.samples} sampled frames`),
+    stats.longestFrozenSec >= FROZEN_WARNING_SEC
+      ? check('frozen frames', 'warn', `The picture doesn't move for ${stats.longestFrozenSec.toFixed(2)}s`)
+      : check('frozen frames', 'pass', 'The picture keeps moving'),
+  ];
+};
+
+const checkSound = (loudnessDb: number | null, segment: Segment, hasMusic: boolean): QaCheck => {
+  const level = loudnessDb === null ? 'no audio' : formatDb(loudnessDb);
+  if (segment.muted) {
+    if (hasMusic) return check('sound', 'pass', `Muted; music plays under it (${level})`);
+    return loudnessDb !== null && loudnessDb > SOUND_DB
+      ? check('sound', 'fail', `Muted but audible (${level})`)
+      : check('sound', 'pass', `Muted and silent (${level})`);
+  }
+  return loudnessDb === null || loudnessDb < SILENCE_DB
+    ? check('sound', 'warn', `Not muted but silent (${level})`)
+    : check('sound', 'pass', level);
+};
+
+// Reopens a rendered file and checks it against the cutdown: the total and per-segment
+// durations, the tracks, codecs, size and frame rate, and, within each segment, black or frozen
+// picture and sound where there should be silence (or the other way round).
+export const verifyRender = async (input: Input, expected: RenderExpectations, options: VerifyOptions = {}): Promise<QaReport> => {
+  const { signal, onProgress } = options;
+  const { cutdown, encoding, segments: rendered } = expected;
+  const frameSec = 1 / (encoding.frameRate ?? 30);
+
+  const [durationSec, video, audio] = await Promise.all([
+    input.computeDuration(),
+    input.getPrimaryVideoTrack(),
+    input.getPrimaryAudioTrack(),
+  ]);
+  signal?.throwIfAborted();
+
+  // Each segment is rounded to whole frames, so the total may drift by half a frame per segment
+  const checks = [
+    checkDuration('duration', durationSec, cutdown.total_duration_sec, 0.05 + rendered.length * frameSec / 2),
+    ...await checkTracks(video, audio, expected),
+  ];
+  const canCheckPicture = video !== null && await video.canDecode();
+  const canCheckSound = audio !== null && await audio.canDecode();
+  const hasMusic = Boolean(cutdown.music?.length);
+  if (video && !canCheckPicture) checks.push(check('picture', 'warn', 'The video can\'t be decoded here, so the picture isn\'t checked'));
+  if (audio && !canCheckSound) checks.push(check('sound', 'warn', 'The audio can\'t be decoded here, so the sound isn\'t checked'));
+
+  const segments: SegmentQaReport[] = [];
+  for (const [index, segment] of cutdown.segments.entries()) {
+    signal?.throwIfAborted();
+    const position = rendered.findIndex(report => report.index === index);
+    const report = rendered[position];
+    if (!report) {
+      const missing = check('rendered', 'fail', 'The segment was skipped and is not in the file');
+      segments.push({ index, purpose: segment.purpose, startSec: null, endSec: null, status: 'fail', checks: [missing] });
+      continue;
+    }
+
+    const segmentChecks = [checkDuration('duration', report.endSec - report.startSec, segment.duration_sec, frameSec + 0.01)];
+    const next = rendered[position + 1] && cutdown.segments[rendered[position + 1].index];
+    const { fromSec, toSec } = checkedRange(report, segment, next, position === 0);
+
+    if (canCheckPicture && video) segmentChecks.push(...checkPicture(await measurePicture(video, fromSec, toSec, signal)));
+    if (canCheckSound && audio) segmentChecks.push(checkSound(await measureLoudness(audio, fromSec, toSec, signal), segment, hasMusic));
+
+    segments.push({
+      index,
+      purpose: segment.purpose,
+      startSec: report.startSec,
+      endSec: report.endSec,
+      status: worstStatus(segmentChecks.map(c => c.status)),
+      checks: segmentChecks,
+    });
+    onProgress?.((index + 1) / cutdown.segments.length);
+  }
+
+  return {
+    cutdownUuid: cutdown.cutdown_uuid,
+    checkedAt: new Date().toISOString(),
+    status: worstStatus([...checks, ...segments].map(c => c.status)),
+    checks,
+    segments,
+  };
+};
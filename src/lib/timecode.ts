@@ -0,0 +1,40 @@
+// Timecodes in the cutdown JSON look like "00:04.800-00:08.500" (MM:SS.mmm-MM:SS.mmm).
+const TIMECODE_PART = /^(\d+):(\d{1,2})(?:\.(\d{1,3}))?$/;
+
+export const formatTimecodePart = (ms: number): string => {
+  const rounded = Math.max(0, Math.round(ms));
+  const minutes = Math.floor(rounded / 60000);
+  const seconds = Math.floor((rounded % 60000) / 1000);
+  const millis = rounded % 1000;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(millis).padStart(3, '0')}`;
+};
+
+export const formatTimecode = (startMs: number, endMs: number): string =>
+  `${formatTimecodePart(startMs)}-${formatTimecodePart(endMs)}`;
+
+export const parseTimecodePart = (value: string): number | null => {
+  const match = TIMECODE_PART.exec(value.trim());
+  if (!match) return null;
+  const seconds = parseInt(match[2], 10);
+  if (seconds >= 60) return null;
+  const millis = match[3] ? parseInt(match[3].padEnd(3, '0'), 10) : 0;
+  return parseInt(match[1], 10) * 60000 + seconds * 1000 + millis;
+};
+
+export const parseTimecode = (value: string): { startMs: number; endMs: number } | null => {
+  const parts = value.split('-');
+  if (parts.length !== 2) return null;
+  const startMs = parseTimecodePart(parts[0]);
+  const endMs = parseTimecodePart(parts[1]);
+  if (startMs === null || endMs === null) return null;
+  return { startMs, endMs };
+};
+
+// Frame n of a source at `fps` covers [n / fps, (n + 1) / fps)
+export const frameIndexAt = (ms: number, fps: number): number => Math.max(0, Math.floor(ms * fps / 1000 + 1e-6));
+
+// Whole-ms in and out points for frame `index`. The in point rounds up and the out point (the end,
+// exclusive) rounds down, so the range keeps exactly the frames between them.
+export const frameInPointMs = (index: number, fps: number): number => Math.ceil(index * 1000 / fps - 1e-6);
+
+export const frameOutPointMs = (index: number, fps: number): number => Math.floor((index + 1) * 1000 / fps + 1e-6);
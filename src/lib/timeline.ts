@@ -0,0 +1,85 @@
+import type { Segment, SegmentTransition } from '../types';
+
+export interface TimelineItem {
+  durationSec: number;
+  transition?: SegmentTransition;
+}
+
+export interface DipWindow {
+  durationSec: number;
+  color: string;
+}
+
+export interface TimelineEntry {
+  startSec: number;        // Position on the output timeline
+  durationSec: number;
+  overlapInSec: number;    // Shared with the previous segment (crossfade/wipe)
+  overlapOutSec: number;   // Shared with the next segment
+  dipIn: DipWindow | null; // Fade in from a color at the start
+  dipOut: DipWindow | null; // Fade out to a color at the end
+  transitionIn: SegmentTransition | null;
+}
+
+export interface Timeline {
+  entries: TimelineEntry[];
+  durationSec: number;
+}
+
+export const DEFAULT_DIP_COLOR = '#000000';
+
+export const isOverlapTransition = (transition: SegmentTransition | undefined | null): boolean =>
+  transition?.type === 'crossfade' || transition?.type === 'wipe';
+
+// Lays segments out on the output timeline. Overlapping transitions pull each segment
+// earlier by their duration, so the output is shorter than the sum of the segments.
+// Transition durations are clamped so no segment is consumed by more than its own length.
+export const computeTimeline = (items: TimelineItem[]): Timeline => {
+  const entries: TimelineEntry[] = items.map(item => ({
+    startSec: 0,
+    durationSec: Math.max(0, item.durationSec),
+    overlapInSec: 0,
+    overlapOutSec: 0,
+    dipIn: null,
+    dipOut: null,
+    transitionIn: null,
+  }));
+
+  // The first segment has nothing to transition from
+  for (let i = 1; i < entries.length; i++) {
+    const transition = items[i].transition;
+    if (!transition || !(transition.duration_ms > 0)) continue;
+
+    const previous = entries[i - 1];
+    const current = entries[i];
+    const requested = transition.duration_ms / 1000;
+
+    if (isOverlapTransition(transition)) {
+      const available = Math.min(previous.durationSec - previous.overlapInSec, current.durationSec);
+      const overlap = Math.max(0, Math.min(requested, available));
+      if (overlap === 0) continue;
+      previous.overlapOutSec = overlap;
+      current.overlapInSec = overlap;
+    } else {
+      const half = requested / 2;
+      const color = transition.color ?? DEFAULT_DIP_COLOR;
+      previous.dipOut = { durationSec: Math.min(half, previous.durationSec / 2), color };
+      current.dipIn = { durationSec: Math.min(half, current.durationSec / 2), color };
+    }
+    current.transitionIn = transition;
+  }
+
+  let position = 0;
+  for (const entry of entries) {
+    position -= entry.overlapInSec;
+    entry.startSec = position;
+    position += entry.durationSec;
+  }
+
+  return { entries, durationSec: Math.max(0, position) };
+};
+
+export const computeCutdownTimeline = (segments: Segment[]): Timeline =>
+  computeTimeline(segments.map(segment => ({
+    durationSec: (segment.end_ms - segment.start_ms) / 1000,
+    transition: segment.transition,
+  })));
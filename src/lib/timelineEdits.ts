@@ -0,0 +1,126 @@
+import type { Segment, VideoCutdownResult } from '../types';
+import { computeCutdownTimeline } from './timeline';
+import { formatTimecode } from './timecode';
+
+// Edits made on the visual timeline. Each one changes the cutdown in place, in the shape
+// `updateCutdownJson` expects: it returns a reason when the edit can't be made.
+
+// Shortest segment a trim or split may leave behind
+export const MIN_SEGMENT_MS = 100;
+
+const roundSec = (sec: number) => Math.round(sec * 1000) / 1000;
+
+const inRange = (cutdown: VideoCutdownResult, index: number) => index >= 0 && index < cutdown.segments.length;
+
+const nextSceneId = (cutdown: VideoCutdownResult) =>
+  cutdown.segments.reduce((max, segment) => Math.max(max, segment.scene_id), 0) + 1;
+
+// Keyframed crops are timed from the segment start, so they move when the start does to stay on
+// the same source frames
+const shiftCropKeyframes = (segment: Segment, startDeltaMs: number) => {
+  if (!Array.isArray(segment.crop) || startDeltaMs === 0) return;
+  segment.crop = segment.crop.map(keyframe => ({ ...keyframe, offset_ms: keyframe.offset_ms - startDeltaMs }));
+};
+
+// Segment captions are in source time too; after a split each half keeps the cues that show in
+// its own range, so a cue across the cut is kept by both
+const keepCaptionsInRange = (segment: Segment) => {
+  if (!Array.isArray(segment.captions)) return;
+  segment.captions = segment.captions.filter(cue => cue.end_ms > segment.start_ms && cue.start_ms < segment.end_ms);
+  if (segment.captions.length === 0) delete segment.captions;
+};
+
+// Recomputes what the JSON derives from start_ms/end_ms: each segment's timecode and
+// duration_sec, and the project's total_duration_sec (after transition overlaps) and total_scenes
+export const syncDerivedFields = (cutdown: VideoCutdownResult) => {
+  for (const segment of cutdown.segments) {
+    segment.timecode = formatTimecode(segment.start_ms, segment.end_ms);
+    segment.duration_sec = roundSec((segment.end_ms - segment.start_ms) / 1000);
+  }
+  cutdown.total_scenes = cutdown.segments.length;
+  cutdown.total_duration_sec = roundSec(computeCutdownTimeline(cutdown.segments).durationSec);
+};
+
+export const moveSegment = (cutdown: VideoCutdownResult, from: number, to: number): string | void => {
+  if (!inRange(cutdown, from) || !inRange(cutdown, to)) return `there is no segment ${Math.max(from, to) + 1}`;
+  const [segment] = cutdown.segments.splice(from, 1);
+  cutdown.segments.splice(to, 0, segment);
+};
+
+// Sets a segment's source range. `sourceDurationMs` caps the end when the source's length is known.
+export const setSegmentRange = (
+  cutdown: VideoCutdownResult,
+  index: number,
+  startMs: number,
+  endMs: number,
+  sourceDurationMs?: number
+): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  const start = Math.max(0, Math.round(startMs));
+  const end = Math.min(Math.round(endMs), sourceDurationMs ?? Infinity);
+  if (end - start < MIN_SEGMENT_MS) return `segments must be at least ${MIN_SEGMENT_MS}ms long`;
+
+  const segment = cutdown.segments[index];
+  shiftCropKeyframes(segment, start - segment.start_ms);
+  segment.start_ms = start;
+  segment.end_ms = end;
+};
+
+// Moves a segment onto another source, keeping its range where the new source is long enough
+export const setSegmentSource = (
+  cutdown: VideoCutdownResult,
+  index: number,
+  sourceId: number,
+  sourceDurationMs?: number
+): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  const segment = cutdown.segments[index];
+  if (segment.source_id === sourceId) return;
+  const end = Math.min(segment.end_ms, sourceDurationMs ?? Infinity);
+  const start = Math.min(segment.start_ms, end - MIN_SEGMENT_MS);
+  if (start < 0) return `source ${sourceId} is shorter than ${MIN_SEGMENT_MS}ms`;
+  shiftCropKeyframes(segment, start - segment.start_ms);
+  segment.source_id = sourceId;
+  segment.start_ms = start;
+  segment.end_ms = end;
+};
+
+// Splits a segment at `atMs` in source time. The first half keeps the transition in and the
+// fade in, the second half the fade out; captions go with the half they show in, and everything
+// else is copied.
+export const splitSegment = (cutdown: VideoCutdownResult, index: number, atMs: number): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  const first = cutdown.segments[index];
+  const at = Math.round(atMs);
+  if (at - first.start_ms < MIN_SEGMENT_MS || first.end_ms - at < MIN_SEGMENT_MS) {
+    return `both halves must be at least ${MIN_SEGMENT_MS}ms long`;
+  }
+
+  const second: Segment = { ...structuredClone(first), scene_id: nextSceneId(cutdown), start_ms: at };
+  shiftCropKeyframes(second, at - first.start_ms);
+  delete second.transition;
+  delete second.fade_in_ms;
+  delete first.fade_out_ms;
+  first.end_ms = at;
+  keepCaptionsInRange(first);
+  keepCaptionsInRange(second);
+  cutdown.segments.splice(index + 1, 0, second);
+};
+
+// Inserts a copy of a segment right after it, under a new scene_id
+export const duplicateSegment = (cutdown: VideoCutdownResult, index: number): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  const copy: Segment = { ...structuredClone(cutdown.segments[index]), scene_id: nextSceneId(cutdown) };
+  cutdown.segments.splice(index + 1, 0, copy);
+};
+
+export const deleteSegment = (cutdown: VideoCutdownResult, index: number): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  if (cutdown.segments.length === 1) return 'a cutdown needs at least one segment';
+  cutdown.segments.splice(index, 1);
+};
+
+export const toggleSegmentMute = (cutdown: VideoCutdownResult, index: number): string | void => {
+  if (!inRange(cutdown, index)) return `there is no segment ${index + 1}`;
+  cutdown.segments[index].muted = !cutdown.segments[index].muted;
+};
@@ -0,0 +1,112 @@
+import {
+  Input,
+  Output,
+  Conversion,
+  BufferTarget,
+  ALL_FORMATS,
+} from 'mediabunny';
+import type { ExportSettings, Segment } from '../types';
+import { negotiateEncoding, summarizeEncoding } from './encoding';
+import { CHANNEL_LAYOUTS, CONTAINERS, resolveExportSettings, type EncodingSummary } from './exportSettings';
+import type { MediaInput } from './localFiles';
+import { createMediaSource } from './stitcher/inputs';
+
+export interface TrimSegmentOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  // Container and codec preferences, as for the stitched output. Defaults to MP4 with H.264/AAC.
+  exportSettings?: ExportSettings;
+}
+
+export interface TrimSegmentResult {
+  buffer: ArrayBuffer;
+  mimeType: string;
+  encoding: EncodingSummary;
+}
+
+// Trims (and optionally mutes) a single segment of a source into its own file
+export async function trimSegment(
+  segment: Segment,
+  source: MediaInput, // URL or local file
+  options: TrimSegmentOptions = {}
+): Promise<TrimSegmentResult> {
+  const { signal } = options;
+  signal?.throwIfAborted();
+
+  const input = new Input({
+    source: createMediaSource(source),
+    formats: ALL_FORMATS,
+  });
+
+  let conversion: Conversion | null = null;
+  const cancel = () => {
+    conversion?.cancel().catch(() => {});
+  };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    // Convert ms to seconds
+    const start = segment.start_ms / 1000;
+    const end = segment.end_ms / 1000;
+
+    const settings = resolveExportSettings(options.exportSettings);
+    if (segment.muted && CONTAINERS[settings.container].audioOnly) {
+      throw new Error(`${CONTAINERS[settings.container].label} is audio-only and this segment is muted`);
+    }
+
+    const videoTrack = await input.getPrimaryVideoTrack();
+    const audioTrack = segment.muted ? null : await input.getPrimaryAudioTrack();
+    const sampleRate = settings.sampleRate ?? undefined;
+    const numberOfChannels = settings.channelLayout ? CHANNEL_LAYOUTS[settings.channelLayout].numberOfChannels : undefined;
+    const encoding = await negotiateEncoding(settings, {
+      width: videoTrack?.displayWidth ?? 0,
+      height: videoTrack?.displayHeight ?? 0,
+      sampleRate: sampleRate ?? audioTrack?.sampleRate ?? 48000,
+      numberOfChannels: numberOfChannels ?? audioTrack?.numberOfChannels ?? 2,
+      hasVideo: videoTrack !== null,
+      hasAudio: audioTrack !== null,
+    });
+    signal?.throwIfAborted();
+
+    const output = new Output({
+      format: encoding.format,
+      target: new BufferTarget(),
+    });
+
+    conversion = await Conversion.init({
+      input,
+      output,
+      trim: { start, end },
+      video: encoding.videoCodec
+        ? { codec: encoding.videoCodec, bitrate: encoding.videoBitrate, keyFrameInterval: encoding.keyFrameIntervalSec }
+        : { discard: true },
+      audio: encoding.audioCodec
+        ? { codec: encoding.audioCodec, bitrate: encoding.audioBitrate, sampleRate, numberOfChannels }
+        : { discard: true },
+    });
+    signal?.throwIfAborted();
+
+    if (!conversion.isValid) {
+      throw new Error('Invalid conversion configuration: ' + JSON.stringify(conversion.discardedTracks));
+    }
+
+    conversion.onProgress = (p) => options.onProgress?.(p);
+
+    // Long segments take as long as they take; callers cancel through the signal
+    await conversion.execute();
+    signal?.throwIfAborted();
+
+    if (!output.target.buffer || output.target.buffer.byteLength === 0) {
+      throw new Error('Conversion produced empty result');
+    }
+
+    return {
+      buffer: output.target.buffer,
+      mimeType: await output.getMimeType(),
+      encoding: summarizeEncoding(encoding),
+    };
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    input.dispose();
+  }
+}
@@ -0,0 +1,702 @@
+import type { JsonPath } from './jsonLocator';
+import { formatTimecode, parseTimecode } from './timecode';
+import { computeCutdownTimeline, isOverlapTransition } from './timeline';
+import { LOCAL_URL_PREFIX } from './localFiles';
+import {
+  AUDIO_CODEC_LABELS,
+  CHANNEL_LAYOUTS,
+  CONTAINERS,
+  MAX_FRAME_RATE,
+  QUALITY_PRESETS,
+  VIDEO_CODEC_LABELS,
+} from './exportSettings';
+import type { ContainerFormat, ExportAudioCodec, ExportVideoCodec, SampleData, Segment } from '../types';
+
+// Errors block Execute; warnings are shown in the editor but still let the render run.
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: JsonPath;
+  message: string;
+}
+
+// Durations in the JSON are rounded to tenths or hundredths of a second
+const DURATION_TOLERANCE_SEC = 0.05;
+const TIMECODE_TOLERANCE_MS = 1;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+
+  error(path: JsonPath, message: string) {
+    this.issues.push({ severity: 'error', path, message });
+  }
+
+  warning(path: JsonPath, message: string) {
+    this.issues.push({ severity: 'warning', path, message });
+  }
+
+  // Checks that `obj[key]` has the expected primitive type. Returns false when it does not.
+  expect(obj: JsonObject, key: string, type: 'string' | 'number' | 'boolean' | 'integer', path: JsonPath): boolean {
+    const value = obj[key];
+    const fieldPath = [...path, key];
+
+    if (value === undefined) {
+      this.error(fieldPath, `Missing required field "${key}"`);
+      return false;
+    }
+
+    const ok =
+      type === 'integer' ? isFiniteNumber(value) && Number.isInteger(value) :
+      type === 'number' ? isFiniteNumber(value) :
+      typeof value === type;
+
+    if (!ok) {
+      this.error(fieldPath, `"${key}" must be ${type === 'integer' ? 'an integer' : `a ${type}`}, got ${JSON.stringify(value)}`);
+    }
+    return ok;
+  }
+}
+
+const validateSourceFile = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, 'Source file must be an object');
+    return;
+  }
+
+  issues.expect(value, 'source_id', 'integer', path);
+  issues.expect(value, 'asset_id', 'string', path);
+  if (issues.expect(value, 'url', 'string', path) && (value.url as string).trim() === '') {
+    issues.error([...path, 'url'], '"url" must not be empty');
+  }
+
+  // Files picked from disk are bound by asset_id and recognised again by their fingerprint
+  const localFile = value.local_file;
+  if (localFile !== undefined) {
+    if (!isObject(localFile)) {
+      issues.error([...path, 'local_file'], '"local_file" must be an object with name, size and last_modified');
+    } else {
+      issues.expect(localFile, 'name', 'string', [...path, 'local_file']);
+      issues.expect(localFile, 'size', 'integer', [...path, 'local_file']);
+      issues.expect(localFile, 'last_modified', 'number', [...path, 'local_file']);
+    }
+  }
+  if (typeof value.url === 'string' && value.url.startsWith(LOCAL_URL_PREFIX)) {
+    if (value.url !== `${LOCAL_URL_PREFIX}${value.asset_id}`) {
+      issues.error([...path, 'url'], `Local sources must use the URL "${LOCAL_URL_PREFIX}${String(value.asset_id)}"`);
+    }
+    if (localFile === undefined) {
+      issues.warning([...path, 'url'], 'Local source has no "local_file", so it can only be bound with Locate');
+    }
+  }
+
+  for (const key of ['duration_sec', 'duration_ms', 'fps'] as const) {
+    if (issues.expect(value, key, 'number', path) && (value[key] as number) <= 0) {
+      issues.error([...path, key], `"${key}" must be greater than 0`);
+    }
+  }
+
+  // The two durations are the same fact; "Probe sources" reads which one the media agrees with
+  if (isFiniteNumber(value.duration_sec) && isFiniteNumber(value.duration_ms) &&
+      Math.abs(value.duration_sec * 1000 - value.duration_ms) > DURATION_TOLERANCE_SEC * 1000) {
+    issues.warning(
+      [...path, 'duration_ms'],
+      `"duration_ms" (${Math.round(value.duration_ms)}) disagrees with "duration_sec" (${value.duration_sec}); "Probe sources" shows which the media has`
+    );
+  }
+
+  const dimension = value.dimension;
+  if (dimension === undefined) {
+    issues.error([...path, 'dimension'], 'Missing required field "dimension"');
+  } else if (!isObject(dimension)) {
+    issues.error([...path, 'dimension'], '"dimension" must be an object with width and height');
+  } else {
+    for (const key of ['width', 'height'] as const) {
+      if (issues.expect(dimension, key, 'integer', [...path, 'dimension']) && (dimension[key] as number) <= 0) {
+        issues.error([...path, 'dimension', key], `"${key}" must be greater than 0`);
+      }
+    }
+  }
+};
+
+const FIT_MODES = ['cover', 'contain', 'blur'];
+const ASPECT_RATIOS = ['9:16', '1:1', '4:5', '16:9'];
+
+const validateFit = (value: JsonObject, path: JsonPath, issues: IssueCollector) => {
+  if (value.fit !== undefined && !FIT_MODES.includes(value.fit as string)) {
+    issues.error([...path, 'fit'], `"fit" must be one of ${FIT_MODES.join(', ')}`);
+  }
+};
+
+const validateOutputSpec = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, '"output" must be an object');
+    return;
+  }
+
+  if (value.aspect_ratio !== undefined && !ASPECT_RATIOS.includes(value.aspect_ratio as string)) {
+    issues.error([...path, 'aspect_ratio'], `"aspect_ratio" must be one of ${ASPECT_RATIOS.join(', ')}`);
+  }
+
+  const hasWidth = value.width !== undefined;
+  const hasHeight = value.height !== undefined;
+  if (hasWidth !== hasHeight) {
+    issues.error(path, '"width" and "height" must be given together');
+  }
+  for (const key of ['width', 'height'] as const) {
+    if (value[key] === undefined || !issues.expect(value, key, 'integer', path)) continue;
+    if ((value[key] as number) <= 0) {
+      issues.error([...path, key], `"${key}" must be greater than 0`);
+    } else if ((value[key] as number) % 2 !== 0) {
+      issues.warning([...path, key], `"${key}" is odd; it will be rounded to an even number for encoding`);
+    }
+  }
+  if (hasWidth && hasHeight && value.aspect_ratio !== undefined) {
+    issues.warning([...path, 'aspect_ratio'], '"aspect_ratio" is ignored when "width" and "height" are given');
+  }
+
+  validateFit(value, path, issues);
+  if (value.background_color !== undefined && typeof value.background_color !== 'string') {
+    issues.error([...path, 'background_color'], '"background_color" must be a CSS color string');
+  }
+};
+
+const validateExportSettings = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, '"export" must be an object');
+    return;
+  }
+
+  let container: ContainerFormat = 'mp4';
+  if (value.container !== undefined) {
+    if (Object.hasOwn(CONTAINERS, value.container as string)) {
+      container = value.container as ContainerFormat;
+    } else {
+      issues.error([...path, 'container'], `"container" must be one of ${Object.keys(CONTAINERS).join(', ')}`);
+    }
+  }
+  const info = CONTAINERS[container];
+
+  if (value.video_codec !== undefined) {
+    if (!Object.hasOwn(VIDEO_CODEC_LABELS, value.video_codec as string)) {
+      issues.error([...path, 'video_codec'], `"video_codec" must be one of ${Object.keys(VIDEO_CODEC_LABELS).join(', ')}`);
+    } else if (info.audioOnly) {
+      issues.warning([...path, 'video_codec'], `${info.label} is audio-only; "video_codec" is ignored`);
+    } else if (!info.videoCodecs.includes(value.video_codec as ExportVideoCodec)) {
+      issues.warning(
+        [...path, 'video_codec'],
+        `${info.label} can't hold ${value.video_codec}; ${info.videoCodecs[0]} is used instead`
+      );
+    }
+  }
+
+  if (value.audio_codec !== undefined) {
+    if (!Object.hasOwn(AUDIO_CODEC_LABELS, value.audio_codec as string)) {
+      issues.error([...path, 'audio_codec'], `"audio_codec" must be one of ${Object.keys(AUDIO_CODEC_LABELS).join(', ')}`);
+    } else if (!info.audioCodecs.includes(value.audio_codec as ExportAudioCodec)) {
+      issues.warning(
+        [...path, 'audio_codec'],
+        `${info.label} can't hold ${value.audio_codec}; ${info.audioCodecs[0]} is used instead`
+      );
+    }
+  }
+
+  if (value.quality !== undefined && !(QUALITY_PRESETS as string[]).includes(value.quality as string)) {
+    issues.error([...path, 'quality'], `"quality" must be one of ${QUALITY_PRESETS.join(', ')}`);
+  }
+
+  // Encoders only accept whole bits per second
+  for (const key of ['video_bitrate', 'audio_bitrate'] as const) {
+    if (value[key] === undefined || !issues.expect(value, key, 'integer', path)) continue;
+    if ((value[key] as number) <= 0) {
+      issues.error([...path, key], `"${key}" must be greater than 0`);
+    }
+  }
+  if (info.audioOnly && value.video_bitrate !== undefined) {
+    issues.warning([...path, 'video_bitrate'], `${info.label} is audio-only; "video_bitrate" is ignored`);
+  }
+
+  if (
+    value.keyframe_interval_sec !== undefined &&
+    issues.expect(value, 'keyframe_interval_sec', 'number', path) &&
+    (value.keyframe_interval_sec as number) <= 0
+  ) {
+    issues.error([...path, 'keyframe_interval_sec'], '"keyframe_interval_sec" must be greater than 0');
+  }
+
+  if (value.frame_rate !== undefined && issues.expect(value, 'frame_rate', 'number', path)) {
+    const rate = value.frame_rate as number;
+    if (rate <= 0 || rate > MAX_FRAME_RATE) {
+      issues.error([...path, 'frame_rate'], `"frame_rate" must be greater than 0 and at most ${MAX_FRAME_RATE} fps`);
+    } else if (info.audioOnly) {
+      issues.warning([...path, 'frame_rate'], `${info.label} is audio-only; "frame_rate" is ignored`);
+    }
+  }
+  if (value.frame_blending !== undefined) issues.expect(value, 'frame_blending', 'boolean', path);
+
+  if (value.sample_rate !== undefined && issues.expect(value, 'sample_rate', 'integer', path)) {
+    const rate = value.sample_rate as number;
+    if (rate < 8000 || rate > 192000) {
+      issues.error([...path, 'sample_rate'], '"sample_rate" must be between 8000 and 192000 Hz');
+    } else if (rate > 48000) {
+      issues.warning([...path, 'sample_rate'], 'Browsers often can\'t encode audio above 48000 Hz');
+    }
+  }
+
+  if (value.channel_layout !== undefined && !Object.hasOwn(CHANNEL_LAYOUTS, value.channel_layout as string)) {
+    issues.error(
+      [...path, 'channel_layout'],
+      `"channel_layout" must be one of ${Object.keys(CHANNEL_LAYOUTS).join(', ')}`
+    );
+  }
+
+  if (
+    value.passthrough !== undefined &&
+    issues.expect(value, 'passthrough', 'boolean', path) &&
+    value.passthrough &&
+    info.audioOnly
+  ) {
+    issues.warning([...path, 'passthrough'], `${info.label} is audio-only; "passthrough" is ignored`);
+  }
+};
+
+const validateCropRect = (value: unknown, path: JsonPath, source: JsonObject | undefined, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, 'Crop must be an object with x, y, width and height');
+    return;
+  }
+
+  let ok = true;
+  for (const key of ['x', 'y', 'width', 'height'] as const) {
+    ok = issues.expect(value, key, 'number', path) && ok;
+  }
+  if (!ok) return;
+
+  const { x, y, width, height } = value as { x: number; y: number; width: number; height: number };
+  if (width <= 0 || height <= 0) {
+    issues.error(path, 'Crop width and height must be greater than 0');
+    return;
+  }
+
+  const dimension = source?.dimension;
+  if (x < 0 || y < 0 || (isObject(dimension) && isFiniteNumber(dimension.width) && isFiniteNumber(dimension.height) &&
+    (x + width > dimension.width || y + height > dimension.height))) {
+    issues.warning(path, 'Crop extends outside the source frame; it will be clamped');
+  }
+};
+
+const validateCrop = (
+  value: unknown,
+  path: JsonPath,
+  source: JsonObject | undefined,
+  segmentDurationMs: number | null,
+  issues: IssueCollector
+) => {
+  if (!Array.isArray(value)) {
+    validateCropRect(value, path, source, issues);
+    return;
+  }
+
+  if (value.length === 0) {
+    issues.error(path, 'Crop keyframes must not be empty');
+    return;
+  }
+
+  value.forEach((keyframe, index) => {
+    const keyframePath = [...path, index];
+    validateCropRect(keyframe, keyframePath, source, issues);
+    if (!isObject(keyframe) || !issues.expect(keyframe, 'offset_ms', 'number', keyframePath)) return;
+
+    const offset = keyframe.offset_ms as number;
+    if (offset < 0 || (segmentDurationMs !== null && offset > segmentDurationMs)) {
+      issues.warning([...keyframePath, 'offset_ms'], '"offset_ms" is outside the segment; the keyframe only affects interpolation');
+    }
+  });
+};
+
+const TRANSITION_TYPES = ['crossfade', 'dip', 'wipe'];
+const WIPE_DIRECTIONS = ['left', 'right', 'up', 'down'];
+
+const validateTransition = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, '"transition" must be an object with type and duration_ms');
+    return;
+  }
+
+  if (issues.expect(value, 'type', 'string', path) && !TRANSITION_TYPES.includes(value.type as string)) {
+    issues.error([...path, 'type'], `"type" must be one of ${TRANSITION_TYPES.join(', ')}`);
+  }
+  if (issues.expect(value, 'duration_ms', 'number', path) && (value.duration_ms as number) <= 0) {
+    issues.error([...path, 'duration_ms'], '"duration_ms" must be greater than 0');
+  }
+  if (value.color !== undefined && typeof value.color !== 'string') {
+    issues.error([...path, 'color'], '"color" must be a CSS color string');
+  }
+  if (value.direction !== undefined && !WIPE_DIRECTIONS.includes(value.direction as string)) {
+    issues.error([...path, 'direction'], `"direction" must be one of ${WIPE_DIRECTIONS.join(', ')}`);
+  }
+};
+
+// Optional `gain_db` and `fade_in_ms`/`fade_out_ms`, shared by segments and music tracks.
+// Returns the total fade length, or null when the fades are missing or invalid.
+const validateGainAndFades = (value: JsonObject, path: JsonPath, issues: IssueCollector): number | null => {
+  if (value.gain_db !== undefined && issues.expect(value, 'gain_db', 'number', path) && (value.gain_db as number) > 24) {
+    issues.warning([...path, 'gain_db'], `"gain_db" of ${value.gain_db} dB is likely to clip`);
+  }
+
+  let totalMs: number | null = 0;
+  for (const key of ['fade_in_ms', 'fade_out_ms'] as const) {
+    if (value[key] === undefined) continue;
+    if (!issues.expect(value, key, 'number', path) || (value[key] as number) < 0) {
+      if (isFiniteNumber(value[key])) issues.error([...path, key], `"${key}" must not be negative`);
+      totalMs = null;
+    } else if (totalMs !== null) {
+      totalMs += value[key] as number;
+    }
+  }
+  return totalMs;
+};
+
+const CAPTION_POSITIONS = ['top', 'middle', 'bottom'];
+
+// Checks a cue list and returns the ranges of the valid cues
+type CueRange = { index: number; startMs: number; endMs: number };
+
+const validateCaptionCues = (value: unknown, path: JsonPath, issues: IssueCollector): CueRange[] => {
+  if (!Array.isArray(value)) {
+    issues.error(path, 'Captions must be an array of cues');
+    return [];
+  }
+
+  const ranges: CueRange[] = [];
+  value.forEach((cue, index) => {
+    const cuePath = [...path, index];
+    if (!isObject(cue)) {
+      issues.error(cuePath, 'Caption cue must be an object with start_ms, end_ms and text');
+      return;
+    }
+    issues.expect(cue, 'text', 'string', cuePath);
+    const hasStart = issues.expect(cue, 'start_ms', 'number', cuePath);
+    const hasEnd = issues.expect(cue, 'end_ms', 'number', cuePath);
+    if (!hasStart || !hasEnd) return;
+
+    const startMs = cue.start_ms as number;
+    const endMs = cue.end_ms as number;
+    if (startMs < 0) {
+      issues.error([...cuePath, 'start_ms'], '"start_ms" must not be negative');
+    } else if (endMs <= startMs) {
+      issues.error([...cuePath, 'end_ms'], `"end_ms" (${endMs}) must be greater than "start_ms" (${startMs})`);
+    } else {
+      ranges.push({ index, startMs, endMs });
+    }
+  });
+  return ranges;
+};
+
+const validateCaptionSettings = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, '"captions" must be an object');
+    return;
+  }
+
+  if (value.cues !== undefined) validateCaptionCues(value.cues, [...path, 'cues'], issues);
+  if (value.language !== undefined && issues.expect(value, 'language', 'string', path) &&
+    !/^[a-z]{3}$/.test(value.language as string)) {
+    issues.warning([...path, 'language'], '"language" should be a three-letter ISO 639-2 code such as "eng"');
+  }
+  if (value.subtitle_track !== undefined) issues.expect(value, 'subtitle_track', 'boolean', path);
+  if (value.burn_in !== undefined) issues.expect(value, 'burn_in', 'boolean', path);
+
+  const style = value.style;
+  if (style === undefined) return;
+  const stylePath = [...path, 'style'];
+  if (!isObject(style)) {
+    issues.error(stylePath, '"style" must be an object');
+    return;
+  }
+  if (style.font_size !== undefined && issues.expect(style, 'font_size', 'number', stylePath) &&
+    ((style.font_size as number) <= 0 || (style.font_size as number) > 50)) {
+    issues.error([...stylePath, 'font_size'], '"font_size" is a percentage of the output height between 0 and 50');
+  }
+  if (style.font_family !== undefined) issues.expect(style, 'font_family', 'string', stylePath);
+  if (style.color !== undefined) issues.expect(style, 'color', 'string', stylePath);
+  if (style.position !== undefined && !CAPTION_POSITIONS.includes(style.position as string)) {
+    issues.error([...stylePath, 'position'], `"position" must be one of ${CAPTION_POSITIONS.join(', ')}`);
+  }
+  if (style.background_color !== undefined && style.background_color !== null && typeof style.background_color !== 'string') {
+    issues.error([...stylePath, 'background_color'], '"background_color" must be a CSS color string or null');
+  }
+  if (!value.burn_in) {
+    issues.warning(stylePath, '"style" only applies to burned-in captions; set "burn_in" to true');
+  }
+};
+
+const validateMusicTrack = (value: unknown, path: JsonPath, issues: IssueCollector) => {
+  if (!isObject(value)) {
+    issues.error(path, 'Music track must be an object');
+    return;
+  }
+
+  if (issues.expect(value, 'url', 'string', path) && (value.url as string).trim() === '') {
+    issues.error([...path, 'url'], '"url" must not be empty');
+  }
+  if (value.offset_sec !== undefined && issues.expect(value, 'offset_sec', 'number', path) && (value.offset_sec as number) < 0) {
+    issues.error([...path, 'offset_sec'], '"offset_sec" must not be negative');
+  }
+  if (value.duck_db !== undefined && issues.expect(value, 'duck_db', 'number', path) && (value.duck_db as number) > 0) {
+    issues.error([...path, 'duck_db'], '"duck_db" must be 0 or negative; it lowers the music under dialogue');
+  }
+  validateGainAndFades(value, path, issues);
+};
+
+const validateSegment = (
+  value: unknown,
+  path: JsonPath,
+  sources: Map<number, JsonObject>,
+  issues: IssueCollector
+) => {
+  if (!isObject(value)) {
+    issues.error(path, 'Segment must be an object');
+    return;
+  }
+
+  issues.expect(value, 'scene_id', 'integer', path);
+  issues.expect(value, 'purpose', 'string', path);
+  issues.expect(value, 'summary', 'string', path);
+  issues.expect(value, 'muted', 'boolean', path);
+  if (value.transition !== undefined) {
+    validateTransition(value.transition, [...path, 'transition'], issues);
+  }
+  validateFit(value, path, issues);
+  const hasTimecode = issues.expect(value, 'timecode', 'string', path);
+  const hasDuration = issues.expect(value, 'duration_sec', 'number', path);
+  const hasStart = issues.expect(value, 'start_ms', 'number', path);
+  const hasEnd = issues.expect(value, 'end_ms', 'number', path);
+
+  // Referential integrity: segment -> source
+  let source: JsonObject | undefined;
+  if (issues.expect(value, 'source_id', 'integer', path)) {
+    source = sources.get(value.source_id as number);
+    if (!source) {
+      issues.error([...path, 'source_id'], `No source file with source_id ${value.source_id}`);
+    }
+  }
+
+  const rangeMs = hasStart && hasEnd ? (value.end_ms as number) - (value.start_ms as number) : null;
+  if (value.crop !== undefined) {
+    validateCrop(value.crop, [...path, 'crop'], source, rangeMs, issues);
+  }
+
+  if (value.captions !== undefined) {
+    const cues = validateCaptionCues(value.captions, [...path, 'captions'], issues);
+    cues.forEach(({ index, startMs, endMs }) => {
+      if (hasStart && hasEnd && (endMs <= (value.start_ms as number) || startMs >= (value.end_ms as number))) {
+        issues.warning(
+          [...path, 'captions', index],
+          'Caption is outside the segment\'s source range and won\'t be shown; segment captions use source time'
+        );
+      }
+    });
+  }
+
+  const fadeMs = validateGainAndFades(value, path, issues);
+  if (fadeMs !== null && rangeMs !== null && rangeMs > 0 && fadeMs > rangeMs) {
+    issues.warning(path, `"fade_in_ms" and "fade_out_ms" add up to more than the segment (${rangeMs}ms)`);
+  }
+
+  if (!hasStart || !hasEnd) return;
+  const startMs = value.start_ms as number;
+  const endMs = value.end_ms as number;
+
+  if (startMs < 0) {
+    issues.error([...path, 'start_ms'], '"start_ms" must not be negative');
+  }
+  if (endMs <= startMs) {
+    issues.error([...path, 'end_ms'], `"end_ms" (${endMs}) must be greater than "start_ms" (${startMs})`);
+    return;
+  }
+
+  // Range sanity against the source's duration
+  if (source && isFiniteNumber(source.duration_ms)) {
+    const sourceDurationMs = source.duration_ms;
+    if (startMs >= sourceDurationMs) {
+      issues.error(
+        [...path, 'start_ms'],
+        `Segment starts at ${startMs}ms, after the end of source ${value.source_id} (${Math.round(sourceDurationMs)}ms)`
+      );
+    } else if (endMs > sourceDurationMs) {
+      issues.warning(
+        [...path, 'end_ms'],
+        `Segment ends at ${endMs}ms, past the end of source ${value.source_id} (${Math.round(sourceDurationMs)}ms); it will be truncated`
+      );
+    }
+  }
+
+  if (hasTimecode) {
+    const expected = formatTimecode(startMs, endMs);
+    const parsed = parseTimecode(value.timecode as string);
+    if (!parsed) {
+      issues.warning([...path, 'timecode'], `"timecode" is not in MM:SS.mmm-MM:SS.mmm format (expected "${expected}")`);
+    } else if (
+      Math.abs(parsed.startMs - startMs) > TIMECODE_TOLERANCE_MS ||
+      Math.abs(parsed.endMs - endMs) > TIMECODE_TOLERANCE_MS
+    ) {
+      issues.warning([...path, 'timecode'], `"timecode" disagrees with start_ms/end_ms (expected "${expected}")`);
+    }
+  }
+
+  if (hasDuration) {
+    const expected = (endMs - startMs) / 1000;
+    if (Math.abs((value.duration_sec as number) - expected) > DURATION_TOLERANCE_SEC) {
+      issues.warning([...path, 'duration_sec'], `"duration_sec" should be ${expected} to match start_ms/end_ms`);
+    }
+  }
+};
+
+export const validateCutdownResult = (value: unknown, path: JsonPath = []): ValidationIssue[] => {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.error(path, 'video_cutdown_result must be an object');
+    return issues.issues;
+  }
+
+  issues.expect(value, 'project_name', 'string', path);
+  issues.expect(value, 'cutdown_uuid', 'string', path);
+  issues.expect(value, 'client_id', 'integer', path);
+  issues.expect(value, 'user_id', 'string', path);
+  issues.expect(value, 'chat_id', 'string', path);
+  const hasTotalDuration = issues.expect(value, 'total_duration_sec', 'number', path);
+  const hasTotalScenes = issues.expect(value, 'total_scenes', 'integer', path);
+  if (value.output !== undefined) {
+    validateOutputSpec(value.output, [...path, 'output'], issues);
+  }
+  if (value.export !== undefined) {
+    validateExportSettings(value.export, [...path, 'export'], issues);
+  }
+  if (value.captions !== undefined) {
+    validateCaptionSettings(value.captions, [...path, 'captions'], issues);
+  }
+  if (value.music !== undefined) {
+    if (!Array.isArray(value.music)) {
+      issues.error([...path, 'music'], '"music" must be an array of tracks');
+    } else {
+      value.music.forEach((track, index) => validateMusicTrack(track, [...path, 'music', index], issues));
+    }
+  }
+
+  // Source files
+  const sources = new Map<number, JsonObject>();
+  if (!Array.isArray(value.source_files)) {
+    issues.error([...path, 'source_files'], '"source_files" must be an array');
+  } else {
+    value.source_files.forEach((sourceFile, index) => {
+      const sourcePath = [...path, 'source_files', index];
+      validateSourceFile(sourceFile, sourcePath, issues);
+      if (isObject(sourceFile) && isFiniteNumber(sourceFile.source_id)) {
+        if (sources.has(sourceFile.source_id)) {
+          issues.error([...sourcePath, 'source_id'], `Duplicate source_id ${sourceFile.source_id}`);
+        } else {
+          sources.set(sourceFile.source_id, sourceFile);
+        }
+      }
+    });
+  }
+
+  // Segments
+  if (!Array.isArray(value.segments)) {
+    issues.error([...path, 'segments'], '"segments" must be an array');
+    return issues.issues;
+  }
+
+  // A new project starts empty; it is kept as a draft until a segment is added
+  if (value.segments.length === 0) {
+    issues.warning([...path, 'segments'], 'The project has no segments yet, so there is nothing to execute');
+  }
+
+  const sceneIds = new Set<number>();
+  value.segments.forEach((segment, index) => {
+    const segmentPath = [...path, 'segments', index];
+    validateSegment(segment, segmentPath, sources, issues);
+    if (isObject(segment) && isFiniteNumber(segment.scene_id)) {
+      // scene_id doubles as the React key of each segment player
+      if (sceneIds.has(segment.scene_id)) {
+        issues.error([...segmentPath, 'scene_id'], `Duplicate scene_id ${segment.scene_id}`);
+      }
+      sceneIds.add(segment.scene_id);
+    }
+  });
+
+  // Transitions are only laid out once every segment has a usable range
+  const timedSegments = value.segments.every(
+    segment => isObject(segment) && isFiniteNumber(segment.start_ms) && isFiniteNumber(segment.end_ms)
+  );
+  const timeline = timedSegments ? computeCutdownTimeline(value.segments as Segment[]) : null;
+
+  value.segments.forEach((segment, index) => {
+    if (!isObject(segment) || !isObject(segment.transition) || !isFiniteNumber(segment.transition.duration_ms)) return;
+    const transitionPath = [...path, 'segments', index, 'transition'];
+    const transition = segment.transition as unknown as Segment['transition'];
+
+    if (index === 0) {
+      issues.warning(transitionPath, 'The first segment has no previous segment to transition from; this transition is ignored');
+    } else if (timeline && isOverlapTransition(transition)) {
+      const overlapMs = Math.round(timeline.entries[index].overlapInSec * 1000);
+      if (overlapMs < segment.transition.duration_ms) {
+        issues.warning(
+          [...transitionPath, 'duration_ms'],
+          `Transition is longer than the segments it joins; it will be shortened to ${overlapMs}ms`
+        );
+      }
+    }
+  });
+
+  // Project totals
+  if (hasTotalScenes && value.total_scenes !== value.segments.length) {
+    issues.warning(
+      [...path, 'total_scenes'],
+      `"total_scenes" is ${value.total_scenes} but there are ${value.segments.length} segments`
+    );
+  }
+
+  if (hasTotalDuration) {
+    const summed = value.segments.reduce<number>(
+      (acc, segment) => acc + (isObject(segment) && isFiniteNumber(segment.duration_sec) ? segment.duration_sec : 0),
+      0
+    );
+    // Crossfades and wipes overlap neighbouring segments and shorten the output
+    const overlap = timeline?.entries.reduce((acc, entry) => acc + entry.overlapInSec, 0) ?? 0;
+    const expected = Math.round((summed - overlap) * 1000) / 1000;
+    if (Math.abs((value.total_duration_sec as number) - expected) > DURATION_TOLERANCE_SEC) {
+      issues.warning(
+        [...path, 'total_duration_sec'],
+        overlap > 0
+          ? `"total_duration_sec" is ${value.total_duration_sec} but segments add up to ${expected} after transition overlaps`
+          : `"total_duration_sec" is ${value.total_duration_sec} but segments add up to ${expected}`
+      );
+    }
+  }
+
+  return issues.issues;
+};
+
+export const validateSampleData = (value: unknown): ValidationIssue[] => {
+  if (!isObject(value) || !('video_cutdown_result' in value)) {
+    return [{ severity: 'error', path: [], message: 'Expected an object with a "video_cutdown_result" field' }];
+  }
+  return validateCutdownResult(value.video_cutdown_result, ['video_cutdown_result']);
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error');
+
+// A valid project with no segments: it can be edited and saved but not executed or rendered
+export const isDraftProject = (data: SampleData): boolean => data.video_cutdown_result.segments.length === 0;
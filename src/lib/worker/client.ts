@@ -0,0 +1,148 @@
+import type { TimedCaption } from '../captions';
+import type { Chapter } from '../chapters';
+import type { EncodingSummary } from '../exportSettings';
+import type { FilmstripLayout } from '../filmstrip';
+import type { SourceProbe } from '../probe';
+import type { MediaMetadata, QaReport, SegmentRenderReport, SegmentSyncReport } from '../stitcher/types';
+import type { RenderJob, WorkerRequest, WorkerResponse } from './protocol';
+
+export interface RenderJobHandlers {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  onStatus?: (message: string) => void;
+  onWarning?: (message: string, segmentIndex?: number) => void;
+  onEncoding?: (encoding: EncodingSummary) => void;
+  onSegmentRendered?: (report: SegmentRenderReport) => void;
+  onSegmentSync?: (report: SegmentSyncReport) => void;
+  onCaptions?: (captions: TimedCaption[]) => void;
+  onChapters?: (chapters: Chapter[]) => void;
+  onMetadata?: (metadata: MediaMetadata) => void;
+  onFilmstrip?: (layout: FilmstripLayout) => void;
+  onProbe?: (probe: SourceProbe) => void;
+  onQaReport?: (report: QaReport) => void;
+  onCacheHit?: () => void;
+  onBytesWritten?: (bytes: number) => void;
+}
+
+let nextJobId = 1;
+
+// How long a cancelled job gets to close its output before its worker is terminated anyway
+const CANCEL_GRACE_MS = 2000;
+
+// Runs a render job in its own dedicated worker and resolves with the encoded file. A file
+// streamed to disk comes back as a Blob that reads from disk rather than memory.
+// Each job gets a fresh worker so its decoders and encoders are released when it ends.
+export function runRenderJob(job: RenderJob, handlers: RenderJobHandlers = {}): Promise<Blob> {
+  const { signal } = handlers;
+  const jobId = nextJobId++;
+
+  return new Promise<Blob>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+    const send = (request: WorkerRequest) => worker.postMessage(request);
+    // Once the promise has settled, nothing more reaches the handlers
+    let settled = false;
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(graceTimer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    const onAbort = () => {
+      // Let the worker cancel its output cleanly; it is terminated once it confirms, or when a
+      // job stuck somewhere that never checks the signal runs out of time
+      settled = true;
+      send({ type: 'cancel', jobId });
+      signal?.removeEventListener('abort', onAbort);
+      graceTimer = setTimeout(finish, CANCEL_GRACE_MS);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.jobId !== jobId) return;
+      if (settled) {
+        // A cancelled job's last word, whatever it is, means its worker can go
+        const ended = message.type === 'cancelled' || message.type === 'error' ||
+          message.type === 'result' || message.type === 'saved';
+        if (ended) finish();
+        return;
+      }
+
+      switch (message.type) {
+        case 'progress':
+          handlers.onProgress?.(message.progress);
+          break;
+        case 'status':
+          handlers.onStatus?.(message.message);
+          break;
+        case 'warning':
+          handlers.onWarning?.(message.message, message.segmentIndex);
+          break;
+        case 'encoding':
+          handlers.onEncoding?.(message.encoding);
+          break;
+        case 'segment-rendered':
+          handlers.onSegmentRendered?.(message.report);
+          break;
+        case 'segment-sync':
+          handlers.onSegmentSync?.(message.report);
+          break;
+        case 'captions':
+          handlers.onCaptions?.(message.captions);
+          break;
+        case 'chapters':
+          handlers.onChapters?.(message.chapters);
+          break;
+        case 'metadata':
+          handlers.onMetadata?.(message.metadata);
+          break;
+        case 'filmstrip':
+          handlers.onFilmstrip?.(message.layout);
+          break;
+        case 'probe':
+          handlers.onProbe?.(message.probe);
+          break;
+        case 'qa-report':
+          handlers.onQaReport?.(message.report);
+          break;
+        case 'cache-hit':
+          handlers.onCacheHit?.();
+          break;
+        case 'written':
+          handlers.onBytesWritten?.(message.bytes);
+          break;
+        case 'result':
+          finish();
+          resolve(new Blob([message.buffer], { type: message.mimeType }));
+          break;
+        case 'saved':
+          finish();
+          resolve(new Blob([message.file], { type: message.mimeType }));
+          break;
+        case 'error':
+          finish();
+          reject(Object.assign(new Error(message.message), { name: message.name }));
+          break;
+        case 'cancelled':
+          finish();
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Render worker failed'));
+    };
+
+    send({ type: 'start', jobId, job });
+  });
+}
@@ -0,0 +1,5 @@
+export { runRenderJob } from './client';
+export type { RenderJobHandlers } from './client';
+export type { RenderJob, WorkerRequest, WorkerResponse } from './protocol';
+export { JOB_PRIORITY, MAX_CONCURRENCY, RenderScheduler, probeInWorker, renderScheduler } from './scheduler';
+export type { JobInfo, JobState, ScheduleOptions, SchedulerSnapshot } from './scheduler';
@@ -0,0 +1,45 @@
+import type { ExportSettings, Segment, VideoCutdownResult } from '../../types';
+import type { TimedCaption } from '../captions';
+import type { Chapter } from '../chapters';
+import type { EncodingSummary } from '../exportSettings';
+import type { FilmstripLayout } from '../filmstrip';
+import type { MediaInput } from '../localFiles';
+import type { SourceProbe } from '../probe';
+import type { MediaMetadata, QaReport, SegmentRenderReport, SegmentSyncReport } from '../stitcher/types';
+
+// Work the render worker knows how to do.
+// Sources are URLs or files from disk; posting a File shares its data instead of copying it.
+export type RenderJob =
+  // Files by asset_id. With a destination, the output streams into that file instead of memory.
+  | { kind: 'stitch'; cutdown: VideoCutdownResult; localFiles?: Record<string, Blob>; destination?: FileSystemFileHandle }
+  | { kind: 'trim'; segment: Segment; source: MediaInput; assetId?: string; exportSettings?: ExportSettings }
+  | { kind: 'filmstrip'; source: MediaInput; tileCount?: number; tileHeight?: number } // Result is a JPEG sprite
+  | { kind: 'probe'; source: MediaInput } // Result is empty; the probe comes in its own message
+  // Checks a rendered file against its cutdown. Result is empty; the report comes in its own message.
+  | { kind: 'verify'; file: Blob; cutdown: VideoCutdownResult; encoding: EncodingSummary; segments: SegmentSyncReport[] };
+
+// Main thread -> worker
+export type WorkerRequest =
+  | { type: 'start'; jobId: number; job: RenderJob }
+  | { type: 'cancel'; jobId: number };
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; progress: number }
+  | { type: 'status'; jobId: number; message: string }
+  | { type: 'warning'; jobId: number; message: string; segmentIndex?: number }
+  | { type: 'encoding'; jobId: number; encoding: EncodingSummary }
+  | { type: 'segment-rendered'; jobId: number; report: SegmentRenderReport }
+  | { type: 'segment-sync'; jobId: number; report: SegmentSyncReport }
+  | { type: 'captions'; jobId: number; captions: TimedCaption[] }
+  | { type: 'chapters'; jobId: number; chapters: Chapter[] }
+  | { type: 'metadata'; jobId: number; metadata: MediaMetadata } // Read back from the finished file
+  | { type: 'filmstrip'; jobId: number; layout: FilmstripLayout }
+  | { type: 'probe'; jobId: number; probe: SourceProbe }
+  | { type: 'qa-report'; jobId: number; report: QaReport }
+  | { type: 'cache-hit'; jobId: number } // The result came from the render cache
+  | { type: 'written'; jobId: number; bytes: number } // Size of the file on disk so far
+  | { type: 'result'; jobId: number; buffer: ArrayBuffer; mimeType: string }
+  | { type: 'saved'; jobId: number; file: File; mimeType: string } // The result, streamed to disk
+  | { type: 'error'; jobId: number; message: string; name: string } // name: e.g. QuotaExceededError
+  | { type: 'cancelled'; jobId: number };
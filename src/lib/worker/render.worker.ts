@@ -0,0 +1,216 @@
+import { ALL_FORMATS, BlobSource, BufferSource, BufferTarget, Input, StreamTarget, type StreamTargetChunk } from 'mediabunny';
+import { createSourceResolver, readMediaMetadata, stitch, verifyRender } from '../stitcher';
+import { renderFilmstrip } from '../filmstrip';
+import { probeSource } from '../probe';
+import { trimSegment } from '../trimSegment';
+import { readCachedRender, segmentCacheKey, writeCachedRender } from '../renderCache';
+import type { RenderJob, WorkerRequest, WorkerResponse } from './protocol';
+
+const controllers = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const warnCache = (jobId: number) => (err: unknown) => {
+  post({ type: 'warning', jobId, message: `Render cache unavailable: ${err instanceof Error ? err.message : err}` });
+  return null;
+};
+
+// Larger writes are fewer and faster; smaller ones report progress more often
+const DISK_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Streams the output into a file, reporting the size on disk after every write. The writes only
+// replace the file's contents once committed; MediaBunny closes the stream on cancel as well as
+// on success, so the job decides whether to commit or discard them.
+const createDiskTarget = async (jobId: number, handle: FileSystemFileHandle) => {
+  const file = await handle.createWritable();
+  let bytes = 0;
+  const writable = new WritableStream<StreamTargetChunk>({
+    write: async ({ data, position }) => {
+      await file.write({ type: 'write', data, position });
+      bytes = Math.max(bytes, position + data.byteLength);
+      post({ type: 'written', jobId, bytes });
+    },
+  });
+  return {
+    target: new StreamTarget(writable, { chunked: true, chunkSize: DISK_CHUNK_SIZE }),
+    commit: () => file.close(),
+    discard: (reason: unknown) => file.abort(reason).catch(() => {}),
+  };
+};
+
+type JobOutput = { buffer: ArrayBuffer; mimeType: string } | { file: File; mimeType: string };
+
+const runJob = async (jobId: number, job: RenderJob, signal: AbortSignal): Promise<JobOutput> => {
+  if (job.kind === 'trim') {
+    // The cache is an optimisation: if IndexedDB fails, the segment is simply trimmed again
+    const url = typeof job.source === 'string' ? job.source : '';
+    const key = await segmentCacheKey(job.segment, { url, assetId: job.assetId }, job.exportSettings);
+    const cached = await readCachedRender(key).catch(warnCache(jobId));
+    if (cached) {
+      post({ type: 'encoding', jobId, encoding: cached.entry.encoding });
+      post({ type: 'cache-hit', jobId });
+      return { buffer: await cached.blob.arrayBuffer(), mimeType: cached.entry.mimeType };
+    }
+
+    const { buffer, mimeType, encoding } = await trimSegment(job.segment, job.source, {
+      signal,
+      onProgress: (progress) => post({ type: 'progress', jobId, progress }),
+      exportSettings: job.exportSettings,
+    });
+    post({ type: 'encoding', jobId, encoding });
+    const { segment } = job;
+    await writeCachedRender({
+      key,
+      label: segment.purpose,
+      source: job.assetId || url,
+      startMs: segment.start_ms,
+      endMs: segment.end_ms,
+      muted: Boolean(segment.muted),
+      mimeType,
+      encoding,
+    }, new Blob([buffer], { type: mimeType })).catch(warnCache(jobId));
+    return { buffer, mimeType };
+  }
+
+  if (job.kind === 'filmstrip') {
+    const { buffer, mimeType, layout } = await renderFilmstrip(job.source, {
+      signal,
+      onProgress: (progress) => post({ type: 'progress', jobId, progress }),
+      tileCount: job.tileCount,
+      tileHeight: job.tileHeight,
+    });
+    post({ type: 'filmstrip', jobId, layout });
+    return { buffer, mimeType };
+  }
+
+  if (job.kind === 'probe') {
+    post({ type: 'probe', jobId, probe: await probeSource(job.source, signal) });
+    return { buffer: new ArrayBuffer(0), mimeType: 'application/octet-stream' };
+  }
+
+  if (job.kind === 'verify') {
+    const input = new Input({ source: new BlobSource(job.file), formats: ALL_FORMATS });
+    try {
+      const report = await verifyRender(input, job, {
+        signal,
+        onProgress: (progress) => post({ type: 'progress', jobId, progress }),
+      });
+      post({ type: 'qa-report', jobId, report });
+    } finally {
+      input.dispose();
+    }
+    return { buffer: new ArrayBuffer(0), mimeType: 'application/octet-stream' };
+  }
+
+  const { destination } = job;
+  // Files on disk take writes at any position, so MP4 and MOV keep a regular index at the end
+  // instead of being fragmented
+  const disk = destination ? await createDiskTarget(jobId, destination) : null;
+  const rendering = stitch<BufferTarget | StreamTarget>(job.cutdown, {
+    signal,
+    target: disk?.target ?? new BufferTarget(),
+    createSource: createSourceResolver(assetId => job.localFiles?.[assetId]),
+    findCachedSegment: async (segment, sourceFile) => {
+      const key = await segmentCacheKey(segment, { url: sourceFile.url, assetId: sourceFile.asset_id }, job.cutdown.export);
+      const cached = await readCachedRender(key).catch(warnCache(jobId));
+      return cached ? new BlobSource(cached.blob) : null;
+    },
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'status':
+          post({ type: 'status', jobId, message: event.message });
+          break;
+        case 'progress':
+          post({ type: 'progress', jobId, progress: event.progress });
+          break;
+        case 'segment-skipped':
+          post({
+            type: 'warning',
+            jobId,
+            segmentIndex: event.index,
+            message: `Segment ${event.index} (${event.segment.purpose}) skipped: ${event.reason}`,
+          });
+          break;
+        case 'warning':
+          post({ type: 'warning', jobId, segmentIndex: event.index, message: event.message });
+          break;
+        case 'encoding':
+          post({ type: 'encoding', jobId, encoding: event.encoding });
+          break;
+        case 'segment-rendered':
+          post({ type: 'segment-rendered', jobId, report: { index: event.index, method: event.method, note: event.note } });
+          break;
+        case 'segment-sync':
+          post({ type: 'segment-sync', jobId, report: event.report });
+          break;
+        case 'captions':
+          post({ type: 'captions', jobId, captions: event.captions });
+          break;
+        case 'chapters':
+          post({ type: 'chapters', jobId, chapters: event.chapters });
+          break;
+      }
+    },
+  });
+  // A failed or cancelled render leaves the file on disk as it was
+  const { target, mimeType } = await rendering.catch(async (err: unknown) => {
+    await disk?.discard(err);
+    throw err;
+  });
+  await disk?.commit();
+
+  const output = target instanceof BufferTarget ? target.buffer : await destination?.getFile();
+  if (!output) {
+    throw new Error('No output buffer created');
+  }
+
+  // Read the tags back from the finished file, so what the container kept can be checked
+  const source = output instanceof ArrayBuffer ? new BufferSource(output) : new BlobSource(output);
+  const written = new Input({ source, formats: ALL_FORMATS });
+  try {
+    post({ type: 'metadata', jobId, metadata: await readMediaMetadata(written) });
+  } catch (err: unknown) {
+    post({ type: 'warning', jobId, message: `Could not read the output's tags back: ${err instanceof Error ? err.message : err}` });
+  } finally {
+    written.dispose();
+  }
+  return output instanceof ArrayBuffer ? { buffer: output, mimeType } : { file: output, mimeType };
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.jobId)?.abort();
+    return;
+  }
+
+  const { jobId, job } = request;
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+
+  try {
+    const output = await runJob(jobId, job, controller.signal);
+    if ('file' in output) {
+      post({ type: 'saved', jobId, file: output.file, mimeType: output.mimeType });
+    } else {
+      // Hand the encoded file over without copying it
+      post({ type: 'result', jobId, buffer: output.buffer, mimeType: output.mimeType }, [output.buffer]);
+    }
+  } catch (err: unknown) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', jobId });
+    } else {
+      post({
+        type: 'error',
+        jobId,
+        message: err instanceof Error ? err.message : 'Unknown error',
+        name: err instanceof Error ? err.name : 'Error',
+      });
+    }
+  } finally {
+    controllers.delete(jobId);
+  }
+};
@@ -0,0 +1,315 @@
+import type { MediaInput } from '../localFiles';
+import type { SourceProbe } from '../probe';
+import { runRenderJob, type RenderJobHandlers } from './client';
+import type { RenderJob } from './protocol';
+
+export type JobState = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+// Higher runs first. Jobs of equal priority run in the order they were queued.
+export const JOB_PRIORITY = {
+  export: 100,
+  verify: 90,
+  probe: 75,
+  filmstrip: 50,
+  visibleSegment: 10,
+  segment: 0,
+} as const;
+
+export interface ScheduleOptions extends Omit<RenderJobHandlers, 'signal'> {
+  label: string;
+  priority?: number;
+  maxAttempts?: number; // Including the first. Defaults to 3.
+  onDone: (blob: Blob) => void;
+  onFailed?: (message: string) => void; // After the last attempt
+  onStateChange?: (state: JobState) => void;
+}
+
+export interface JobInfo {
+  id: number;
+  label: string;
+  kind: RenderJob['kind'];
+  priority: number;
+  state: JobState;
+  attempt: number; // Attempts started so far
+  maxAttempts: number;
+  progress: number;
+  error: string | null; // From the latest failed attempt
+  queuedAt: number;
+  startedAt: number | null; // First attempt
+  finishedAt: number | null;
+  retryAt: number | null;
+}
+
+export interface SchedulerSnapshot {
+  jobs: JobInfo[];
+  concurrency: number;
+  limitedTo: number | null; // Lowered after a job ran out of codec resources, raised again as jobs succeed
+}
+
+interface ScheduledJob {
+  info: JobInfo;
+  job: RenderJob;
+  options: ScheduleOptions;
+  controller: AbortController | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+export const MAX_CONCURRENCY = 8;
+const CONCURRENCY_KEY = 'renderConcurrency';
+
+// Successful jobs in a row before a lowered limit is raised by one again
+const RESTORE_AFTER_SUCCESSES = 5;
+
+// The browser ran out of decoders, encoders or storage rather than the job being bad. Chrome
+// reclaims codecs under pressure with a QuotaExceededError; other messages name the limit.
+const RESOURCE_ERROR_MESSAGE = /reclaimed|insufficient resources|resource limit/i;
+const isResourceError = (err: unknown) =>
+  err instanceof Error && (err.name === 'QuotaExceededError' || RESOURCE_ERROR_MESSAGE.test(err.message));
+
+// Every job opens its own decoders and encoders in its own worker. Hardware codec sessions are
+// scarce, so the default stays at half the cores, between 1 and 4.
+const defaultConcurrency = () => {
+  const saved = typeof localStorage === 'undefined' ? null : Number(localStorage.getItem(CONCURRENCY_KEY));
+  if (saved && saved >= 1 && saved <= MAX_CONCURRENCY) return saved;
+  const cores = typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2;
+  return Math.min(4, Math.max(1, Math.floor(cores / 2)));
+};
+
+// Queues render jobs and runs a limited number at once, highest priority first. Failed
+// attempts are retried with exponential backoff; jobs can be cancelled, re-queued and
+// re-prioritised while they wait. Owners hear back through the callbacks they scheduled with.
+export class RenderScheduler {
+  private jobs = new Map<number, ScheduledJob>();
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+  private concurrency: number;
+  private limitedTo: number | null = null;
+  private successStreak = 0;
+  private snapshot: SchedulerSnapshot;
+
+  constructor(concurrency = defaultConcurrency()) {
+    this.concurrency = concurrency;
+    this.snapshot = this.takeSnapshot();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  schedule(job: RenderJob, options: ScheduleOptions): number {
+    const id = this.nextId++;
+    this.jobs.set(id, {
+      info: {
+        id,
+        label: options.label,
+        kind: job.kind,
+        priority: options.priority ?? JOB_PRIORITY.segment,
+        state: 'queued',
+        attempt: 0,
+        maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        progress: 0,
+        error: null,
+        queuedAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        retryAt: null,
+      },
+      job,
+      options,
+      controller: null,
+      retryTimer: null,
+    });
+    this.changed();
+    this.pump();
+    return id;
+  }
+
+  setPriority(id: number, priority: number) {
+    const scheduled = this.jobs.get(id);
+    if (!scheduled || scheduled.info.priority === priority) return;
+    this.update(scheduled, { priority });
+    this.pump();
+  }
+
+  // Stops a job where it is. It stays listed and can be re-queued.
+  cancel(id: number) {
+    const scheduled = this.jobs.get(id);
+    if (!scheduled || !['queued', 'running', 'retrying'].includes(scheduled.info.state)) return;
+    this.halt(scheduled);
+    this.setState(scheduled, 'cancelled', { finishedAt: Date.now(), retryAt: null });
+    this.pump();
+  }
+
+  // Runs a failed or cancelled job again from its first attempt
+  requeue(id: number) {
+    const scheduled = this.jobs.get(id);
+    if (!scheduled || !['failed', 'cancelled'].includes(scheduled.info.state)) return;
+    this.setState(scheduled, 'queued', {
+      attempt: 0, progress: 0, error: null, queuedAt: Date.now(), startedAt: null, finishedAt: null,
+    });
+    this.pump();
+  }
+
+  // Cancels a job and forgets it, for owners that go away
+  remove(id: number) {
+    const scheduled = this.jobs.get(id);
+    if (!scheduled) return;
+    this.halt(scheduled);
+    this.jobs.delete(id);
+    this.changed();
+    this.pump();
+  }
+
+  clearFinished() {
+    for (const [id, { info }] of this.jobs) {
+      if (info.state === 'done' || info.state === 'failed' || info.state === 'cancelled') this.jobs.delete(id);
+    }
+    this.changed();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(concurrency)));
+    this.limitedTo = null;
+    this.successStreak = 0;
+    if (typeof localStorage !== 'undefined') localStorage.setItem(CONCURRENCY_KEY, String(this.concurrency));
+    this.changed();
+    this.pump();
+  }
+
+  private takeSnapshot(): SchedulerSnapshot {
+    return {
+      jobs: [...this.jobs.values()].map(({ info }) => info),
+      concurrency: this.concurrency,
+      limitedTo: this.limitedTo,
+    };
+  }
+
+  private changed() {
+    this.snapshot = this.takeSnapshot();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Job infos are replaced, not mutated, so snapshots can be compared by reference
+  private update(scheduled: ScheduledJob, changes: Partial<JobInfo>) {
+    scheduled.info = { ...scheduled.info, ...changes };
+    this.changed();
+  }
+
+  private setState(scheduled: ScheduledJob, state: JobState, changes: Partial<JobInfo> = {}) {
+    this.update(scheduled, { ...changes, state });
+    scheduled.options.onStateChange?.(state);
+  }
+
+  private halt(scheduled: ScheduledJob) {
+    scheduled.controller?.abort();
+    scheduled.controller = null;
+    if (scheduled.retryTimer !== null) clearTimeout(scheduled.retryTimer);
+    scheduled.retryTimer = null;
+  }
+
+  // After enough jobs succeed in a row, a lowered limit goes back up one step at a time
+  private succeeded() {
+    if (this.limitedTo === null || ++this.successStreak < RESTORE_AFTER_SUCCESSES) return;
+    this.successStreak = 0;
+    this.limitedTo = this.limitedTo + 1 >= this.concurrency ? null : this.limitedTo + 1;
+  }
+
+  private get running() {
+    return [...this.jobs.values()].filter(({ info }) => info.state === 'running').length;
+  }
+
+  private pump() {
+    const limit = Math.min(this.concurrency, this.limitedTo ?? Infinity);
+    let free = limit - this.running;
+    if (free <= 0) return;
+
+    const waiting = [...this.jobs.values()]
+      .filter(({ info }) => info.state === 'queued')
+      .sort((a, b) => b.info.priority - a.info.priority || a.info.queuedAt - b.info.queuedAt || a.info.id - b.info.id);
+    for (const scheduled of waiting) {
+      if (free-- <= 0) break;
+      this.start(scheduled);
+    }
+  }
+
+  private start(scheduled: ScheduledJob) {
+    const controller = new AbortController();
+    scheduled.controller = controller;
+    const { options } = scheduled;
+    const concurrentAtStart = this.running + 1;
+    this.setState(scheduled, 'running', {
+      attempt: scheduled.info.attempt + 1,
+      progress: 0,
+      startedAt: scheduled.info.startedAt ?? Date.now(),
+      retryAt: null,
+    });
+
+    runRenderJob(scheduled.job, {
+      ...options,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (scheduled.controller !== controller) return;
+        this.update(scheduled, { progress });
+        options.onProgress?.(progress);
+      },
+    }).then((blob) => {
+      if (scheduled.controller !== controller) return;
+      scheduled.controller = null;
+      this.succeeded();
+      this.setState(scheduled, 'done', { progress: 1, finishedAt: Date.now() });
+      options.onDone(blob);
+    }, (err: unknown) => {
+      if (scheduled.controller !== controller) return;
+      scheduled.controller = null;
+      const message = err instanceof Error ? err.message : 'Unknown error';
+
+      // Running out of codecs with others running means too many at once, not a bad job
+      this.successStreak = 0;
+      if (isResourceError(err) && concurrentAtStart > 1) {
+        this.limitedTo = Math.min(this.limitedTo ?? Infinity, concurrentAtStart - 1);
+      }
+
+      if (scheduled.info.attempt < scheduled.info.maxAttempts) {
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (scheduled.info.attempt - 1));
+        this.setState(scheduled, 'retrying', { error: message, retryAt: Date.now() + delay });
+        scheduled.retryTimer = setTimeout(() => {
+          scheduled.retryTimer = null;
+          this.setState(scheduled, 'queued', { retryAt: null });
+          this.pump();
+        }, delay);
+      } else {
+        this.setState(scheduled, 'failed', { error: message, finishedAt: Date.now() });
+        options.onFailed?.(message);
+      }
+    }).finally(() => this.pump());
+  }
+}
+
+// Shared by every component, so the limit and priorities apply across the page
+export const renderScheduler = new RenderScheduler();
+
+// Reads what a source contains in the worker, through the scheduler so it waits its turn
+export const probeInWorker = (source: MediaInput, label: string) => new Promise<SourceProbe>((resolve, reject) => {
+  let probe: SourceProbe | null = null;
+  renderScheduler.schedule({ kind: 'probe', source }, {
+    label,
+    priority: JOB_PRIORITY.probe,
+    maxAttempts: 1,
+    onProbe: (received) => {
+      probe = received;
+    },
+    onDone: () => probe ? resolve(probe) : reject(new Error('The probe came back empty')),
+    onFailed: (message) => reject(new Error(message)),
+    onStateChange: (state) => {
+      if (state === 'cancelled') reject(new Error('The probe was cancelled'));
+    },
+  });
+});
@@ -1,7 +1,14 @@
+// Fingerprint of a file picked from disk, so the same file can be bound again after a reload
+export interface LocalFileRef {
+  name: string;
+  size: number; // Bytes
+  last_modified: number; // ms since the epoch, as reported by the browser
+}
+
 export interface SourceFile {
   source_id: number;
   asset_id: string;
-  url: string;
+  url: string; // `local:<asset_id>` for files picked from disk
   duration_sec: number;
   fps: number;
   duration_ms: number;
@@ -9,6 +16,113 @@ export interface SourceFile {
     width: number;
     height: number;
   };
+  local_file?: LocalFileRef;
+}
+
+// How a source frame is placed into the output frame:
+// `cover` fills it and crops the overflow, `contain` letterboxes onto `background_color`,
+// `blur` letterboxes onto a blurred, zoomed copy of the same frame.
+export type FitMode = 'cover' | 'contain' | 'blur';
+
+export type AspectRatioPreset = '9:16' | '1:1' | '4:5' | '16:9';
+
+export interface OutputSpec {
+  aspect_ratio?: AspectRatioPreset;
+  // Explicit size in pixels; takes precedence over aspect_ratio
+  width?: number;
+  height?: number;
+  fit?: FitMode; // Default for every segment, defaults to cover
+  background_color?: string; // Letterbox color for `contain`, defaults to black
+}
+
+export type ContainerFormat = 'mp4' | 'webm' | 'mov' | 'mkv' | 'wav' | 'adts';
+
+export type ExportVideoCodec = 'avc' | 'hevc' | 'vp9' | 'av1' | 'vp8';
+
+export type ExportAudioCodec = 'aac' | 'opus' | 'mp3' | 'vorbis' | 'flac' | 'pcm-s16' | 'pcm-s24' | 'pcm-f32';
+
+export type QualityPreset = 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
+
+export type ChannelLayout = 'mono' | 'stereo' | '5.1';
+
+// Codecs are preferences: when the runtime can't encode one, the first encodable codec the
+// container supports is used instead. Explicit bitrates take precedence over `quality`.
+export interface ExportSettings {
+  container?: ContainerFormat; // Defaults to mp4; wav and adts are audio-only
+  video_codec?: ExportVideoCodec;
+  audio_codec?: ExportAudioCodec;
+  quality?: QualityPreset;
+  video_bitrate?: number; // Bits per second
+  audio_bitrate?: number; // Bits per second
+  keyframe_interval_sec?: number;
+  // Frames per second of the video. Without it, the rate the most footage is shot at is used.
+  // Sources at other rates are conformed by dropping or repeating frames, or by blending
+  // neighbouring frames when `frame_blending` is on.
+  frame_rate?: number;
+  frame_blending?: boolean;
+  // Every source is resampled and mixed to these. Without them, the first unmuted source's
+  // rate (capped at 48kHz) and layout are used.
+  sample_rate?: number; // Hz
+  channel_layout?: ChannelLayout;
+  // Copy encoded packets instead of re-encoding when the sources allow it. Cuts snap out to key
+  // frames, so copied segments can start slightly earlier and end slightly later than requested.
+  passthrough?: boolean;
+}
+
+// Rectangle in source pixel coordinates (after rotation)
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Crop rectangle at `offset_ms` from the start of the segment; rectangles in between are interpolated
+export interface CropKeyframe extends CropRect {
+  offset_ms: number;
+}
+
+export type SegmentCrop = CropRect | CropKeyframe[];
+
+export type TransitionType = 'crossfade' | 'dip' | 'wipe';
+
+export type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Transition from the previous segment into this one.
+// `crossfade` and `wipe` overlap the two segments by `duration_ms`;
+// `dip` fades out to `color` and back in, without shortening the timeline.
+export interface SegmentTransition {
+  type: TransitionType;
+  duration_ms: number;
+  color?: string; // dip only, defaults to black
+  direction?: WipeDirection; // wipe only, defaults to left
+}
+
+// A caption shown from `start_ms` to `end_ms`. On a segment these are source times, like the
+// segment's own range; on the project they are output times.
+export interface CaptionCue {
+  start_ms: number;
+  end_ms: number;
+  text: string; // May span several lines
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+// How burned-in captions are drawn
+export interface CaptionStyle {
+  font_size?: number; // Percent of the output height, defaults to 5
+  font_family?: string; // CSS font family, defaults to sans-serif
+  color?: string; // Defaults to white
+  position?: CaptionPosition; // Defaults to bottom
+  background_color?: string | null; // Box behind the text, defaults to translucent black; null for none
+}
+
+export interface CaptionSettings {
+  cues?: CaptionCue[]; // In output time, e.g. imported from a WebVTT or SRT file
+  language?: string; // ISO 639-2/T code for the subtitle track, e.g. "eng"
+  subtitle_track?: boolean; // Soft subtitles where the container supports them, defaults to true
+  burn_in?: boolean; // Draws the captions into the frames, defaults to false
+  style?: CaptionStyle;
 }
 
 export interface Segment {
@@ -21,6 +135,24 @@ export interface Segment {
   summary: string;
   duration_sec: number;
   muted: boolean;
+  transition?: SegmentTransition;
+  fit?: FitMode; // Overrides the project's output fit for this segment
+  crop?: SegmentCrop; // Reframes the source before it is fitted to the output
+  gain_db?: number; // Applied to the segment's own audio, defaults to 0
+  fade_in_ms?: number; // Linear fades of the segment's own audio, on top of any transition
+  fade_out_ms?: number;
+  captions?: CaptionCue[]; // In source time; only the part inside the segment's range is shown
+}
+
+// Music mixed under the stitched audio. It plays once from `offset_sec` on the output timeline
+// and is ducked wherever an unmuted segment plays.
+export interface MusicTrack {
+  url: string;
+  offset_sec?: number; // Defaults to 0
+  gain_db?: number; // Defaults to 0
+  fade_in_ms?: number; // From where the track starts, defaults to 1000
+  fade_out_ms?: number; // Up to where the track or the output ends, defaults to 1000
+  duck_db?: number; // Gain change under unmuted segments, defaults to -12; 0 turns ducking off
 }
 
 export interface VideoCutdownResult {
@@ -33,6 +165,10 @@ export interface VideoCutdownResult {
   user_id: string;
   chat_id: string;
   total_scenes: number;
+  output?: OutputSpec;
+  export?: ExportSettings;
+  music?: MusicTrack[];
+  captions?: CaptionSettings;
 }
 
 export interface SampleData {